@@ -0,0 +1,16 @@
+// Fails when a core bundle outgrows the "<10KB gzip" budget in package.json.
+// Run after `npm run build`.
+import { readFileSync } from 'node:fs';
+import { gzipSync } from 'node:zlib';
+
+const LIMIT = 10_000;
+const BUNDLES = ['dist/index.js', 'dist/index.cjs', 'dist/index.global.js'];
+
+let failed = false;
+for (const file of BUNDLES) {
+  const size = gzipSync(readFileSync(file), { level: 9 }).length;
+  const over = size >= LIMIT;
+  if (over) failed = true;
+  console.log(`${over ? '✗' : '✓'} ${file}: ${size} B gzip (limit ${LIMIT} B)`);
+}
+if (failed) process.exit(1);
@@ -1,6 +1,6 @@
-import type { MetricScores, MetricWeights } from './types';
+import type { CadenceExplanation, CadenceFeatures, CustomMetric, CustomMetricScores, KeystrokeEvent, MetricInput, MetricScores, MetricWeights, ReasonCode, ScoringParameters } from './types';
 import { stddev, shannonEntropy, sigmoid, clamp, mean } from './utils';
-import { detectSpoof } from './anti-spoof';
+import { AUTOCORR_NOISE_FLOOR, detectSpoof, type SpoofResult } from './anti-spoof';
 
 /**
  * Default metric weights, calibrated against the Aalto 168K keystroke benchmark.
@@ -26,6 +26,23 @@ export const DEFAULT_WEIGHTS: MetricWeights = {
   rolloverRate: 0.25,
 };
 
+/**
+ * Default weights for the virtual keyboard (mobile) profile.
+ *
+ * Virtual keyboards report near-zero dwell and never roll over, so
+ * dwellVariance and rolloverRate carry no weight. The remaining metrics
+ * run on inter-input intervals, which are slower and noisier than
+ * physical flight times.
+ */
+export const DEFAULT_MOBILE_WEIGHTS: MetricWeights = {
+  dwellVariance: 0,
+  flightFit: 0.25,
+  timingEntropy: 0.35,
+  correctionRatio: 0.15,
+  burstRegularity: 0.25,
+  rolloverRate: 0,
+};
+
 /** Minimum dwell samples for variance scoring.
  *  With n<5, population stddev has ≤3 degrees of freedom —
  *  the 95% CI is [0.45σ̂, 31.9σ̂] at n=2, narrowing to [0.60σ̂, 2.87σ̂] at n=5. */
@@ -57,7 +74,7 @@ const MIN_BURST_SAMPLES = 10;
 const MIN_ROLLOVER_SAMPLES = 10;
 
 /** Sentinel: metric has no behavioral data to score (e.g. 0 corrections). */
-const NO_DATA = -1;
+export const NO_DATA = -1;
 
 // ── Dwell variance sigmoid parameters ──
 const DWELL_UP_SLOPE = 0.3;
@@ -88,6 +105,7 @@ const EXCESSIVE_CORRECTION_PENALTY = 0.8;
 
 // ── Burst regularity ──
 const BURST_GAP_MS = 300;             // gap > 300 ms separates bursts
+const MOBILE_BURST_GAP_MS = 800;      // thumb typing: word gaps run ~0.6–1.5 s
 const BURST_CV_SLOPE = 8;
 const BURST_CV_MIDPOINT = 0.2;
 
@@ -95,16 +113,65 @@ const BURST_CV_MIDPOINT = 0.2;
 const ROLLOVER_SIGMOID_SLOPE = 60;
 const ROLLOVER_SIGMOID_MIDPOINT = 0.03;
 
+/**
+ * Hand-tuned sigmoid parameters of the built-in metrics. Override them with
+ * a calibration profile fitted to your own users (see `./calibration`).
+ */
+export const DEFAULT_SCORING_PARAMETERS: ScoringParameters = {
+  dwellUpSlope: DWELL_UP_SLOPE,
+  dwellUpMidpoint: DWELL_UP_MIDPOINT_MS,
+  dwellDownSlope: DWELL_DOWN_SLOPE,
+  dwellDownMidpoint: DWELL_DOWN_MIDPOINT_MS,
+  ikiFloor: IKI_FLOOR_MS,
+  fluctuationSlope: FLUCTUATION_SIGMOID_SLOPE,
+  fluctuationMidpoint: FLUCTUATION_SIGMOID_MIDPOINT,
+  entropyUpSlope: ENTROPY_UP_SLOPE,
+  entropyUpMidpoint: ENTROPY_UP_MIDPOINT_BITS,
+  entropyDownSlope: ENTROPY_DOWN_SLOPE,
+  entropyDownMidpoint: ENTROPY_DOWN_MIDPOINT_BITS,
+  correctionSlope: CORRECTION_SIGMOID_SLOPE,
+  correctionMidpoint: CORRECTION_SIGMOID_MIDPOINT,
+  burstCvSlope: BURST_CV_SLOPE,
+  burstCvMidpoint: BURST_CV_MIDPOINT,
+  rolloverSlope: ROLLOVER_SIGMOID_SLOPE,
+  rolloverMidpoint: ROLLOVER_SIGMOID_MIDPOINT,
+};
+
 export interface AnalyzerResult {
   score: number;
-  metrics: MetricScores;
+  metrics: MetricScores & CustomMetricScores;
   sampleCount: number;
   confident: boolean;
+  features: CadenceFeatures;
+  explanation?: CadenceExplanation;
 }
 
 export interface AnalyzerConfig {
   minSamples: number;
-  weights: MetricWeights;
+  /** Built-in metric weights — missing entries fall back to DEFAULT_WEIGHTS */
+  weights: Partial<MetricWeights>;
+  /** Custom metrics scored after the built-ins */
+  metrics?: CustomMetric[];
+  /** Custom metric weights by name — missing entries fall back to CustomMetric.weight */
+  customWeights?: Record<string, number>;
+  /**
+   * Built-in metric set. 'virtual' scores inter-input intervals passed as
+   * `flights` (dwells are empty) and gates dwell/rollover metrics out.
+   * Default: 'keyboard'
+   */
+  profile?: 'keyboard' | 'virtual';
+  /** Collect reason codes and raw statistics per metric. Default: false */
+  explain?: boolean;
+  /** Sigmoid parameters — missing entries fall back to DEFAULT_SCORING_PARAMETERS */
+  parameters?: Partial<ScoringParameters>;
+}
+
+/** Optional inputs beyond the core timing arrays. */
+export interface AnalyzerExtras {
+  /** Per-keystroke event log, forwarded to custom metrics */
+  events?: KeystrokeEvent[];
+  /** Digraph transition class per flight — enables the per-class flightFit model */
+  flightClasses?: number[];
 }
 
 export interface Analyzer {
@@ -114,51 +181,101 @@ export interface Analyzer {
     corrections: number,
     rollovers: number,
     total: number,
+    extras?: AnalyzerExtras,
   ): AnalyzerResult;
 }
 
+/** Where a scorer writes its reasons and statistics when explaining. */
+interface MetricNotes {
+  reasons: ReasonCode[];
+  stats: Record<string, number>;
+}
+
+interface MetricDefinition {
+  name: string;
+  score(input: MetricInput, notes: MetricNotes): number;
+}
+
+/** Neutral score for a metric below its sample gate. */
+function insufficient(notes: MetricNotes): number {
+  notes.reasons.push('METRIC_INSUFFICIENT_SAMPLES');
+  return 0.5;
+}
+
 /**
  * Dwell variance score.
  * Humans: σ ≈ 15–60ms (high variability). Bots: σ < 5ms or σ > 100ms.
  * Sigmoid centered at 25ms, scoring human-range high.
  */
-function scoreDwellVariance(dwells: number[]): number {
-  if (dwells.length < MIN_DWELL_SAMPLES) return 0.5;
+function scoreDwellVariance(dwells: number[], p: ScoringParameters, notes: MetricNotes): number {
+  if (dwells.length < MIN_DWELL_SAMPLES) return insufficient(notes);
   const sd = stddev(dwells);
+  notes.stats.stddev = sd;
+  if (sd < p.dwellUpMidpoint) notes.reasons.push('DWELL_SD_TOO_LOW');
+  else if (sd > p.dwellDownMidpoint) notes.reasons.push('DWELL_SD_TOO_HIGH');
   // Too low (< 5ms) → bot, sweet spot ~15–60ms → human, too high → noise
   // Use a bell-like shape: sigmoid up then sigmoid down
-  const up = sigmoid(sd, DWELL_UP_SLOPE, DWELL_UP_MIDPOINT_MS);
-  const down = sigmoid(sd, DWELL_DOWN_SLOPE, DWELL_DOWN_MIDPOINT_MS);
+  const up = sigmoid(sd, p.dwellUpSlope, p.dwellUpMidpoint);
+  const down = sigmoid(sd, p.dwellDownSlope, p.dwellDownMidpoint);
   return up * down;
 }
 
 /**
  * Flight fit score.
- * Delegates to anti-spoof detectSpoof for distribution analysis.
+ * Delegates to anti-spoof detectSpoof for distribution analysis,
+ * per digraph class when transition classes are available.
  * Returns the genuineScore directly.
  */
-function scoreFlightFit(flights: number[]): number {
-  if (flights.length < MIN_FLIGHT_SAMPLES) return 0.5;
-  const result = detectSpoof(flights);
+function scoreFlightFit(flights: number[], classes: number[] | undefined, p: ScoringParameters, notes: MetricNotes): number {
+  if (flights.length < MIN_FLIGHT_SAMPLES) return insufficient(notes);
+  const result = detectSpoof(flights, classes);
 
-  // Physical IKI floor: sustained median < IKI_FLOOR_MS is impossible for humans
+  // Physical IKI floor: sustained median < ikiFloor (60 ms) is impossible for humans
   let subFloor = 0;
   for (let i = 0; i < flights.length; i++) {
-    if (flights[i] < IKI_FLOOR_MS) subFloor++;
+    if (flights[i] < p.ikiFloor) subFloor++;
   }
-  const ikiPenalty = (subFloor / flights.length) > SUB_FLOOR_RATIO_THRESHOLD ? IKI_FLOOR_PENALTY : 1.0;
+  const subFloorRatio = subFloor / flights.length;
+  const ikiPenalty = subFloorRatio > SUB_FLOOR_RATIO_THRESHOLD ? IKI_FLOOR_PENALTY : 1.0;
+  noteFlightFit(notes, flights, result, subFloorRatio);
 
   return result.genuineScore * ikiPenalty;
 }
 
+/** Record the spoof statistics behind flightFit and flag the ones outside the human range. */
+function noteFlightFit(notes: MetricNotes, flights: number[], result: SpoofResult, subFloorRatio: number) {
+  const { stats, reasons } = notes;
+  stats.genuineScore = result.genuineScore;
+  stats.logNormality = result.logNormality;
+  stats.uniformity = result.uniformity;
+  stats.autocorrelation = result.serialCorrelation;
+  stats.subFloorRatio = subFloorRatio;
+  if (result.logNormalFit) {
+    stats.ksStatistic = result.logNormalFit.statistic;
+    stats.ksCritical = result.logNormalFit.critical;
+  }
+  if (result.uniformFit) {
+    stats.uniformKsStatistic = result.uniformFit.statistic;
+    stats.uniformKsCritical = result.uniformFit.critical;
+  }
+
+  if (subFloorRatio > SUB_FLOOR_RATIO_THRESHOLD) reasons.push('IKI_FLOOR_VIOLATION');
+  if (flights.every((flight) => flight === flights[0])) reasons.push('CONSTANT_FLIGHTS');
+  if (result.logNormalFit && result.logNormalFit.statistic > result.logNormalFit.critical) {
+    reasons.push('LOGNORMAL_FIT_REJECTED');
+  }
+  if (result.uniformFit && result.uniformFit.statistic <= result.uniformFit.critical) reasons.push('UNIFORM_FLIGHTS');
+  if (Math.abs(result.serialCorrelation) <= AUTOCORR_NOISE_FLOOR) reasons.push('ZERO_AUTOCORRELATION');
+}
+
 /**
  * Timing entropy score.
  * Humans: medium-high entropy (2.5–4.0 bits) — varied but not perfectly uniform.
  * Bots: very high (uniform) or very low (constant).
  * Bell-shaped scoring centered around 3.0 bits.
  */
-function scoreTimingEntropy(flights: number[]): number {
-  if (flights.length < MIN_ENTROPY_SAMPLES) return 0.5;
+function scoreTimingEntropy(flights: number[], p: ScoringParameters, notes: MetricNotes): number {
+  if (flights.length < MIN_ENTROPY_SAMPLES) return insufficient(notes);
   const entropy = shannonEntropy(flights, 10);
 
   // Fluctuation ratio: max/min IKI distinguishes narrow-range bots from humans
@@ -168,11 +285,17 @@ function scoreTimingEntropy(flights: number[]): number {
     if (flights[i] > max) max = flights[i];
   }
   const fluctuation = min > 0 ? max / min : 0;
-  const fluctScore = sigmoid(fluctuation, FLUCTUATION_SIGMOID_SLOPE, FLUCTUATION_SIGMOID_MIDPOINT);
+  const fluctScore = sigmoid(fluctuation, p.fluctuationSlope, p.fluctuationMidpoint);
+
+  notes.stats.entropyBits = entropy;
+  notes.stats.fluctuationRatio = fluctuation;
+  if (entropy < p.entropyUpMidpoint) notes.reasons.push('ENTROPY_TOO_LOW');
+  else if (entropy > p.entropyDownMidpoint) notes.reasons.push('ENTROPY_TOO_HIGH');
+  if (fluctuation < p.fluctuationMidpoint) notes.reasons.push('NARROW_IKI_RANGE');
 
   // Base entropy (unchanged bell shape)
-  const up = sigmoid(entropy, ENTROPY_UP_SLOPE, ENTROPY_UP_MIDPOINT_BITS);
-  const down = sigmoid(entropy, ENTROPY_DOWN_SLOPE, ENTROPY_DOWN_MIDPOINT_BITS);
+  const up = sigmoid(entropy, p.entropyUpSlope, p.entropyUpMidpoint);
+  const down = sigmoid(entropy, p.entropyDownSlope, p.entropyDownMidpoint);
   const entropyScore = up * down;
 
   // Combine: entropy + fluctuation
@@ -188,12 +311,14 @@ function scoreTimingEntropy(flights: number[]): number {
  * (fast typists: 3.4% ± 2.05%, slow: 9.05% ± 6.85%). Zero corrections
  * over 50+ keystrokes is normal for ~50% of skilled typists.
  */
-function scoreCorrectionRatio(corrections: number, total: number): number {
-  if (total < MIN_CORRECTION_SAMPLES) return 0.5;
-  if (corrections === 0) return NO_DATA;
+function scoreCorrectionRatio(corrections: number, total: number, p: ScoringParameters, notes: MetricNotes): number {
+  if (total < MIN_CORRECTION_SAMPLES) return insufficient(notes);
   const ratio = corrections / total;
-  const raw = sigmoid(ratio, CORRECTION_SIGMOID_SLOPE, CORRECTION_SIGMOID_MIDPOINT);
-  const floor = sigmoid(0, CORRECTION_SIGMOID_SLOPE, CORRECTION_SIGMOID_MIDPOINT);
+  notes.stats.ratio = ratio;
+  if (corrections === 0) return NO_DATA;
+  if (ratio > EXCESSIVE_CORRECTION_THRESHOLD) notes.reasons.push('EXCESSIVE_CORRECTIONS');
+  const raw = sigmoid(ratio, p.correctionSlope, p.correctionMidpoint);
+  const floor = sigmoid(0, p.correctionSlope, p.correctionMidpoint);
   const score = (raw - floor) / (1 - floor);
   // Excessive corrections → slight penalty
   return ratio > EXCESSIVE_CORRECTION_THRESHOLD ? score * EXCESSIVE_CORRECTION_PENALTY : score;
@@ -204,20 +329,21 @@ function scoreCorrectionRatio(corrections: number, total: number): number {
  * Humans type in bursts with irregular gaps between them.
  * Bots produce suspiciously regular inter-burst timing.
  *
- * Detect bursts: a gap > 300ms separates bursts.
+ * Detect bursts: a gap > 300ms (800ms on virtual keyboards) separates bursts.
  * Then measure σ of burst gaps — high σ = human.
  */
-function scoreBurstRegularity(flights: number[]): number {
-  if (flights.length < MIN_BURST_SAMPLES) return 0.5;
+function scoreBurstRegularity(flights: number[], gapMs: number, p: ScoringParameters, notes: MetricNotes): number {
+  if (flights.length < MIN_BURST_SAMPLES) return insufficient(notes);
 
   const burstGaps: number[] = [];
 
   for (let i = 0; i < flights.length; i++) {
-    if (flights[i] > BURST_GAP_MS) {
+    if (flights[i] > gapMs) {
       burstGaps.push(flights[i]);
     }
   }
 
+  notes.stats.burstGaps = burstGaps.length;
   // No bursts detected — no signal to score
   if (burstGaps.length < 2) return NO_DATA;
 
@@ -226,7 +352,9 @@ function scoreBurstRegularity(flights: number[]): number {
 
   // Coefficient of variation: high CV = irregular bursts = human
   const cv = gapMean > 0 ? gapStddev / gapMean : 0;
-  return sigmoid(cv, BURST_CV_SLOPE, BURST_CV_MIDPOINT);
+  notes.stats.gapCv = cv;
+  if (cv < p.burstCvMidpoint) notes.reasons.push('REGULAR_BURSTS');
+  return sigmoid(cv, p.burstCvSlope, p.burstCvMidpoint);
 }
 
 /**
@@ -236,17 +364,106 @@ function scoreBurstRegularity(flights: number[]): number {
  * Humans: 25% average, 50% for fast typists. Bots: 0%.
  * Zero rollovers → NO_DATA (gated out of weighted average).
  */
-function scoreRolloverRate(rollovers: number, total: number): number {
-  if (total < MIN_ROLLOVER_SAMPLES) return 0.5;
-  if (rollovers === 0) return NO_DATA;
+function scoreRolloverRate(rollovers: number, total: number, p: ScoringParameters, notes: MetricNotes): number {
+  if (total < MIN_ROLLOVER_SAMPLES) return insufficient(notes);
   const ratio = rollovers / total;
-  const raw = sigmoid(ratio, ROLLOVER_SIGMOID_SLOPE, ROLLOVER_SIGMOID_MIDPOINT);
-  const floor = sigmoid(0, ROLLOVER_SIGMOID_SLOPE, ROLLOVER_SIGMOID_MIDPOINT);
+  notes.stats.ratio = ratio;
+  if (rollovers === 0) return NO_DATA;
+  if (ratio < p.rolloverMidpoint) notes.reasons.push('LOW_ROLLOVER_RATE');
+  const raw = sigmoid(ratio, p.rolloverSlope, p.rolloverMidpoint);
+  const floor = sigmoid(0, p.rolloverSlope, p.rolloverMidpoint);
   return (raw - floor) / (1 - floor);
 }
 
+/** Built-in metrics in scoring order. Each scorer applies its own sample gate. */
+function builtinMetrics(p: ScoringParameters): MetricDefinition[] {
+  return [
+    { name: 'dwellVariance', score: (m, notes) => scoreDwellVariance(m.dwells, p, notes) },
+    { name: 'flightFit', score: (m, notes) => scoreFlightFit(m.flights, m.flightClasses, p, notes) },
+    { name: 'timingEntropy', score: (m, notes) => scoreTimingEntropy(m.flights, p, notes) },
+    { name: 'correctionRatio', score: (m, notes) => scoreCorrectionRatio(m.corrections, m.total, p, notes) },
+    { name: 'burstRegularity', score: (m, notes) => scoreBurstRegularity(m.flights, BURST_GAP_MS, p, notes) },
+    { name: 'rolloverRate', score: (m, notes) => scoreRolloverRate(m.rollovers, m.total, p, notes) },
+  ];
+}
+
+/** Virtual keyboard metrics — same names, interval-based scoring. */
+function virtualMetrics(p: ScoringParameters): MetricDefinition[] {
+  return [
+    { name: 'dwellVariance', score: () => NO_DATA },
+    { name: 'flightFit', score: (m, notes) => scoreFlightFit(m.flights, undefined, p, notes) },
+    { name: 'timingEntropy', score: (m, notes) => scoreTimingEntropy(m.flights, p, notes) },
+    { name: 'correctionRatio', score: (m, notes) => scoreCorrectionRatio(m.corrections, m.total, p, notes) },
+    { name: 'burstRegularity', score: (m, notes) => scoreBurstRegularity(m.flights, MOBILE_BURST_GAP_MS, p, notes) },
+    { name: 'rolloverRate', score: () => NO_DATA },
+  ];
+}
+
+/**
+ * Wrap a user-supplied metric with the min-sample gate and clamp its output.
+ * NaN/non-finite scores are treated as NO_DATA rather than poisoning the average.
+ */
+function toDefinition(metric: CustomMetric, virtual: boolean): MetricDefinition {
+  const minSamples = metric.minSamples ?? 0;
+  return {
+    name: metric.name,
+    score(input, notes) {
+      const samples = virtual ? input.flights.length : input.dwells.length;
+      if (samples < minSamples) return insufficient(notes);
+      const value = metric.score(input);
+      if (value === NO_DATA || !Number.isFinite(value)) return NO_DATA;
+      return clamp(value, 0, 1);
+    },
+  };
+}
+
+/** Merge built-in and custom metrics, rejecting duplicate names, and resolve each one's weight. */
+function buildRegistry(config: AnalyzerConfig, virtual: boolean, parameters: ScoringParameters): {
+  definitions: MetricDefinition[];
+  weights: Record<string, number>;
+} {
+  const definitions = virtual ? virtualMetrics(parameters) : builtinMetrics(parameters);
+  const defaults = virtual ? DEFAULT_MOBILE_WEIGHTS : DEFAULT_WEIGHTS;
+  const weights: Record<string, number> = {};
+  for (const name of Object.keys(defaults) as (keyof MetricWeights)[]) weights[name] = config.weights[name] ?? defaults[name];
+  const names = new Set(definitions.map((d) => d.name));
+  for (const metric of config.metrics ?? []) {
+    if (names.has(metric.name)) {
+      throw new Error(`Metric "${metric.name}" is already registered`);
+    }
+    names.add(metric.name);
+    definitions.push(toDefinition(metric, virtual));
+    weights[metric.name] = config.customWeights?.[metric.name] ?? metric.weight;
+  }
+  return { definitions, weights };
+}
+
+/** Pick the raw features out of the built-in metrics' statistics. */
+function collectFeatures(stats: Record<string, Record<string, number>>): CadenceFeatures {
+  const value = (metric: string, key: string) => stats[metric]?.[key] ?? null;
+  return {
+    dwellStddev: value('dwellVariance', 'stddev'),
+    subFloorRatio: value('flightFit', 'subFloorRatio'),
+    logNormality: value('flightFit', 'logNormality'),
+    logNormalKs: value('flightFit', 'ksStatistic'),
+    uniformity: value('flightFit', 'uniformity'),
+    uniformKs: value('flightFit', 'uniformKsStatistic'),
+    serialCorrelation: value('flightFit', 'autocorrelation'),
+    entropyBits: value('timingEntropy', 'entropyBits'),
+    fluctuationRatio: value('timingEntropy', 'fluctuationRatio'),
+    correctionRatio: value('correctionRatio', 'ratio'),
+    burstGaps: value('burstRegularity', 'burstGaps'),
+    burstCv: value('burstRegularity', 'gapCv'),
+    rolloverRatio: value('rolloverRate', 'ratio'),
+  };
+}
+
 export function createAnalyzer(config: AnalyzerConfig): Analyzer {
-  const { minSamples, weights } = config;
+  const { minSamples } = config;
+  const virtual = config.profile === 'virtual';
+  const explain = config.explain === true;
+  const parameters = { ...DEFAULT_SCORING_PARAMETERS, ...config.parameters };
+  const { definitions, weights } = buildRegistry(config, virtual, parameters);
 
   return {
     analyze(
@@ -255,46 +472,47 @@ export function createAnalyzer(config: AnalyzerConfig): Analyzer {
       corrections: number,
       rollovers: number,
       total: number,
+      extras?: AnalyzerExtras,
     ): AnalyzerResult {
-      const sampleCount = dwells.length;
+      // Virtual input has no dwells — each interval is one sample
+      const sampleCount = virtual ? flights.length : dwells.length;
       const confident = sampleCount >= minSamples;
-
-      const raw = {
-        dwellVariance: scoreDwellVariance(dwells),
-        flightFit: scoreFlightFit(flights),
-        timingEntropy: scoreTimingEntropy(flights),
-        correctionRatio: scoreCorrectionRatio(corrections, total),
-        burstRegularity: scoreBurstRegularity(flights),
-        rolloverRate: scoreRolloverRate(rollovers, total),
+      const input: MetricInput = {
+        dwells, flights, corrections, rollovers, total,
+        events: extras?.events,
+        flightClasses: extras?.flightClasses,
       };
 
-      // Public metrics: replace NO_DATA with 0 for reporting
-      const metrics: MetricScores = {
-        dwellVariance: raw.dwellVariance === NO_DATA ? 0 : raw.dwellVariance,
-        flightFit: raw.flightFit === NO_DATA ? 0 : raw.flightFit,
-        timingEntropy: raw.timingEntropy === NO_DATA ? 0 : raw.timingEntropy,
-        correctionRatio: raw.correctionRatio === NO_DATA ? 0 : raw.correctionRatio,
-        burstRegularity: raw.burstRegularity === NO_DATA ? 0 : raw.burstRegularity,
-        rolloverRate: raw.rolloverRate === NO_DATA ? 0 : raw.rolloverRate,
-      };
-
-      // Dynamic weight redistribution: skip gated (NO_DATA) metrics
+      // Dynamic weight redistribution: skip gated (NO_DATA) metrics.
+      // Public metrics replace NO_DATA with 0 for reporting.
+      const metrics = {} as MetricScores & CustomMetricScores;
+      const stats: Record<string, Record<string, number>> = {};
+      const explanation: CadenceExplanation | undefined = explain ? { metrics: {}, reasons: [] } : undefined;
       let weightedSum = 0;
       let weightSum = 0;
-      const keys: (keyof MetricWeights)[] = [
-        'dwellVariance', 'flightFit', 'timingEntropy',
-        'correctionRatio', 'burstRegularity', 'rolloverRate',
-      ];
-      for (const k of keys) {
-        if (raw[k] !== NO_DATA) {
-          weightedSum += weights[k] * raw[k];
-          weightSum += weights[k];
+      for (const def of definitions) {
+        const notes: MetricNotes = { reasons: [], stats: {} };
+        const raw = def.score(input, notes);
+        stats[def.name] = notes.stats;
+        const weight = weights[def.name];
+        const score = raw === NO_DATA ? 0 : raw;
+        metrics[def.name] = score;
+        if (raw !== NO_DATA) {
+          weightedSum += weight * raw;
+          weightSum += weight;
+        }
+        if (explanation) {
+          if (raw === NO_DATA) notes.reasons.push('METRIC_GATED_NO_DATA');
+          explanation.metrics[def.name] = { score, weight, gated: raw === NO_DATA, ...notes };
+          for (const reason of notes.reasons) {
+            if (!explanation.reasons.includes(reason)) explanation.reasons.push(reason);
+          }
         }
       }
 
       const score = weightSum > 0 ? clamp(weightedSum / weightSum, 0, 1) : 0;
 
-      return { score, metrics, sampleCount, confident };
+      return { score, metrics, sampleCount, confident, features: collectFeatures(stats), ...(explanation && { explanation }) };
     },
   };
 }
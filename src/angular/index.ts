@@ -0,0 +1,271 @@
+import {
+  ElementRef,
+  EventEmitter,
+  inject,
+  signal,
+  type OnChanges,
+  type OnDestroy,
+  type OnInit,
+  type Signal,
+  type SimpleChanges,
+} from '@angular/core';
+import * as i0 from '@angular/core';
+import { createCadence } from '../index';
+import type { Cadence, CadenceConfig, CadenceLiveConfig, CadenceResult, TimingData } from '../types';
+
+export type {
+  Cadence,
+  CadenceConfig,
+  CadenceResult,
+  CadenceSignals,
+  Classification,
+  ClassificationThresholds,
+  CompositionResult,
+  CustomMetric,
+  CustomMetricScores,
+  KeystrokeEvent,
+  MetricInput,
+  MetricWeights,
+  MobileMode,
+  MetricScores,
+  TimingData,
+} from '../types';
+export { DEFAULT_WEIGHTS, DEFAULT_MOBILE_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS, NO_DATA } from '../index';
+
+export interface HumanCadenceOptions {
+  /** Sliding window size. Default: 50 */
+  windowSize?: number;
+  /** Minimum samples for confident score. Default: 20 */
+  minSamples?: number;
+  /** Custom metric weights. */
+  weights?: CadenceConfig['weights'];
+  /** Additional metrics scored alongside the built-ins. */
+  metrics?: CadenceConfig['metrics'];
+  /** Weights for custom metrics, keyed by name. */
+  customWeights?: CadenceConfig['customWeights'];
+  /** Virtual keyboard handling. Default: 'off' */
+  mobileMode?: CadenceConfig['mobileMode'];
+  /** Record per-keystroke event log for offline analysis. Default: false */
+  recordEvents?: boolean;
+  /** Custom thresholds for hysteresis classification. */
+  classificationThresholds?: CadenceConfig['classificationThresholds'];
+}
+
+/** The argument of an `ɵɵngDeclare*` call — the runtime types leave out `minVersion`, which only the linker reads. */
+type Declaration<F extends (decl: never) => unknown> = Parameters<F>[0] & { minVersion: string };
+
+export interface TrackOptions extends HumanCadenceOptions {
+  /** Called on every new score for this field, in addition to updating `results`. */
+  onScore?: (result: CadenceResult) => void;
+}
+
+function toConfig(options: HumanCadenceOptions | undefined, onScore: (result: CadenceResult) => void): CadenceConfig {
+  return {
+    windowSize: options?.windowSize,
+    minSamples: options?.minSamples,
+    weights: options?.weights,
+    metrics: options?.metrics,
+    customWeights: options?.customWeights,
+    mobileMode: options?.mobileMode,
+    recordEvents: options?.recordEvents,
+    classificationThresholds: options?.classificationThresholds,
+    scheduling: 'idle',
+    onScore,
+  };
+}
+
+/** Scoring settings a live instance can take via configure(). */
+function liveConfig(options: HumanCadenceOptions): CadenceLiveConfig {
+  return {
+    windowSize: options.windowSize,
+    minSamples: options.minSamples,
+    weights: options.weights ?? {},
+    customWeights: options.customWeights ?? {},
+    classificationThresholds: options.classificationThresholds ?? {},
+  };
+}
+
+/**
+ * Tracks any number of named fields, each with its own cadence instance,
+ * and exposes their latest results as a signal. Instances are destroyed
+ * with the service.
+ */
+export class HumanCadenceService implements OnDestroy {
+  // Partial-Ivy declarations, as ngtsc emits them in compilationMode
+  // 'partial' (the way ng-packagr builds libraries). The app's Angular
+  // linker turns them into definitions, so no decorators or JIT compiler
+  // are needed; the linker reads them as literals, and AOT builds read the
+  // types, which mirror the generated .d.ts.
+  static ɵfac: i0.ɵɵFactoryDeclaration<HumanCadenceService, never> = i0.ɵɵngDeclareFactory({
+    minVersion: '12.0.0', version: '20.3.32', ngImport: i0, type: HumanCadenceService, deps: [], target: i0.ɵɵFactoryTarget.Injectable,
+  } as Declaration<typeof i0.ɵɵngDeclareFactory>) as never;
+  static ɵprov: i0.ɵɵInjectableDeclaration<HumanCadenceService> = i0.ɵɵngDeclareInjectable({
+    minVersion: '12.0.0', version: '20.3.32', ngImport: i0, type: HumanCadenceService, providedIn: 'root',
+  } as Declaration<typeof i0.ɵɵngDeclareInjectable>) as never;
+
+  private readonly fields = new Map<string, Cadence>();
+  private readonly latest = signal<Readonly<Record<string, CadenceResult>>>({});
+
+  /** Latest result per tracked field name. */
+  readonly results: Signal<Readonly<Record<string, CadenceResult>>> = this.latest.asReadonly();
+
+  /**
+   * Start analyzing `element` under `name`. Tracking an existing name
+   * replaces its instance. Returns a function that stops tracking it.
+   */
+  track(name: string, element: HTMLElement | ElementRef<HTMLElement>, options?: TrackOptions): () => void {
+    this.untrack(name);
+    const node = element instanceof ElementRef ? element.nativeElement : element;
+    const cadence = createCadence(node, toConfig(options, (result) => {
+      // A superseded instance may still flush a pending idle callback
+      if (this.fields.get(name) !== cadence) return;
+      this.latest.update((all) => ({ ...all, [name]: result }));
+      options?.onScore?.(result);
+    }));
+    cadence.start();
+    this.fields.set(name, cadence);
+    return () => {
+      if (this.fields.get(name) === cadence) this.untrack(name);
+    };
+  }
+
+  /** Stop tracking a field and drop its result. */
+  untrack(name: string): void {
+    const cadence = this.fields.get(name);
+    if (!cadence) return;
+    cadence.destroy();
+    this.fields.delete(name);
+    this.latest.update(({ [name]: _removed, ...rest }) => rest);
+  }
+
+  /** Tracked field names. */
+  names(): string[] {
+    return [...this.fields.keys()];
+  }
+
+  /** Analyze a field now, or undefined if it isn't tracked. */
+  analyze(name: string): CadenceResult | undefined {
+    return this.fields.get(name)?.analyze();
+  }
+
+  /** Clear collected data for one field, or all fields. */
+  reset(name?: string): void {
+    const names = name === undefined ? this.names() : [name];
+    for (const field of names) this.fields.get(field)?.reset();
+    this.latest.update((all) => {
+      if (name === undefined) return {};
+      const { [name]: _removed, ...rest } = all;
+      return rest;
+    });
+  }
+
+  /** Update a field's scoring settings in place. */
+  configure(name: string, config: CadenceLiveConfig): void {
+    this.fields.get(name)?.configure(config);
+  }
+
+  /** Plain-object snapshot of a field's raw timing buffers, or null if it isn't tracked. */
+  snapshot(name: string): TimingData | null {
+    return this.fields.get(name)?.snapshot() ?? null;
+  }
+
+  ngOnDestroy(): void {
+    for (const name of this.names()) this.untrack(name);
+  }
+}
+
+/**
+ * Standalone directive for keystroke cadence analysis.
+ *
+ * Usage:
+ *   <input humanCadence (cadenceScore)="onScore($event)" />
+ *   <input [humanCadence]="{ minSamples: 30 }" (cadenceScore)="onScore($event)" />
+ *   <input humanCadence cadenceName="email" />  — tracked by HumanCadenceService
+ *
+ * Changed scoring options (`windowSize`, `minSamples`, `weights`,
+ * `customWeights`, `classificationThresholds`) are applied to the live
+ * instance; `metrics`, `mobileMode` and `recordEvents` are read once, on init.
+ */
+export class HumanCadenceDirective implements OnInit, OnChanges, OnDestroy {
+  static ɵfac: i0.ɵɵFactoryDeclaration<HumanCadenceDirective, never> = i0.ɵɵngDeclareFactory({
+    minVersion: '12.0.0', version: '20.3.32', ngImport: i0, type: HumanCadenceDirective, deps: [], target: i0.ɵɵFactoryTarget.Directive,
+  } as Declaration<typeof i0.ɵɵngDeclareFactory>) as never;
+  static ɵdir: i0.ɵɵDirectiveDeclaration<
+    HumanCadenceDirective,
+    '[humanCadence]',
+    ['humanCadence'],
+    { humanCadence: { alias: 'humanCadence'; required: false }; cadenceName: { alias: 'cadenceName'; required: false } },
+    { cadenceScore: 'cadenceScore' },
+    never,
+    never,
+    true,
+    never
+  > = i0.ɵɵngDeclareDirective({
+    minVersion: '14.0.0',
+    version: '20.3.32',
+    type: HumanCadenceDirective,
+    isStandalone: true,
+    selector: '[humanCadence]',
+    inputs: { humanCadence: 'humanCadence', cadenceName: 'cadenceName' },
+    outputs: { cadenceScore: 'cadenceScore' },
+    exportAs: ['humanCadence'],
+    usesOnChanges: true,
+    ngImport: i0,
+  } as Declaration<typeof i0.ɵɵngDeclareDirective>) as never;
+
+  /** Options (input) — the bare attribute uses the defaults. */
+  humanCadence: HumanCadenceOptions | '' = '';
+  /** Register the field with HumanCadenceService under this name (input). */
+  cadenceName?: string;
+  /** Emits every new score (output). */
+  readonly cadenceScore = new EventEmitter<CadenceResult>();
+
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly service = inject(HumanCadenceService);
+  private cadence: Cadence | null = null;
+  private untrack: (() => void) | null = null;
+
+  ngOnInit(): void {
+    const options = this.humanCadence || {};
+    const onScore = (result: CadenceResult) => this.cadenceScore.emit(result);
+    const name = this.cadenceName;
+    if (name) {
+      this.untrack = this.service.track(name, this.host, { ...options, onScore });
+      return;
+    }
+    this.cadence = createCadence(this.host.nativeElement, toConfig(options, onScore));
+    this.cadence.start();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const change = changes['humanCadence'];
+    if (!change || change.firstChange) return;
+    const live = liveConfig((change.currentValue as HumanCadenceOptions | '') || {});
+    // Compared by value — a new options object may carry the same settings
+    if (JSON.stringify(live) === JSON.stringify(liveConfig((change.previousValue as HumanCadenceOptions | '') || {}))) return;
+    const name = this.cadenceName;
+    if (this.untrack && name) this.service.configure(name, live);
+    else this.cadence?.configure(live);
+  }
+
+  /** Reset all collected data. */
+  reset(): void {
+    const name = this.cadenceName;
+    if (this.untrack && name) this.service.reset(name);
+    else this.cadence?.reset();
+  }
+
+  /** Return a plain-object snapshot of raw timing buffers, or null if not attached. */
+  snapshot(): TimingData | null {
+    const name = this.cadenceName;
+    if (this.untrack && name) return this.service.snapshot(name);
+    return this.cadence?.snapshot() ?? null;
+  }
+
+  ngOnDestroy(): void {
+    this.untrack?.();
+    this.untrack = null;
+    this.cadence?.destroy();
+    this.cadence = null;
+  }
+}
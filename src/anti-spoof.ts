@@ -7,8 +7,11 @@ const KS_PASS_BASELINE = 0.7;         // score when D ≤ critical
 const KS_PASS_BONUS = 0.3;            // additional range [0.7, 1.0]
 const KS_FAIL_BASELINE = 0.7;         // numerator when D > critical
 
+// ── Digraph model ──
+const MIN_CLASS_SAMPLES = 3;          // per-class fit needs ≥3 points for a usable σ
+
 // ── detectSpoof weights ──
-const AUTOCORR_NOISE_FLOOR = 0.05;    // below this, treat as zero
+export const AUTOCORR_NOISE_FLOOR = 0.05; // below this, treat as zero
 const AUTOCORR_HUMAN_MAX = 0.3;       // normalization cap
 const SPOOF_WEIGHT_LOGNORMALITY = 0.45;
 const SPOOF_WEIGHT_UNIFORMITY = 0.30;
@@ -37,6 +40,29 @@ function ksStatistic(samples: number[], cdf: (x: number) => number): number {
   return maxD;
 }
 
+/** A KS goodness-of-fit test: the statistic D and the critical value it was tested against. */
+export interface KsFit {
+  statistic: number;
+  critical: number;
+}
+
+interface FitResult {
+  score: number;
+  /** Absent when the test didn't run (too few samples, constant values) */
+  fit?: KsFit;
+}
+
+/**
+ * Map a KS statistic to a fit score: [0.7, 1.0] when D passes the critical
+ * value, decaying toward 0 as D exceeds it.
+ */
+function ksFitScore(D: number, critical: number): number {
+  if (D <= critical) {
+    return KS_PASS_BASELINE + KS_PASS_BONUS * (1 - D / critical);
+  }
+  return Math.max(0, KS_FAIL_BASELINE * (critical / D));
+}
+
 /**
  * Test how well flight times fit a log-normal distribution.
  * Returns a score 0–1 where higher = better fit = more human-like.
@@ -45,18 +71,22 @@ function ksStatistic(samples: number[], cdf: (x: number) => number): number {
  * with estimated mean and stddev from the transformed data.
  */
 export function computeLogNormalityScore(flights: number[]): number {
-  if (flights.length < MIN_KS_SAMPLES) return 0.5; // insufficient data, neutral
+  return fitLogNormal(flights).score;
+}
+
+function fitLogNormal(flights: number[]): FitResult {
+  if (flights.length < MIN_KS_SAMPLES) return { score: 0.5 }; // insufficient data, neutral
 
   // Log-transform, filtering out non-positive values
   const logged: number[] = [];
   for (let i = 0; i < flights.length; i++) {
     if (flights[i] > 0) logged.push(Math.log(flights[i]));
   }
-  if (logged.length < MIN_KS_SAMPLES) return 0.5;
+  if (logged.length < MIN_KS_SAMPLES) return { score: 0.5 };
 
   const mu = mean(logged);
   const sigma = stddev(logged);
-  if (sigma === 0) return 0; // constant values → not human
+  if (sigma === 0) return { score: 0 }; // constant values → not human
 
   // KS test against normal(mu, sigma)
   const D = ksStatistic([...logged], (x) => normalCDF((x - mu) / sigma));
@@ -70,12 +100,57 @@ export function computeLogNormalityScore(flights: number[]): number {
   const critical = KS_CRITICAL_COEFF / Math.sqrt(logged.length);
 
   // Convert D to a score: D < critical → good fit → high score
-  // Use ratio: score approaches 1 as D approaches 0
-  if (D <= critical) {
-    return KS_PASS_BASELINE + KS_PASS_BONUS * (1 - D / critical);
+  return { score: ksFitScore(D, critical), fit: { statistic: D, critical } };
+}
+
+/**
+ * Log-normality test for a mixture of digraph-class distributions.
+ *
+ * Each transition class (see digraph.ts) gets its own log-normal fit: log
+ * flights are standardized with the class's own μ/σ, then the pooled
+ * z-scores are KS-tested against N(0, 1). Classes with too few samples are
+ * pooled together and standardized as one group. Falls back to the single
+ * log-normal fit when there are too few standardized samples overall.
+ */
+export function computeDigraphLogNormalityScore(flights: number[], classes: number[]): number {
+  return fitDigraphLogNormal(flights, classes).score;
+}
+
+function fitDigraphLogNormal(flights: number[], classes: number[]): FitResult {
+  if (flights.length < MIN_KS_SAMPLES) return { score: 0.5 };
+
+  const groups = new Map<number, number[]>();
+  for (let i = 0; i < flights.length; i++) {
+    if (flights[i] <= 0) continue;
+    const group = groups.get(classes[i]);
+    if (group) group.push(Math.log(flights[i]));
+    else groups.set(classes[i], [Math.log(flights[i])]);
   }
-  // D > critical: score drops below baseline
-  return Math.max(0, KS_FAIL_BASELINE * (critical / D));
+
+  const sparse: number[] = [];
+  const fitted: number[][] = [];
+  groups.forEach((group) => {
+    if (group.length < MIN_CLASS_SAMPLES) sparse.push(...group);
+    else fitted.push(group);
+  });
+  if (sparse.length >= MIN_CLASS_SAMPLES) fitted.push(sparse);
+
+  const z: number[] = [];
+  let degenerate = true;
+  for (const group of fitted) {
+    const mu = mean(group);
+    const sigma = stddev(group);
+    if (sigma === 0) continue;
+    degenerate = false;
+    for (let i = 0; i < group.length; i++) z.push((group[i] - mu) / sigma);
+  }
+
+  if (fitted.length > 0 && degenerate) return { score: 0 }; // every class constant → not human
+  if (z.length < MIN_KS_SAMPLES) return fitLogNormal(flights);
+
+  const D = ksStatistic(z, normalCDF);
+  const critical = KS_CRITICAL_COEFF / Math.sqrt(z.length);
+  return { score: ksFitScore(D, critical), fit: { statistic: D, critical } };
 }
 
 /**
@@ -83,24 +158,25 @@ export function computeLogNormalityScore(flights: number[]): number {
  * Returns a score 0–1 where higher = better fit to uniform = more bot-like.
  */
 export function computeUniformityScore(flights: number[]): number {
-  if (flights.length < MIN_KS_SAMPLES) return 0.5;
+  return fitUniform(flights).score;
+}
+
+function fitUniform(flights: number[]): FitResult {
+  if (flights.length < MIN_KS_SAMPLES) return { score: 0.5 };
 
   const sorted = [...flights].sort((a, b) => a - b);
   const min = sorted[0];
   const max = sorted[sorted.length - 1];
   const range = max - min;
 
-  if (range === 0) return 0; // constant is not uniform, it's degenerate
+  if (range === 0) return { score: 0 }; // constant is not uniform, it's degenerate
 
   // KS test against uniform(min, max)
   const D = ksStatistic([...sorted], (x) => (x - min) / range);
   // KS critical value at α=0.10 — see computeLogNormalityScore for rationale.
   const critical = KS_CRITICAL_COEFF / Math.sqrt(flights.length);
 
-  if (D <= critical) {
-    return KS_PASS_BASELINE + KS_PASS_BONUS * (1 - D / critical);
-  }
-  return Math.max(0, KS_FAIL_BASELINE * (critical / D));
+  return { score: ksFitScore(D, critical), fit: { statistic: D, critical } };
 }
 
 export interface SpoofResult {
@@ -112,16 +188,27 @@ export interface SpoofResult {
   uniformity: number;
   /** Lag-1 autocorrelation (humans ~0.1–0.4, random jitter ~0.0) */
   serialCorrelation: number;
+  /** KS test behind `logNormality` — absent with too few samples or constant flights */
+  logNormalFit?: KsFit;
+  /** KS test behind `uniformity` — absent with too few samples or constant flights */
+  uniformFit?: KsFit;
 }
 
 /**
  * Composite spoof detection combining distribution analysis and
  * serial correlation. Returns a genuineScore where higher = more
  * likely to be genuine human input.
+ *
+ * When `classes` (digraph transition classes aligned with `flights`) are
+ * given, log-normality is fitted per class instead of as one distribution.
  */
-export function detectSpoof(flights: number[]): SpoofResult {
-  const logNormality = computeLogNormalityScore(flights);
-  const uniformity = computeUniformityScore(flights);
+export function detectSpoof(flights: number[], classes?: number[]): SpoofResult {
+  const logNormal = classes && classes.length === flights.length
+    ? fitDigraphLogNormal(flights, classes)
+    : fitLogNormal(flights);
+  const uniform = fitUniform(flights);
+  const logNormality = logNormal.score;
+  const uniformity = uniform.score;
   const serialCorrelation = flights.length >= 3 ? autocorrelation(flights) : 0;
 
   // Combine signals:
@@ -141,5 +228,12 @@ export function detectSpoof(flights: number[]): SpoofResult {
     SPOOF_WEIGHT_AUTOCORR * corrScore,
   ));
 
-  return { genuineScore, logNormality, uniformity, serialCorrelation };
+  return {
+    genuineScore,
+    logNormality,
+    uniformity,
+    serialCorrelation,
+    ...(logNormal.fit && { logNormalFit: logNormal.fit }),
+    ...(uniform.fit && { uniformFit: uniform.fit }),
+  };
 }
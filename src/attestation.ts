@@ -0,0 +1,171 @@
+import type { AttestationKey, AttestOptions, CadenceResult, CadenceSignals, Classification, TimingData } from './types';
+
+/** Token format version — bumped on any change to the signed payload shape. */
+const ATTESTATION_VERSION = 1;
+
+/** Default max token age accepted by verifyAttestation (5 minutes). */
+const DEFAULT_MAX_AGE_MS = 5 * 60 * 1000;
+
+/** Tolerated clock skew for tokens issued "in the future" by the client. */
+const CLOCK_SKEW_MS = 30 * 1000;
+
+const HMAC_PARAMS: HmacImportParams = { name: 'HMAC', hash: 'SHA-256' };
+
+/** The signed claims carried by an attestation token. */
+export interface AttestationPayload {
+  /** Token format version */
+  v: number;
+  score: number;
+  classification: Classification;
+  sampleCount: number;
+  signals: CadenceSignals;
+  /** base64url SHA-256 of the canonical timing data the score was computed from */
+  digest: string;
+  /** Issue time (ms since epoch) */
+  iat: number;
+  /** Server-issued challenge nonce */
+  nonce: string;
+}
+
+export interface VerifyAttestationOptions {
+  /** Shared HMAC secret or key */
+  key: AttestationKey;
+  /** The nonce the server issued — tokens for any other nonce are rejected */
+  nonce: string;
+  /** Max token age in ms. Default: 300000 (5 minutes) */
+  maxAgeMs?: number;
+  /** When provided, the token digest must match this timing data */
+  timing?: TimingData;
+  /** Current time in ms since epoch. Default: Date.now() */
+  now?: number;
+}
+
+export type AttestationError = 'malformed' | 'signature' | 'nonce' | 'expired' | 'digest';
+
+export type AttestationVerification =
+  | { valid: true; payload: AttestationPayload }
+  | { valid: false; error: AttestationError };
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) return null;
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4);
+  try {
+    const binary = atob(padded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+async function importKey(key: AttestationKey): Promise<CryptoKey> {
+  if (typeof key === 'object' && 'algorithm' in key) return key;
+  const raw = typeof key === 'string' ? new TextEncoder().encode(key) : key;
+  return crypto.subtle.importKey('raw', raw, HMAC_PARAMS, false, ['sign', 'verify']);
+}
+
+/**
+ * SHA-256 digest of timing data, serialized with a fixed key order so the
+ * client and server hash identical bytes for identical data.
+ */
+export async function digestTimingData(timing: TimingData): Promise<string> {
+  const canonical = JSON.stringify([
+    timing.dwells,
+    timing.flights,
+    timing.corrections,
+    timing.rollovers,
+    timing.total,
+    timing.events?.map((e) => [e.pressTime, e.releaseTime, e.isCorrection, e.isRollover]) ?? null,
+    timing.flightClasses ?? null,
+    // Only mobile-mode snapshots carry these, so keyboard digests are unchanged
+    ...(timing.virtual
+      ? [timing.profile ?? null, timing.virtual.intervals, timing.virtual.corrections, timing.virtual.total]
+      : []),
+  ]);
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return toBase64Url(new Uint8Array(hash));
+}
+
+/**
+ * Sign a cadence result and the timing data behind it into a compact
+ * `<payload>.<signature>` token (both base64url, HMAC-SHA-256).
+ */
+export async function createAttestation(
+  result: CadenceResult,
+  timing: TimingData,
+  options: AttestOptions & { now?: number },
+): Promise<string> {
+  const payload: AttestationPayload = {
+    v: ATTESTATION_VERSION,
+    score: result.score,
+    classification: result.classification,
+    sampleCount: result.sampleCount,
+    signals: result.signals,
+    digest: await digestTimingData(timing),
+    iat: options.now ?? Date.now(),
+    nonce: options.nonce,
+  };
+  const body = new TextEncoder().encode(JSON.stringify(payload));
+  const key = await importKey(options.key);
+  const signature = await crypto.subtle.sign('HMAC', key, body);
+  return `${toBase64Url(body)}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+function parsePayload(bytes: Uint8Array): AttestationPayload | null {
+  try {
+    const value: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof value !== 'object' || value === null) return null;
+    const p = value as Partial<AttestationPayload>;
+    if (p.v !== ATTESTATION_VERSION) return null;
+    if (typeof p.score !== 'number' || typeof p.sampleCount !== 'number' || typeof p.iat !== 'number') return null;
+    if (typeof p.digest !== 'string' || typeof p.nonce !== 'string' || typeof p.classification !== 'string') return null;
+    if (typeof p.signals !== 'object' || p.signals === null) return null;
+    return p as AttestationPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an attestation token. Checks, in order: shape, HMAC signature,
+ * nonce, age, and (when `timing` is given) the timing digest. Replayed
+ * tokens fail the nonce check once the server rotates the nonce.
+ */
+export async function verifyAttestation(
+  token: string,
+  options: VerifyAttestationOptions,
+): Promise<AttestationVerification> {
+  const parts = token.split('.');
+  if (parts.length !== 2) return { valid: false, error: 'malformed' };
+  const body = fromBase64Url(parts[0]);
+  const signature = fromBase64Url(parts[1]);
+  if (!body || !signature) return { valid: false, error: 'malformed' };
+
+  const key = await importKey(options.key);
+  if (!(await crypto.subtle.verify('HMAC', key, signature, body))) {
+    return { valid: false, error: 'signature' };
+  }
+
+  const payload = parsePayload(body);
+  if (!payload) return { valid: false, error: 'malformed' };
+  if (payload.nonce !== options.nonce) return { valid: false, error: 'nonce' };
+
+  const now = options.now ?? Date.now();
+  const maxAge = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  if (now - payload.iat > maxAge || payload.iat - now > CLOCK_SKEW_MS) {
+    return { valid: false, error: 'expired' };
+  }
+
+  if (options.timing && (await digestTimingData(options.timing)) !== payload.digest) {
+    return { valid: false, error: 'digest' };
+  }
+
+  return { valid: true, payload };
+}
@@ -7,20 +7,30 @@ export interface RingBuffer {
   toArray(): number[];
   /** Reset to empty without reallocating. */
   clear(): void;
+  /** Change capacity, keeping the most recent values that still fit. */
+  resize(capacity: number): void;
   /** Current number of values stored. */
   readonly length: number;
 }
 
+function checkCapacity(capacity: number): number {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new RangeError(`Buffer capacity must be a positive integer, got ${capacity}`);
+  }
+  return capacity;
+}
+
 /**
  * Fixed-capacity circular buffer backed by Float64Array.
  * O(1) push, zero GC pressure in steady state.
  */
-export function createBuffer(capacity: number): RingBuffer {
-  const data = new Float64Array(capacity);
+export function createBuffer(initialCapacity: number): RingBuffer {
+  let capacity = checkCapacity(initialCapacity);
+  let data = new Float64Array(capacity);
   let head = 0;
   let count = 0;
 
-  return {
+  const buffer: RingBuffer = {
     push(value: number) {
       data[head] = value;
       head = (head + 1) % capacity;
@@ -48,8 +58,20 @@ export function createBuffer(capacity: number): RingBuffer {
       count = 0;
     },
 
+    resize(next: number) {
+      if (checkCapacity(next) === capacity) return;
+      const kept = buffer.toArray().slice(Math.max(0, count - next));
+      capacity = next;
+      data = new Float64Array(capacity);
+      data.set(kept);
+      count = kept.length;
+      head = count % capacity;
+    },
+
     get length() {
       return count;
     },
   };
+
+  return buffer;
 }
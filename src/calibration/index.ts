@@ -0,0 +1,285 @@
+import { createAnalyzer, DEFAULT_SCORING_PARAMETERS, DEFAULT_WEIGHTS } from '../analyzer';
+import { windowTiming, type WindowedTiming } from '../timing';
+import type { CalibrationProfile, MetricWeights, ScoringParameters, TimingData } from '../types';
+
+export type { CalibrationProfile, MetricWeights, ScoringParameters, TimingData } from '../types';
+export { DEFAULT_SCORING_PARAMETERS, DEFAULT_WEIGHTS } from '../analyzer';
+
+const DEFAULT_WINDOW_SIZE = 50;
+const DEFAULT_ROUNDS = 20;
+
+// ── Coordinate descent steps ──
+const WEIGHT_STEP = 0.05;             // additive, on weights that sum to 1
+const PARAMETER_STEP = 0.25;          // multiplicative, keeps each parameter's sign
+const MIN_WEIGHT_STEP = 0.005;
+const MIN_PARAMETER_STEP = 0.01;
+const MIN_IMPROVEMENT = 1e-9;
+
+/** Labeled sessions, e.g. `cadence.snapshot()` payloads collected with a known outcome. */
+export interface LabeledTimingData {
+  human: TimingData[];
+  bot: TimingData[];
+}
+
+export interface CalibrationOptions {
+  /** What to optimize: area under the ROC curve, or the equal error rate. Default: 'auc' */
+  objective?: 'auc' | 'eer';
+  /** Fit the metric weights. Default: true */
+  fitWeights?: boolean;
+  /** Fit the sigmoid parameters. Default: true */
+  fitParameters?: boolean;
+  /** Maximum coordinate descent rounds. Default: 20 */
+  rounds?: number;
+  /** Keystrokes considered per session — should match the client. Default: 50 */
+  windowSize?: number;
+  /** Starting point. Default: DEFAULT_WEIGHTS and DEFAULT_SCORING_PARAMETERS */
+  initial?: { weights?: Partial<MetricWeights>; parameters?: Partial<ScoringParameters> };
+}
+
+/** How well a set of scores separates humans (high) from bots (low). */
+export interface Separation {
+  /** Area under the ROC curve: the chance a random human outscores a random bot */
+  auc: number;
+  /** Equal error rate: where the false accept and false reject rates meet */
+  eer: number;
+  /** Score threshold at the equal error rate — humans score at or above it */
+  threshold: number;
+}
+
+/**
+ * ROC AUC and equal error rate of human vs bot scores. Ties count half
+ * toward the AUC.
+ */
+export function separation(humanScores: number[], botScores: number[]): Separation {
+  if (humanScores.length === 0 || botScores.length === 0) {
+    throw new Error('separation() needs at least one human and one bot score');
+  }
+  const labeled = [
+    ...humanScores.map((score) => ({ score, human: true })),
+    ...botScores.map((score) => ({ score, human: false })),
+  ].sort((a, b) => a.score - b.score);
+
+  // Mann–Whitney U over average ranks, then one sweep for the EER
+  let rankSum = 0;
+  let humansBelow = 0;
+  let botsBelow = 0;
+  let best = { gap: Infinity, eer: 1, threshold: labeled[0].score };
+  for (let i = 0; i < labeled.length;) {
+    let j = i;
+    let humans = 0;
+    while (j < labeled.length && labeled[j].score === labeled[i].score) {
+      if (labeled[j].human) humans++;
+      j++;
+    }
+    // Threshold at this score: humans below it are rejected, bots at or above it accepted
+    const frr = humansBelow / humanScores.length;
+    const far = (botScores.length - botsBelow) / botScores.length;
+    const gap = Math.abs(far - frr);
+    if (gap < best.gap) best = { gap, eer: (far + frr) / 2, threshold: labeled[i].score };
+
+    rankSum += humans * ((i + 1 + j) / 2);
+    humansBelow += humans;
+    botsBelow += j - i - humans;
+    i = j;
+  }
+
+  const u = rankSum - (humanScores.length * (humanScores.length + 1)) / 2;
+  return { auc: u / (humanScores.length * botScores.length), eer: best.eer, threshold: best.threshold };
+}
+
+/** Per-session metric scores for one parameter set; null marks a gated metric. */
+type MetricTable = (number | null)[][];
+
+const METRIC_NAMES = Object.keys(DEFAULT_WEIGHTS) as (keyof MetricWeights)[];
+const PARAMETER_NAMES = Object.keys(DEFAULT_SCORING_PARAMETERS) as (keyof ScoringParameters)[];
+
+function scoreMetrics(sessions: WindowedTiming[], parameters: ScoringParameters): MetricTable {
+  const analyzer = createAnalyzer({ minSamples: 0, weights: DEFAULT_WEIGHTS, parameters, explain: true });
+  return sessions.map((t) => {
+    const { explanation } = analyzer.analyze(t.dwells, t.flights, t.corrections, t.rollovers, t.total, {
+      flightClasses: t.flightClasses,
+    });
+    return METRIC_NAMES.map((name) => {
+      const metric = explanation?.metrics[name];
+      return !metric || metric.gated ? null : metric.score;
+    });
+  });
+}
+
+/** The analyzer's composite score: weighted mean over metrics that have data. */
+function compositeScores(table: MetricTable, weights: MetricWeights): number[] {
+  return table.map((row) => {
+    let weightedSum = 0;
+    let weightSum = 0;
+    row.forEach((score, i) => {
+      if (score === null) return;
+      weightedSum += weights[METRIC_NAMES[i]] * score;
+      weightSum += weights[METRIC_NAMES[i]];
+    });
+    return weightSum > 0 ? Math.min(1, Math.max(0, weightedSum / weightSum)) : 0;
+  });
+}
+
+function normalizeWeights(weights: MetricWeights): MetricWeights {
+  let sum = 0;
+  for (const name of METRIC_NAMES) sum += Math.max(0, weights[name]);
+  const normalized = {} as MetricWeights;
+  for (const name of METRIC_NAMES) {
+    normalized[name] = sum > 0 ? Math.max(0, weights[name]) / sum : 1 / METRIC_NAMES.length;
+  }
+  return normalized;
+}
+
+/**
+ * Fit metric weights and sigmoid parameters to labeled sessions by
+ * coordinate descent on ROC AUC (or EER), starting from the defaults.
+ * Deterministic — the same data and options give the same profile.
+ *
+ * Calibrate on a training split and check the profile on held-out
+ * sessions: with few sessions the fit follows their noise.
+ */
+export function calibrate(data: LabeledTimingData, options?: CalibrationOptions): CalibrationProfile {
+  if (data.human.length === 0 || data.bot.length === 0) {
+    throw new Error('calibrate() needs at least one human and one bot session');
+  }
+  const windowSize = options?.windowSize ?? DEFAULT_WINDOW_SIZE;
+  const rounds = options?.rounds ?? DEFAULT_ROUNDS;
+  const fitWeights = options?.fitWeights ?? true;
+  const fitParameters = options?.fitParameters ?? true;
+  const objective = options?.objective ?? 'auc';
+
+  const sessions = [...data.human, ...data.bot].map((session) => windowTiming(session, windowSize));
+  const humanCount = data.human.length;
+
+  function evaluate(table: MetricTable, weights: MetricWeights): Separation {
+    const scores = compositeScores(table, weights);
+    return separation(scores.slice(0, humanCount), scores.slice(humanCount));
+  }
+  function value(result: Separation): number {
+    return objective === 'auc' ? result.auc : -result.eer;
+  }
+
+  let weights = normalizeWeights({ ...DEFAULT_WEIGHTS, ...options?.initial?.weights } as MetricWeights);
+  let parameters: ScoringParameters = { ...DEFAULT_SCORING_PARAMETERS, ...options?.initial?.parameters };
+  let table = scoreMetrics(sessions, parameters);
+  let best = evaluate(table, weights);
+
+  let weightStep = WEIGHT_STEP;
+  let parameterStep = PARAMETER_STEP;
+  for (let round = 0; round < rounds; round++) {
+    let improved = false;
+
+    if (fitWeights) {
+      for (const name of METRIC_NAMES) {
+        for (const direction of [1, -1]) {
+          const candidate = normalizeWeights({ ...weights, [name]: weights[name] + direction * weightStep });
+          const result = evaluate(table, candidate);
+          if (value(result) > value(best) + MIN_IMPROVEMENT) {
+            weights = candidate;
+            best = result;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    if (fitParameters) {
+      for (const key of Object.keys(parameters) as (keyof ScoringParameters)[]) {
+        for (const direction of [1, -1]) {
+          const candidate = { ...parameters, [key]: parameters[key] * (1 + direction * parameterStep) };
+          const candidateTable = scoreMetrics(sessions, candidate);
+          const result = evaluate(candidateTable, weights);
+          if (value(result) > value(best) + MIN_IMPROVEMENT) {
+            parameters = candidate;
+            table = candidateTable;
+            best = result;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    if (!improved) {
+      weightStep /= 2;
+      parameterStep /= 2;
+      if (weightStep < MIN_WEIGHT_STEP && parameterStep < MIN_PARAMETER_STEP) break;
+    }
+  }
+
+  return {
+    v: 1,
+    weights,
+    parameters,
+    auc: best.auc,
+    eer: best.eer,
+    threshold: best.threshold,
+    samples: { human: data.human.length, bot: data.bot.length },
+  };
+}
+
+export type CalibrationValidation =
+  | { valid: true; profile: CalibrationProfile }
+  | { valid: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Every name in `names` must hold a finite number, non-negative when `nonNegative` is set. */
+function checkNumbers(label: string, record: unknown, names: readonly string[], nonNegative: boolean): string | null {
+  if (!isRecord(record)) return `${label} must be an object`;
+  for (const name of names) {
+    const value = record[name];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return `${label}.${name} must be a finite number`;
+    if (nonNegative && value < 0) return `${label}.${name} must not be negative`;
+  }
+  return null;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/** Copy only the known keys, so unknown metrics or parameters don't reach scoring. */
+function pick<K extends string>(record: Record<string, unknown>, names: readonly K[]): Record<K, number> {
+  const picked = {} as Record<K, number>;
+  for (const name of names) picked[name] = record[name] as number;
+  return picked;
+}
+
+/**
+ * Check a profile read from storage before scoring with it — a missing
+ * weight or parameter would otherwise turn every score into NaN. Returns a
+ * new profile with only the known fields: weights for unknown metrics and
+ * unknown parameters are dropped.
+ */
+export function validateCalibrationProfile(value: unknown): CalibrationValidation {
+  if (!isRecord(value)) return { valid: false, error: 'profile must be an object' };
+  const { v, weights, parameters, auc, eer, threshold, samples } = value;
+  const error =
+    (v === 1 ? null : 'v must be 1') ??
+    checkNumbers('weights', weights, METRIC_NAMES, true) ??
+    checkNumbers('parameters', parameters, PARAMETER_NAMES, false) ??
+    (isRate(auc) ? null : 'auc must be a number between 0 and 1') ??
+    (isRate(eer) ? null : 'eer must be a number between 0 and 1') ??
+    (isRate(threshold) ? null : 'threshold must be a number between 0 and 1') ??
+    (isRecord(samples) && isCount(samples.human) && isCount(samples.bot) ? null : 'samples must hold human and bot counts');
+  if (error) return { valid: false, error };
+  const counts = samples as CalibrationProfile['samples'];
+  return {
+    valid: true,
+    profile: {
+      v: 1,
+      weights: pick(weights as Record<string, unknown>, METRIC_NAMES),
+      parameters: pick(parameters as Record<string, unknown>, PARAMETER_NAMES),
+      auc: auc as number,
+      eer: eer as number,
+      threshold: threshold as number,
+      samples: { human: counts.human, bot: counts.bot },
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { CalibrationProfile, Classification, ClassificationThresholds } from './types';
+import { clamp } from './utils';
+
+export const DEFAULT_CLASSIFICATION_THRESHOLDS: ClassificationThresholds = {
+  botToUnknown: 0.45,
+  unknownToBot: 0.35,
+  unknownToHuman: 0.70,
+  humanToUnknown: 0.60,
+};
+
+/**
+ * Schmitt-trigger classification step. Returns the next state given the
+ * current one, so a score hovering near a boundary doesn't flicker.
+ */
+export function classify(
+  score: number,
+  current: Classification,
+  thresholds: ClassificationThresholds,
+): Classification {
+  switch (current) {
+    case 'bot':
+      return score >= thresholds.botToUnknown ? 'unknown' : 'bot';
+    case 'unknown':
+      if (score >= thresholds.unknownToHuman) return 'human';
+      if (score < thresholds.unknownToBot) return 'bot';
+      return 'unknown';
+    case 'human':
+      return score < thresholds.humanToUnknown ? 'unknown' : 'human';
+  }
+}
+
+/**
+ * Thresholds before any explicit override: the defaults, or with a
+ * calibration profile the defaults shifted so that reaching 'human' takes
+ * the profile's equal-error-rate threshold — the score at or above which
+ * its sessions were accepted. The hysteresis gaps keep their width.
+ */
+export function baseThresholds(calibration?: CalibrationProfile): ClassificationThresholds {
+  if (!calibration) return DEFAULT_CLASSIFICATION_THRESHOLDS;
+  const shift = calibration.threshold - DEFAULT_CLASSIFICATION_THRESHOLDS.unknownToHuman;
+  return {
+    botToUnknown: clamp(DEFAULT_CLASSIFICATION_THRESHOLDS.botToUnknown + shift, 0, 1),
+    unknownToBot: clamp(DEFAULT_CLASSIFICATION_THRESHOLDS.unknownToBot + shift, 0, 1),
+    unknownToHuman: clamp(calibration.threshold, 0, 1),
+    humanToUnknown: clamp(DEFAULT_CLASSIFICATION_THRESHOLDS.humanToUnknown + shift, 0, 1),
+  };
+}
@@ -0,0 +1,15 @@
+import { createReadStream } from 'node:fs';
+import { runCli } from './index';
+
+runCli(process.argv.slice(2), {
+  readFile: (path) => createReadStream(path),
+  stdin: process.stdin,
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}).then(
+  (code) => { process.exitCode = code; },
+  (error: unknown) => {
+    process.stderr.write(`human-cadence: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,311 @@
+import { DEFAULT_WEIGHTS } from '../analyzer';
+import { validateCalibrationProfile } from '../calibration';
+import { DEFAULT_CLASSIFICATION_THRESHOLDS } from '../classifier';
+import { readLines, type ChunkSource } from '../datasets';
+import { verifyTimingData, type ServerVerdict, type VerifyOptions } from '../server';
+import type { ClassificationThresholds, MetricWeights } from '../types';
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+/** Where the CLI reads and writes — Node streams in bin.ts, strings in tests. */
+export interface CliIO {
+  readFile(path: string): ChunkSource;
+  stdin: ChunkSource;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+interface CliOptions {
+  format: OutputFormat;
+  files: string[];
+  verify: VerifyOptions;
+  calibrationPath?: string;
+}
+
+/** One payload read from an input, named after its file and line or index. */
+interface InputRecord {
+  source: string;
+  payload?: unknown;
+  error?: string;
+}
+
+interface Row {
+  source: string;
+  verdict: ServerVerdict;
+}
+
+export const USAGE = `Usage: human-cadence [options] [file ...]
+
+Scores TimingData snapshots (cadence.snapshot()) read from JSON files,
+JSON arrays or NDJSON streams. With no file, or '-', reads stdin.
+
+Options:
+  -f, --format <table|json|csv>    Output format (default: table)
+  -w, --window-size <n>            Keystrokes scored per snapshot (default: 50)
+  -m, --min-samples <n>            Samples for a confident result (default: 20)
+      --weights <name=value,...>   Metric weight overrides
+      --thresholds <name=value,...>
+                                   Classification threshold overrides
+      --calibration <file>         Calibration profile from calibrate()
+  -h, --help                       Show this help
+
+A snapshot carries no client signals (paste, synthetic events, input
+without keystrokes): the reasons column lists the analyzer's reason codes
+instead, and genuine is the spoof detector's score. JSON output has the
+full spoof result.
+`;
+
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+const FORMATS: readonly OutputFormat[] = ['table', 'json', 'csv'];
+const METRIC_NAMES = Object.keys(DEFAULT_WEIGHTS) as (keyof MetricWeights)[];
+const SPOOF_FIELDS = ['genuineScore', 'logNormality', 'uniformity', 'serialCorrelation'] as const;
+
+class UsageError extends Error {}
+
+function positiveInteger(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new UsageError(`${flag} needs a positive integer`);
+  return parsed;
+}
+
+/** Parse `name=value,...` against a fixed set of names. */
+function assignments<K extends string>(flag: string, value: string | undefined, names: readonly K[]): Partial<Record<K, number>> {
+  if (!value) throw new UsageError(`${flag} needs name=value pairs`);
+  const result: Partial<Record<K, number>> = {};
+  for (const pair of value.split(',')) {
+    const [name, raw] = pair.split('=').map((part) => part.trim());
+    const parsed = Number(raw);
+    if (!names.includes(name as K)) throw new UsageError(`${flag}: unknown name '${name}' (expected ${names.join(', ')})`);
+    if (raw === undefined || raw === '' || !Number.isFinite(parsed)) throw new UsageError(`${flag}: ${name} needs a number`);
+    result[name as K] = parsed;
+  }
+  return result;
+}
+
+function parseArgs(argv: string[]): CliOptions | 'help' {
+  // Reason codes are the offline stand-in for the client's live signals
+  const options: CliOptions = { format: 'table', files: [], verify: { explain: true } };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    // --flag=value is the same as --flag value
+    const [flag, inline] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    const value = () => inline ?? argv[++i];
+    switch (flag) {
+      case '-h':
+      case '--help':
+        return 'help';
+      case '-f':
+      case '--format': {
+        const format = value() as OutputFormat;
+        if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}`);
+        options.format = format;
+        break;
+      }
+      case '-w':
+      case '--window-size':
+        options.verify.windowSize = positiveInteger(flag, value());
+        break;
+      case '-m':
+      case '--min-samples':
+        options.verify.minSamples = positiveInteger(flag, value());
+        break;
+      case '--weights':
+        options.verify.weights = assignments(flag, value(), METRIC_NAMES);
+        break;
+      case '--thresholds':
+        options.verify.classificationThresholds = assignments(
+          flag, value(), Object.keys(DEFAULT_CLASSIFICATION_THRESHOLDS) as (keyof ClassificationThresholds)[],
+        );
+        break;
+      case '--calibration':
+        options.calibrationPath = value();
+        if (!options.calibrationPath) throw new UsageError('--calibration needs a file');
+        break;
+      default:
+        if (arg.startsWith('-') && arg !== '-') throw new UsageError(`unknown option '${arg}'`);
+        options.files.push(arg);
+    }
+  }
+  return options;
+}
+
+async function readText(source: ChunkSource): Promise<string> {
+  const lines: string[] = [];
+  for await (const line of readLines(source)) lines.push(line);
+  return lines.join('\n');
+}
+
+function parseJson(text: string): { value?: unknown; error?: string } {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `invalid JSON: ${(error as Error).message}` };
+  }
+}
+
+function* expand(source: string, value: unknown): Generator<InputRecord> {
+  if (!Array.isArray(value)) {
+    yield { source, payload: value };
+    return;
+  }
+  for (let i = 0; i < value.length; i++) yield { source: `${source}#${i}`, payload: value[i] };
+}
+
+function* lineRecords(source: string, parsed: { value?: unknown; error?: string }): Generator<InputRecord> {
+  if (parsed.error !== undefined) yield { source, error: parsed.error };
+  else yield* expand(source, parsed.value);
+}
+
+/**
+ * Records in one input. A first line that parses on its own means NDJSON,
+ * read line by line and named `file:line` once there is a second line;
+ * otherwise the whole input is one JSON document — a snapshot or an array
+ * of them.
+ */
+async function* readRecords(name: string, source: ChunkSource): AsyncGenerator<InputRecord> {
+  let first: { lineNumber: number; parsed: { value?: unknown; error?: string } } | undefined;
+  let ndjson: boolean | undefined;
+  const document: string[] = [];
+  let lineNumber = 0;
+  for await (const line of readLines(source)) {
+    lineNumber++;
+    if (ndjson === false) {
+      document.push(line);
+      continue;
+    }
+    if (line.trim() === '') continue;
+    const parsed = parseJson(line);
+    if (ndjson === undefined) {
+      ndjson = parsed.error === undefined;
+      if (ndjson) first = { lineNumber, parsed };
+      else document.push(line);
+      continue;
+    }
+    if (first) {
+      yield* lineRecords(`${name}:${first.lineNumber}`, first.parsed);
+      first = undefined;
+    }
+    yield* lineRecords(`${name}:${lineNumber}`, parsed);
+  }
+  // A single line is just a compact JSON document
+  if (first) yield* lineRecords(name, first.parsed);
+  if (ndjson === false) yield* lineRecords(name, parseJson(document.join('\n')));
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function fixed(value: number): string {
+  return value.toFixed(3);
+}
+
+function reasons(verdict: ServerVerdict): string {
+  return verdict.explanation?.reasons.join(' ') ?? '';
+}
+
+function csvRow({ source, verdict }: Row): string {
+  return [
+    csvCell(source),
+    fixed(verdict.score),
+    verdict.classification,
+    String(verdict.confident),
+    String(verdict.sampleCount),
+    ...METRIC_NAMES.map((name) => fixed(verdict.metrics[name])),
+    ...SPOOF_FIELDS.map((field) => fixed(verdict.spoof[field])),
+    reasons(verdict),
+  ].join(',');
+}
+
+function table(rows: Row[]): string {
+  const header = ['source', 'score', 'class', 'confident', 'samples', ...METRIC_NAMES, 'genuine', 'reasons'];
+  const cells = rows.map(({ source, verdict }) => [
+    source,
+    fixed(verdict.score),
+    verdict.classification,
+    verdict.confident ? 'yes' : 'no',
+    String(verdict.sampleCount),
+    ...METRIC_NAMES.map((name) => fixed(verdict.metrics[name])),
+    fixed(verdict.spoof.genuineScore),
+    reasons(verdict),
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...cells.map((row) => row[i].length)));
+  return [header, ...cells].map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n') + '\n';
+}
+
+/**
+ * Run the `human-cadence` command and resolve with its exit code:
+ * 0 when every snapshot was scored, 1 when any input was unreadable or
+ * invalid, 2 on a usage error.
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  let options: CliOptions | 'help';
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.stderr(`human-cadence: ${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (options === 'help') {
+    io.stdout(USAGE);
+    return EXIT_OK;
+  }
+
+  if (options.calibrationPath) {
+    try {
+      const parsed = parseJson(await readText(io.readFile(options.calibrationPath)));
+      if (parsed.error !== undefined) throw new Error(parsed.error);
+      const checked = validateCalibrationProfile(parsed.value);
+      if (!checked.valid) throw new Error(checked.error);
+      options.verify.calibration = checked.profile;
+    } catch (error) {
+      io.stderr(`human-cadence: cannot read calibration ${options.calibrationPath}: ${(error as Error).message}\n`);
+      return EXIT_USAGE;
+    }
+  }
+
+  const { format } = options;
+  const rows: Row[] = [];
+  let failed = false;
+  const fail = (source: string, error: string) => {
+    failed = true;
+    if (format === 'json') io.stdout(`${JSON.stringify({ source, error })}\n`);
+    else io.stderr(`${source}: ${error}\n`);
+  };
+
+  if (format === 'csv') {
+    io.stdout(['source', 'score', 'classification', 'confident', 'sampleCount', ...METRIC_NAMES, ...SPOOF_FIELDS, 'reasons'].join(',') + '\n');
+  }
+
+  const files = options.files.length > 0 ? options.files : ['-'];
+  for (const file of files) {
+    const name = file === '-' ? 'stdin' : file;
+    try {
+      for await (const record of readRecords(name, file === '-' ? io.stdin : io.readFile(file))) {
+        if (record.error !== undefined) {
+          fail(record.source, record.error);
+          continue;
+        }
+        const verified = verifyTimingData(record.payload, options.verify);
+        if (!verified.valid) {
+          fail(record.source, verified.error);
+          continue;
+        }
+        const row = { source: record.source, verdict: verified.result };
+        // Streamed formats print as they go; the table needs every row for its widths
+        if (format === 'json') io.stdout(`${JSON.stringify({ source: row.source, ...row.verdict })}\n`);
+        else if (format === 'csv') io.stdout(`${csvRow(row)}\n`);
+        else rows.push(row);
+      }
+    } catch (error) {
+      fail(name, `cannot read: ${(error as Error).message}`);
+    }
+  }
+
+  if (format === 'table' && rows.length > 0) io.stdout(table(rows));
+  return failed ? EXIT_INVALID : EXIT_OK;
+}
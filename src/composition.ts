@@ -0,0 +1,18 @@
+import type { CompositionResult } from './types';
+import type { CompositionState } from './observer';
+import { mean } from './utils';
+
+/**
+ * Summarize IME composition sessions. Each session is one unit — a word or
+ * phrase built from several keystrokes and committed at once — so features
+ * are per session rather than per keystroke.
+ */
+export function summarizeComposition(state: CompositionState): CompositionResult {
+  return {
+    sessions: state.sessions,
+    meanDuration: mean(state.durations.toArray()),
+    meanUpdates: mean(state.updates.toArray()),
+    meanKeystrokes: mean(state.keystrokes.toArray()),
+    keylessSessions: state.keylessSessions,
+  };
+}
@@ -0,0 +1,206 @@
+import { deriveTimingFromEvents } from '../timing';
+import type { KeystrokeEvent, TimingData } from '../types';
+
+export type { KeystrokeEvent, TimingData } from '../types';
+
+/**
+ * A file's contents in chunks — e.g. `fs.createReadStream(path)`, a
+ * `fetch()` body, or the whole text as one string.
+ */
+export type ChunkSource = AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+
+/** One typing session from a dataset, as a time-ordered event log. */
+export interface DatasetSession {
+  subject: string;
+  session: string;
+  events: KeystrokeEvent[];
+}
+
+export interface BuffaloOptions {
+  /** Subject id — Buffalo stores one session per file, named after it */
+  subject?: string;
+  session?: string;
+}
+
+// .NET key names used by the Buffalo logger
+const BUFFALO_CORRECTION_KEYS = new Set(['Back', 'Delete']);
+// Virtual key codes for Backspace and Delete
+const AALTO_CORRECTION_KEYCODES = new Set([8, 46]);
+const AALTO_COLUMNS = ['PARTICIPANT_ID', 'TEST_SECTION_ID', 'PRESS_TIME', 'RELEASE_TIME', 'KEYCODE'] as const;
+type AaltoColumns = Record<(typeof AALTO_COLUMNS)[number], number>;
+
+/** Split chunked text into lines, without holding more than one line at a time. */
+export async function* readLines(source: ChunkSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let pending = '';
+  for await (const chunk of source) {
+    pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = pending.indexOf('\n')) >= 0) {
+      yield pending.slice(0, newline).replace(/\r$/, '');
+      pending = pending.slice(newline + 1);
+    }
+  }
+  pending += decoder.decode();
+  if (pending.length > 0) yield pending.replace(/\r$/, '');
+}
+
+/** Sort by press time and mark presses made while an earlier key was still held. */
+function finishEvents(events: KeystrokeEvent[]): KeystrokeEvent[] {
+  events.sort((a, b) => a.pressTime - b.pressTime);
+  let heldUntil = -Infinity;
+  for (const event of events) {
+    event.isRollover = event.pressTime < heldUntil;
+    heldUntil = Math.max(heldUntil, event.releaseTime);
+  }
+  return events;
+}
+
+/**
+ * CMU Keystroke Dynamics Benchmark (DSL-StrongPasswordData.csv): one row
+ * per repetition of the password, with hold (`H.*`) and keydown-keydown
+ * (`DD.*`) times in seconds. Each row becomes a session of 11 keystrokes.
+ */
+export async function* importCmu(source: ChunkSource): AsyncGenerator<DatasetSession> {
+  let holds: number[] | undefined;
+  const downDowns: number[] = [];
+  let subjectColumn = 0;
+  let sessionColumn = 0;
+  let repColumn = 0;
+  let lineNumber = 0;
+
+  for await (const line of readLines(source)) {
+    lineNumber++;
+    if (line.trim() === '') continue;
+    const cells = line.split(',').map((cell) => cell.trim());
+    if (!holds) {
+      holds = [];
+      cells.forEach((name, i) => {
+        if (name.startsWith('H.')) holds?.push(i);
+        else if (name.startsWith('DD.')) downDowns.push(i);
+      });
+      subjectColumn = cells.indexOf('subject');
+      sessionColumn = cells.indexOf('sessionIndex');
+      repColumn = cells.indexOf('rep');
+      if (holds.length === 0 || downDowns.length !== holds.length - 1 || subjectColumn < 0) {
+        throw new Error(`importCmu: line ${lineNumber} is not a DSL-StrongPassword header`);
+      }
+      continue;
+    }
+
+    const seconds = (i: number) => Number(cells[i]);
+    let press = 0;
+    const events: KeystrokeEvent[] = [];
+    for (let k = 0; k < holds.length; k++) {
+      if (k > 0) press += seconds(downDowns[k - 1]) * 1000;
+      const hold = seconds(holds[k]) * 1000;
+      if (!Number.isFinite(press) || !Number.isFinite(hold)) {
+        throw new Error(`importCmu: line ${lineNumber} has a non-numeric timing`);
+      }
+      events.push({ pressTime: press, releaseTime: press + hold, isCorrection: false, isRollover: false });
+    }
+    yield {
+      subject: cells[subjectColumn],
+      session: `${cells[sessionColumn] ?? ''}:${cells[repColumn] ?? ''}`,
+      events: finishEvents(events),
+    };
+  }
+}
+
+/**
+ * Buffalo free-text keystroke dataset: one `<key> KeyDown|KeyUp <ms>` line
+ * per event, one session per file. A keyup closes the open keydown of the
+ * same key; auto-repeat keydowns and orphan keyups are skipped.
+ */
+export async function* importBuffalo(source: ChunkSource, options?: BuffaloOptions): AsyncGenerator<DatasetSession> {
+  const open = new Map<string, number>();
+  const events: KeystrokeEvent[] = [];
+
+  for await (const line of readLines(source)) {
+    const [key, type, time] = line.trim().split(/\s+/);
+    const timestamp = Number(time);
+    if (!key || !Number.isFinite(timestamp)) continue;
+    if (type === 'KeyDown') {
+      // A second keydown without a keyup is auto-repeat
+      if (!open.has(key)) open.set(key, timestamp);
+    } else if (type === 'KeyUp') {
+      const pressTime = open.get(key);
+      if (pressTime === undefined) continue;
+      open.delete(key);
+      events.push({ pressTime, releaseTime: timestamp, isCorrection: BUFFALO_CORRECTION_KEYS.has(key), isRollover: false });
+    }
+  }
+
+  if (events.length > 0) {
+    yield { subject: options?.subject ?? '', session: options?.session ?? '', events: finishEvents(events) };
+  }
+}
+
+/**
+ * Aalto 136M Keystrokes (`<id>_keystrokes.txt`): tab-separated rows with
+ * press and release times in ms, grouped into one session per
+ * TEST_SECTION_ID. A session is yielded as soon as the next one starts.
+ */
+export async function* importAalto(source: ChunkSource): AsyncGenerator<DatasetSession> {
+  let columns: AaltoColumns | undefined;
+  let current: DatasetSession | undefined;
+  let lineNumber = 0;
+
+  for await (const line of readLines(source)) {
+    lineNumber++;
+    if (line.trim() === '') continue;
+    const cells = line.split('\t');
+    if (!columns) {
+      const header = cells.map((cell) => cell.trim());
+      const found = Object.fromEntries(AALTO_COLUMNS.map((name) => [name, header.indexOf(name)]));
+      if (Object.values(found).some((index) => index < 0)) {
+        throw new Error(`importAalto: line ${lineNumber} is missing one of ${AALTO_COLUMNS.join(', ')}`);
+      }
+      columns = found as AaltoColumns;
+      continue;
+    }
+
+    const pressTime = Number(cells[columns.PRESS_TIME]);
+    const releaseTime = Number(cells[columns.RELEASE_TIME]);
+    // The raw dump has a few truncated rows and key-ups lost before their key-down
+    if (!Number.isFinite(pressTime) || !Number.isFinite(releaseTime) || releaseTime < pressTime) continue;
+
+    const subject = cells[columns.PARTICIPANT_ID];
+    const session = cells[columns.TEST_SECTION_ID];
+    if (current && (current.subject !== subject || current.session !== session)) {
+      yield { ...current, events: finishEvents(current.events) };
+      current = undefined;
+    }
+    current ??= { subject, session, events: [] };
+    current.events.push({
+      pressTime,
+      releaseTime,
+      isCorrection: AALTO_CORRECTION_KEYCODES.has(Number(cells[columns.KEYCODE])),
+      isRollover: false,
+    });
+  }
+
+  if (current) yield { ...current, events: finishEvents(current.events) };
+}
+
+/**
+ * Split long sessions into consecutive windows of `size` keystrokes, e.g.
+ * to score free text the way a `windowSize` client would see it. A shorter
+ * tail is dropped.
+ */
+export async function* chunkSessions(
+  sessions: AsyncIterable<DatasetSession> | Iterable<DatasetSession>,
+  size: number,
+): AsyncGenerator<DatasetSession> {
+  if (!(size >= 1)) throw new Error('chunkSessions() needs a size of at least 1');
+  for await (const { subject, session, events } of sessions) {
+    for (let start = 0, index = 0; start + size <= events.length; start += size, index++) {
+      yield { subject, session: `${session}#${index}`, events: events.slice(start, start + size) };
+    }
+  }
+}
+
+/** A session as the `TimingData` a client snapshot would carry, event log included. */
+export function sessionToTimingData(session: DatasetSession): TimingData {
+  return { ...deriveTimingFromEvents(session.events), events: session.events };
+}
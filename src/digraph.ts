@@ -0,0 +1,80 @@
+/**
+ * Coarse key-transition classes for the digraph flight model.
+ *
+ * A key's physical position (`KeyboardEvent.code`) is reduced to hand + row
+ * on a standard ANSI/ISO layout and immediately discarded — only the class
+ * of the transition between two consecutive keys is stored. Four classes
+ * cannot reconstruct typed text.
+ */
+
+/** Both keys on the same hand and row (e.g. a home-row roll). */
+export const FLIGHT_CLASS_SAME_ROW = 0;
+/** Same hand, different row — the slowest transitions. */
+export const FLIGHT_CLASS_ROW_CHANGE = 1;
+/** Keys on opposite hands — the fastest transitions. */
+export const FLIGHT_CLASS_ALTERNATE = 2;
+/** Either key is unmapped (space, arrows, numpad, unknown layout). */
+export const FLIGHT_CLASS_OTHER = 3;
+
+export const FLIGHT_CLASS_COUNT = 4;
+
+/** Sentinel position for keys outside the main alphanumeric block. */
+export const UNKNOWN_POSITION = -1;
+
+// Rows top to bottom, split at the conventional touch-typing hand boundary.
+const LEFT_ROWS = [
+  ['Backquote', 'Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5'],
+  ['Tab', 'KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT'],
+  ['CapsLock', 'KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG'],
+  ['ShiftLeft', 'IntlBackslash', 'KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB'],
+];
+const RIGHT_ROWS = [
+  ['Digit6', 'Digit7', 'Digit8', 'Digit9', 'Digit0', 'Minus', 'Equal', 'Backspace'],
+  ['KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP', 'BracketLeft', 'BracketRight', 'Backslash'],
+  ['KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon', 'Quote', 'Enter'],
+  ['KeyN', 'KeyM', 'Comma', 'Period', 'Slash', 'ShiftRight'],
+];
+const ROW_COUNT = LEFT_ROWS.length;
+
+const POSITIONS = new Map<string, number>();
+LEFT_ROWS.forEach((row, r) => row.forEach((code) => POSITIONS.set(code, r)));
+RIGHT_ROWS.forEach((row, r) => row.forEach((code) => POSITIONS.set(code, ROW_COUNT + r)));
+
+/**
+ * Map a `KeyboardEvent.code` to a coarse position: hand * 4 + row,
+ * or UNKNOWN_POSITION for keys outside the alphanumeric block.
+ */
+export function keyPosition(code: string | undefined): number {
+  if (!code) return UNKNOWN_POSITION;
+  return POSITIONS.get(code) ?? UNKNOWN_POSITION;
+}
+
+/** Classify the transition between two consecutive key positions. */
+export function transitionClass(from: number, to: number): number {
+  if (from === UNKNOWN_POSITION || to === UNKNOWN_POSITION) return FLIGHT_CLASS_OTHER;
+  const fromHand = Math.floor(from / ROW_COUNT);
+  const toHand = Math.floor(to / ROW_COUNT);
+  if (fromHand !== toHand) return FLIGHT_CLASS_ALTERNATE;
+  return from === to ? FLIGHT_CLASS_SAME_ROW : FLIGHT_CLASS_ROW_CHANGE;
+}
+
+/** A representative `KeyboardEvent.code` for a position (inverse of keyPosition). */
+export function positionCode(position: number): string | undefined {
+  const rows = position < ROW_COUNT ? LEFT_ROWS : RIGHT_ROWS;
+  return rows[position % ROW_COUNT]?.[0];
+}
+
+/**
+ * A position whose transition from `from` falls in `flightClass` (inverse
+ * of transitionClass) — replay rebuilds a key sequence with the recorded
+ * classes without ever having stored a position.
+ */
+export function transitionTarget(from: number, flightClass: number): number {
+  switch (flightClass) {
+    case FLIGHT_CLASS_SAME_ROW: return from;
+    case FLIGHT_CLASS_ROW_CHANGE: return from - (from % ROW_COUNT) + ((from + 1) % ROW_COUNT);
+    case FLIGHT_CLASS_ALTERNATE: return (from + ROW_COUNT) % (ROW_COUNT * 2);
+    // Either end unmapped: step off the block, or onto it if already off
+    default: return from === UNKNOWN_POSITION ? 0 : UNKNOWN_POSITION;
+  }
+}
@@ -0,0 +1,181 @@
+import { createCadence } from '../index';
+import type { Cadence, CadenceResult, MobileMode, TimingData } from '../types';
+
+export type {
+  Cadence,
+  CadenceConfig,
+  CadenceResult,
+  CadenceSignals,
+  Classification,
+  ClassificationThresholds,
+  CompositionResult,
+  MetricScores,
+  CustomMetricScores,
+  MobileMode,
+  TimingData,
+} from '../types';
+
+/** The field the element analyzes: the first slotted input, textarea or contenteditable. */
+const FIELD_SELECTOR = 'input, textarea, [contenteditable]';
+
+const DEFAULT_TAG_NAME = 'human-cadence';
+
+// createCadence defaults, restored when an attribute is removed
+const DEFAULT_WINDOW_SIZE = 50;
+const DEFAULT_MIN_SAMPLES = 20;
+
+/** Name of the CustomEvent dispatched with every new result. */
+export const CADENCE_SCORE_EVENT = 'cadencescore';
+
+const MOBILE_MODES: readonly MobileMode[] = ['off', 'auto', 'always'];
+
+// Keep the module importable where HTMLElement doesn't exist (SSR); the
+// class is only ever instantiated by the browser's custom element registry.
+const Base = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement;
+
+function numberAttribute(element: HTMLElement, name: string): number | undefined {
+  const value = element.getAttribute(name);
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : undefined;
+}
+
+/**
+ * `<human-cadence>` — wraps a slotted field and analyzes its keystrokes.
+ *
+ * Usage:
+ *   <human-cadence min-samples="30">
+ *     <input type="email" name="email" />
+ *   </human-cadence>
+ *
+ * Reflects `classification` and `score` as attributes and dispatches a
+ * bubbling `cadencescore` CustomEvent whose `detail` is the CadenceResult.
+ * Configuration attributes: `window-size`, `min-samples`, `mobile-mode`,
+ * `digraph-model`. Window and sample changes apply in place; the others
+ * restart the analysis.
+ */
+export class HumanCadenceElement extends Base {
+  static readonly observedAttributes = ['window-size', 'min-samples', 'mobile-mode', 'digraph-model'];
+
+  /** Latest result, or null before the first score. */
+  result: CadenceResult | null = null;
+
+  private cadence: Cadence | null = null;
+  private field: HTMLElement | null = null;
+  private slotElement: HTMLSlotElement | null = null;
+  private readonly onSlotChange = () => this.attach();
+
+  connectedCallback(): void {
+    if (!this.slotElement) {
+      const root = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+      this.slotElement = document.createElement('slot');
+      root.appendChild(this.slotElement);
+    }
+    this.slotElement.addEventListener('slotchange', this.onSlotChange);
+    this.attach();
+  }
+
+  disconnectedCallback(): void {
+    this.slotElement?.removeEventListener('slotchange', this.onSlotChange);
+    this.detach();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue || !this.cadence) return;
+    if (name === 'window-size' || name === 'min-samples') {
+      this.cadence.configure({
+        windowSize: numberAttribute(this, 'window-size') ?? DEFAULT_WINDOW_SIZE,
+        minSamples: numberAttribute(this, 'min-samples') ?? DEFAULT_MIN_SAMPLES,
+      });
+      return;
+    }
+    this.detach();
+    this.attach();
+  }
+
+  /** The slotted field currently analyzed, if any. */
+  get target(): HTMLElement | null {
+    return this.field;
+  }
+
+  /** Analyze now and return the result, or null without a field. */
+  analyze(): CadenceResult | null {
+    return this.cadence?.analyze() ?? null;
+  }
+
+  /** Clear collected data and the reflected attributes. */
+  reset(): void {
+    this.cadence?.reset();
+    this.result = null;
+    this.removeAttribute('classification');
+    this.removeAttribute('score');
+  }
+
+  /** Return a plain-object snapshot of raw timing buffers, or null without a field. */
+  snapshot(): TimingData | null {
+    return this.cadence?.snapshot() ?? null;
+  }
+
+  /** Find the slotted field; start over when it changed. */
+  private attach() {
+    const field = this.findField();
+    if (field === this.field && this.cadence) return;
+    this.detach();
+    if (!field) return;
+
+    const mobileMode = this.getAttribute('mobile-mode') as MobileMode | null;
+    this.field = field;
+    this.cadence = createCadence(field, {
+      windowSize: numberAttribute(this, 'window-size'),
+      minSamples: numberAttribute(this, 'min-samples'),
+      mobileMode: mobileMode && MOBILE_MODES.includes(mobileMode) ? mobileMode : undefined,
+      digraphModel: this.hasAttribute('digraph-model'),
+      scheduling: 'idle',
+      onScore: (result) => this.publish(result),
+    });
+    this.cadence.start();
+  }
+
+  private detach() {
+    this.cadence?.destroy();
+    this.cadence = null;
+    this.field = null;
+  }
+
+  private findField(): HTMLElement | null {
+    // Before the shadow root exists (or without slot support) fall back to light DOM children
+    const assigned = this.slotElement?.assignedElements({ flatten: true }) ?? Array.from(this.children);
+    for (const element of assigned) {
+      if (element.matches(FIELD_SELECTOR)) return element as HTMLElement;
+      const nested = element.querySelector<HTMLElement>(FIELD_SELECTOR);
+      if (nested) return nested;
+    }
+    return null;
+  }
+
+  private publish(result: CadenceResult) {
+    this.result = result;
+    this.setAttribute('classification', result.classification);
+    this.setAttribute('score', result.score.toFixed(3));
+    this.dispatchEvent(new CustomEvent<CadenceResult>(CADENCE_SCORE_EVENT, { detail: result, bubbles: true }));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'human-cadence': HumanCadenceElement;
+  }
+  interface HTMLElementEventMap {
+    cadencescore: CustomEvent<CadenceResult>;
+  }
+}
+
+/**
+ * Register the element. Safe to call more than once — an already defined
+ * tag name is left alone.
+ */
+export function defineHumanCadence(tagName: string = DEFAULT_TAG_NAME): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  // Each tag name needs its own constructor
+  customElements.define(tagName, tagName === DEFAULT_TAG_NAME ? HumanCadenceElement : class extends HumanCadenceElement {});
+}
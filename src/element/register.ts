@@ -0,0 +1,9 @@
+/**
+ * Script-tag build: registers `<human-cadence>` on load. Bundled as
+ * dist/human-cadence.global.js — no build step needed on the page.
+ */
+import { defineHumanCadence } from './index';
+
+export { CADENCE_SCORE_EVENT, defineHumanCadence, HumanCadenceElement } from './index';
+
+defineHumanCadence();
@@ -0,0 +1,182 @@
+import { createAnalyzer, DEFAULT_WEIGHTS } from '../analyzer';
+import { baseThresholds, classify } from '../classifier';
+import { separation } from '../calibration';
+import { windowTiming } from '../timing';
+import type { CadenceConfig, Classification, ScoringParameters, TimingData } from '../types';
+
+export type { CalibrationProfile, Classification, ScoringParameters, TimingData } from '../types';
+export { separation, type Separation } from '../calibration';
+
+const DEFAULT_WINDOW_SIZE = 50;
+const DEFAULT_MIN_SAMPLES = 20;
+
+export type SessionLabel = 'human' | 'bot';
+
+/** One session with its ground truth. */
+export interface LabeledSession {
+  data: TimingData;
+  label: SessionLabel;
+  /** Typist or bot strategy it came from, e.g. 'markov'. Default: the label */
+  profile?: string;
+}
+
+export interface EvaluationConfig extends Pick<
+  CadenceConfig,
+  'windowSize' | 'minSamples' | 'weights' | 'metrics' | 'customWeights' | 'classificationThresholds' | 'calibration'
+> {
+  /** Sigmoid parameter overrides, applied over the calibration profile's */
+  parameters?: Partial<ScoringParameters>;
+}
+
+/** One point of the ROC curve for flagging sessions scoring at or below `threshold` as bots. */
+export interface RocPoint {
+  threshold: number;
+  /** Share of bots flagged */
+  truePositiveRate: number;
+  /** Share of humans flagged */
+  falsePositiveRate: number;
+}
+
+/** How many sessions of one kind ended in each classification. */
+export type ConfusionRow = Record<Classification, number>;
+
+export interface ProfileReport {
+  profile: string;
+  label: SessionLabel;
+  sessions: number;
+  classified: ConfusionRow;
+  /** Share classified `bot` — the detection rate for bots, the false positive rate for humans */
+  botRate: number;
+  meanScore: number;
+}
+
+/** A scored session, in dataset order. */
+export interface SessionOutcome {
+  label: SessionLabel;
+  profile: string;
+  score: number;
+  classification: Classification;
+  confident: boolean;
+}
+
+export interface EvaluationReport {
+  sessions: Record<SessionLabel, number>;
+  /** ROC AUC: the chance a random human outscores a random bot */
+  auc: number;
+  /** Equal error rate */
+  eer: number;
+  /** Score at the equal error rate */
+  threshold: number;
+  /**
+   * From the lowest score up: a point at (0, 0) with threshold `-Infinity`,
+   * then one per distinct score, ending at (1, 1). Sessions at or below a
+   * point's threshold count as flagged.
+   */
+  roc: RocPoint[];
+  /** Classification counts per true label */
+  confusion: Record<SessionLabel, ConfusionRow>;
+  /** Share of bots classified `bot` */
+  detectionRate: number;
+  /** Share of humans classified `bot` */
+  falsePositiveRate: number;
+  /** Per profile, humans first, in dataset order */
+  profiles: ProfileReport[];
+  outcomes: SessionOutcome[];
+}
+
+function emptyRow(): ConfusionRow {
+  return { human: 0, unknown: 0, bot: 0 };
+}
+
+function rocCurve(outcomes: SessionOutcome[], humans: number, bots: number): RocPoint[] {
+  const sorted = [...outcomes].sort((a, b) => a.score - b.score);
+  const roc: RocPoint[] = [{ threshold: -Infinity, truePositiveRate: 0, falsePositiveRate: 0 }];
+  let flaggedBots = 0;
+  let flaggedHumans = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].label === 'bot') flaggedBots++;
+    else flaggedHumans++;
+    // One point per distinct score
+    if (i + 1 < sorted.length && sorted[i + 1].score === sorted[i].score) continue;
+    roc.push({
+      threshold: sorted[i].score,
+      truePositiveRate: flaggedBots / bots,
+      falsePositiveRate: flaggedHumans / humans,
+    });
+  }
+  return roc;
+}
+
+/**
+ * Score every labeled session the way `verifyTimingData` does — the last
+ * `windowSize` keystrokes, then one hysteresis step from 'unknown' — and
+ * report how well humans and bots separate: ROC curve, AUC, EER, confusion
+ * counts and per-profile rates. Run it before and after a config change
+ * on the same dataset to compare the two.
+ */
+export function evaluate(dataset: LabeledSession[], config?: EvaluationConfig): EvaluationReport {
+  const humans = dataset.filter((session) => session.label === 'human').length;
+  const bots = dataset.length - humans;
+  if (humans === 0 || bots === 0) {
+    throw new Error('evaluate() needs at least one human and one bot session');
+  }
+
+  const windowSize = config?.windowSize ?? DEFAULT_WINDOW_SIZE;
+  const thresholds = { ...baseThresholds(config?.calibration), ...config?.classificationThresholds };
+  const analyzer = createAnalyzer({
+    minSamples: config?.minSamples ?? DEFAULT_MIN_SAMPLES,
+    weights: { ...DEFAULT_WEIGHTS, ...config?.calibration?.weights, ...config?.weights },
+    metrics: config?.metrics,
+    customWeights: config?.customWeights,
+    parameters: { ...config?.calibration?.parameters, ...config?.parameters },
+  });
+
+  const outcomes = dataset.map(({ data, label, profile }): SessionOutcome => {
+    const timing = windowTiming(data, windowSize);
+    const result = analyzer.analyze(timing.dwells, timing.flights, timing.corrections, timing.rollovers, timing.total, {
+      events: data.events,
+      flightClasses: timing.flightClasses,
+    });
+    return {
+      label,
+      profile: profile ?? label,
+      score: result.score,
+      classification: classify(result.score, 'unknown', thresholds),
+      confident: result.confident,
+    };
+  });
+
+  const confusion = { human: emptyRow(), bot: emptyRow() };
+  const byProfile = new Map<string, { label: SessionLabel; profile: string; classified: ConfusionRow; scoreSum: number }>();
+  for (const outcome of outcomes) {
+    confusion[outcome.label][outcome.classification]++;
+    const key = `${outcome.label}:${outcome.profile}`;
+    let entry = byProfile.get(key);
+    if (!entry) byProfile.set(key, entry = { label: outcome.label, profile: outcome.profile, classified: emptyRow(), scoreSum: 0 });
+    entry.classified[outcome.classification]++;
+    entry.scoreSum += outcome.score;
+  }
+
+  const profiles = [...byProfile.values()]
+    .sort((a, b) => (a.label === b.label ? 0 : a.label === 'human' ? -1 : 1))
+    .map(({ label, profile, classified, scoreSum }): ProfileReport => {
+      const sessions = classified.human + classified.unknown + classified.bot;
+      return { profile, label, sessions, classified, botRate: classified.bot / sessions, meanScore: scoreSum / sessions };
+    });
+
+  const scores = (label: SessionLabel) => outcomes.filter((o) => o.label === label).map((o) => o.score);
+  const { auc, eer, threshold } = separation(scores('human'), scores('bot'));
+
+  return {
+    sessions: { human: humans, bot: bots },
+    auc,
+    eer,
+    threshold,
+    roc: rocCurve(outcomes, humans, bots),
+    confusion,
+    detectionRate: confusion.bot.bot / bots,
+    falsePositiveRate: confusion.human.bot / humans,
+    profiles,
+    outcomes,
+  };
+}
@@ -0,0 +1,419 @@
+import { createCadence } from '../index';
+import { createAnalyzer, DEFAULT_WEIGHTS } from '../analyzer';
+import { baseThresholds, classify } from '../classifier';
+import { mean } from '../utils';
+import type {
+  Cadence,
+  CadenceSignals,
+  Classification,
+  CustomMetricScores,
+  FieldCadenceResult,
+  FormCadence,
+  FormCadenceConfig,
+  FormCadenceResult,
+  FormTransitions,
+  KeystrokeEvent,
+  MetricScores,
+  TimingData,
+} from '../types';
+
+export type {
+  CadenceResult,
+  CadenceSignals,
+  Classification,
+  FieldCadenceResult,
+  FormCadence,
+  FormCadenceConfig,
+  FormCadenceResult,
+  FormTransitions,
+  TimingData,
+} from '../types';
+
+/** Text-like fields. Buttons, checkboxes, pickers and hidden inputs carry no typing rhythm. */
+const DEFAULT_FIELD_SELECTOR = [
+  'input:not([type])',
+  'input[type="text"]',
+  'input[type="email"]',
+  'input[type="password"]',
+  'input[type="search"]',
+  'input[type="tel"]',
+  'input[type="url"]',
+  'input[type="number"]',
+  'textarea',
+  '[contenteditable=""]',
+  '[contenteditable="true"]',
+].join(', ');
+
+const DEFAULT_WINDOW_SIZE = 50;
+const DEFAULT_MIN_SAMPLES = 20;
+const IDLE_TIMEOUT = 1000;
+const FALLBACK_DELAY = 100;
+
+/** Max ms between a Tab keydown and the next focusin for the move to count as tabbing. */
+const TAB_TRANSITION_MS = 100;
+
+interface Field {
+  element: Element;
+  name: string;
+  cadence: Cadence;
+  focused: boolean;
+}
+
+/**
+ * Create a form-level cadence analyzer. Attaches one observer per field and
+ * pools their timing into a single score, so several short fields add up to
+ * a confident verdict. Inter-field movement (focus order, gaps, Tab use) is
+ * reported alongside.
+ */
+export function createFormCadence(
+  form: ParentNode & EventTarget,
+  config?: FormCadenceConfig,
+): FormCadence {
+  const windowSize = config?.windowSize ?? DEFAULT_WINDOW_SIZE;
+  const minSamples = config?.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const scheduling = config?.scheduling ?? 'idle';
+  const selector = config?.fields ?? DEFAULT_FIELD_SELECTOR;
+  const onScore = config?.onScore;
+
+  const classificationThresholds = { ...baseThresholds(config?.calibration), ...config?.classificationThresholds };
+  const customMetrics = config?.metrics ?? [];
+  const analyzer = createAnalyzer({
+    minSamples,
+    weights: { ...DEFAULT_WEIGHTS, ...config?.calibration?.weights, ...config?.weights },
+    parameters: config?.calibration?.parameters,
+    metrics: customMetrics,
+    customWeights: config?.customWeights,
+    explain: config?.explain,
+  });
+
+  let fields: Field[] = [];
+  // Never reused, so an unnamed field keeps a unique name after others are pruned
+  let createdFields = 0;
+  let listening = false;
+  let dirty = false;
+  let idleHandle: number | undefined;
+  let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+  let currentClassification: Classification = 'unknown';
+
+  // Transition tracking
+  let currentField = -1;
+  let lastKeyupTime = 0;
+  let lastTabTime = 0;
+  let gaps: number[] = [];
+  let transitionCount = 0;
+  let tabTransitions = 0;
+  let order: number[] = [];
+  let unfocusedInputs = 0;
+
+  function createField(element: Element): Field {
+    const named = element as Partial<HTMLInputElement>;
+    const index = createdFields++;
+    return {
+      element,
+      name: named.name || element.id || `field${index}`,
+      // Fields are analyzed on demand — the form schedules analysis once for all of them
+      cadence: createCadence(element, {
+        windowSize,
+        minSamples,
+        weights: config?.weights,
+        metrics: config?.metrics,
+        customWeights: config?.customWeights,
+        recordEvents: config?.recordEvents,
+        digraphModel: config?.digraphModel,
+        classificationThresholds: config?.classificationThresholds,
+        explain: config?.explain,
+        calibration: config?.calibration,
+        scheduling: 'manual',
+      }),
+      focused: false,
+    };
+  }
+
+  /** Attach to fields not seen yet (initial discovery, or fields added later). */
+  function discover() {
+    prune();
+    for (const element of Array.from(form.querySelectorAll(selector))) {
+      if (fields.some((f) => f.element === element)) continue;
+      const field = createField(element);
+      fields.push(field);
+      if (listening) field.cadence.start();
+    }
+  }
+
+  /** Destroy fields removed from the form, keeping `order` and the focused field in step. */
+  function prune() {
+    const kept = fields.filter((f) => form.contains(f.element));
+    if (kept.length === fields.length) return;
+    for (const field of fields) {
+      if (!kept.includes(field)) field.cadence.destroy();
+    }
+    const remap = fields.map((f) => kept.indexOf(f));
+    order = order.map((i) => remap[i]).filter((i) => i !== -1);
+    currentField = currentField === -1 ? -1 : remap[currentField];
+    fields = kept;
+  }
+
+  function fieldIndexOf(target: EventTarget | null): number {
+    if (!target) return -1;
+    let index = fields.findIndex((f) => f.element === target);
+    if (index === -1 && (target as Element).matches?.(selector)) {
+      discover();
+      index = fields.findIndex((f) => f.element === target);
+    }
+    return index;
+  }
+
+  function neutralMetrics(): MetricScores & CustomMetricScores {
+    const metrics: MetricScores & CustomMetricScores = {
+      dwellVariance: 0.5,
+      flightFit: 0.5,
+      timingEntropy: 0.5,
+      correctionRatio: 0.5,
+      burstRegularity: 0.5,
+      rolloverRate: 0.5,
+    };
+    for (const metric of customMetrics) metrics[metric.name] = 0.5;
+    return metrics;
+  }
+
+  function transitions(): FormTransitions {
+    return {
+      count: transitionCount,
+      meanGap: mean(gaps),
+      tabTransitions,
+      order: [...order],
+      unfocusedInputs,
+    };
+  }
+
+  /**
+   * Pool every field's timing in the order it was typed. The event log has
+   * timestamps, so keystrokes are merged by press time; without it fields
+   * follow their first-focus order, then document order for fields typed
+   * into without focus. Flights never span two fields either way.
+   */
+  function pooledSnapshot(): TimingData {
+    prune();
+    const snapshots = fields.map((f) => f.cadence.snapshot());
+    if (config?.recordEvents) return mergeEvents(snapshots);
+
+    const pooled: TimingData = { dwells: [], flights: [], corrections: 0, rollovers: 0, total: 0 };
+    const flightClasses: number[] = [];
+    const typed = [...order, ...fields.map((_, i) => i).filter((i) => !order.includes(i))];
+    for (const index of typed) {
+      const snap = snapshots[index];
+      pooled.dwells.push(...snap.dwells);
+      pooled.flights.push(...snap.flights);
+      pooled.corrections += snap.corrections;
+      pooled.rollovers += snap.rollovers;
+      pooled.total += snap.total;
+      if (snap.flightClasses) flightClasses.push(...snap.flightClasses);
+    }
+    if (config?.digraphModel) pooled.flightClasses = flightClasses;
+    return pooled;
+  }
+
+  /** Rebuild the pooled timing from all fields' events in press order — a flight needs two keys in the same field. */
+  function mergeEvents(snapshots: TimingData[]): TimingData {
+    const keystrokes: { field: number; event: KeystrokeEvent }[] = [];
+    snapshots.forEach((snap, field) => {
+      for (const event of snap.events ?? []) keystrokes.push({ field, event });
+    });
+    keystrokes.sort((a, b) => a.event.pressTime - b.event.pressTime);
+
+    // Transition classes align with the ring buffer flights, not event-derived ones
+    const pooled: TimingData = {
+      dwells: [],
+      flights: [],
+      corrections: 0,
+      rollovers: 0,
+      total: keystrokes.length,
+      events: keystrokes.map((k) => k.event),
+    };
+    keystrokes.forEach(({ field, event }, i) => {
+      pooled.dwells.push(event.releaseTime - event.pressTime);
+      if (event.isCorrection) pooled.corrections++;
+      if (event.isRollover) pooled.rollovers++;
+      const previous = keystrokes[i - 1];
+      if (previous?.field === field && !event.isRollover) {
+        const flight = event.pressTime - previous.event.releaseTime;
+        if (flight > 0) pooled.flights.push(flight);
+      }
+    });
+    return pooled;
+  }
+
+  function neutralResult(): FormCadenceResult {
+    return {
+      score: 0.5,
+      metrics: neutralMetrics(),
+      sampleCount: 0,
+      confident: false,
+      signals: {
+        pasteDetected: false,
+        syntheticEvents: 0,
+        insufficientData: true,
+        inputWithoutKeystrokes: false,
+        inputWithoutKeystrokeCount: 0,
+        virtualKeyboard: false,
+        compositionSessions: 0,
+      },
+      classification: 'unknown',
+      fields: fields.map((f) => ({ name: f.name, result: f.cadence.analyze() })),
+      transitions: transitions(),
+    };
+  }
+
+  let lastResult = neutralResult();
+
+  function computeScore() {
+    prune();
+    const perField: FieldCadenceResult[] = fields.map((f) => ({ name: f.name, result: f.cadence.analyze() }));
+    const pooled = pooledSnapshot();
+    const base = analyzer.analyze(
+      pooled.dwells,
+      pooled.flights,
+      pooled.corrections,
+      pooled.rollovers,
+      pooled.total,
+      { events: pooled.events, flightClasses: pooled.flightClasses },
+    );
+
+    const signals: CadenceSignals = {
+      pasteDetected: false,
+      syntheticEvents: 0,
+      insufficientData: base.sampleCount < minSamples,
+      inputWithoutKeystrokes: false,
+      inputWithoutKeystrokeCount: 0,
+      virtualKeyboard: false,
+      compositionSessions: 0,
+    };
+    for (const { result } of perField) {
+      signals.pasteDetected ||= result.signals.pasteDetected;
+      signals.syntheticEvents += result.signals.syntheticEvents;
+      signals.inputWithoutKeystrokes ||= result.signals.inputWithoutKeystrokes;
+      signals.inputWithoutKeystrokeCount += result.signals.inputWithoutKeystrokeCount;
+      signals.virtualKeyboard ||= result.signals.virtualKeyboard;
+      signals.compositionSessions += result.signals.compositionSessions;
+    }
+
+    currentClassification = classify(base.score, currentClassification, classificationThresholds);
+    lastResult = {
+      ...base,
+      signals,
+      classification: currentClassification,
+      fields: perField,
+      transitions: transitions(),
+    };
+    dirty = false;
+    onScore?.(lastResult);
+  }
+
+  function scheduleAnalysis() {
+    if (!dirty) return;
+
+    if (typeof requestIdleCallback !== 'undefined') {
+      if (idleHandle !== undefined) cancelIdleCallback(idleHandle);
+      idleHandle = requestIdleCallback(() => {
+        idleHandle = undefined;
+        computeScore();
+      }, { timeout: IDLE_TIMEOUT });
+    } else {
+      if (timeoutHandle !== undefined) clearTimeout(timeoutHandle);
+      timeoutHandle = setTimeout(() => {
+        timeoutHandle = undefined;
+        computeScore();
+      }, FALLBACK_DELAY);
+    }
+  }
+
+  const onFocusIn = (e: Event) => {
+    const index = fieldIndexOf(e.target);
+    if (index === -1 || index === currentField) return;
+    const now = performance.now();
+
+    if (currentField !== -1) {
+      transitionCount++;
+      if (lastKeyupTime > 0) gaps.push(now - lastKeyupTime);
+      if (lastTabTime > 0 && now - lastTabTime <= TAB_TRANSITION_MS) tabTransitions++;
+    }
+    if (!fields[index].focused) {
+      fields[index].focused = true;
+      order.push(index);
+    }
+    currentField = index;
+  };
+
+  const onKeyDown = (e: Event) => {
+    // Only the Tab boolean is read — the key is never stored
+    if ((e as KeyboardEvent).key === 'Tab') lastTabTime = performance.now();
+  };
+
+  const onKeyUp = () => {
+    lastKeyupTime = performance.now();
+    dirty = true;
+    if (scheduling === 'idle') scheduleAnalysis();
+  };
+
+  const onInput = (e: Event) => {
+    const index = fieldIndexOf(e.target);
+    if (index !== -1 && !fields[index].focused) unfocusedInputs++;
+  };
+
+  const listenerOpts: AddEventListenerOptions = { passive: true, capture: false };
+
+  function start() {
+    if (listening) return;
+    listening = true;
+    discover();
+    for (const field of fields) field.cadence.start();
+    form.addEventListener('focusin', onFocusIn, listenerOpts);
+    form.addEventListener('keydown', onKeyDown, listenerOpts);
+    form.addEventListener('keyup', onKeyUp, listenerOpts);
+    form.addEventListener('input', onInput, listenerOpts);
+  }
+
+  function stop() {
+    if (!listening) return;
+    listening = false;
+    for (const field of fields) field.cadence.stop();
+    form.removeEventListener('focusin', onFocusIn);
+    form.removeEventListener('keydown', onKeyDown);
+    form.removeEventListener('keyup', onKeyUp);
+    form.removeEventListener('input', onInput);
+  }
+
+  function analyze(): FormCadenceResult {
+    computeScore();
+    return lastResult;
+  }
+
+  function reset() {
+    for (const field of fields) {
+      field.cadence.reset();
+      field.focused = false;
+    }
+    currentField = -1;
+    lastKeyupTime = 0;
+    lastTabTime = 0;
+    gaps = [];
+    transitionCount = 0;
+    tabTransitions = 0;
+    order = [];
+    unfocusedInputs = 0;
+    dirty = false;
+    if (idleHandle !== undefined) { cancelIdleCallback(idleHandle); idleHandle = undefined; }
+    if (timeoutHandle !== undefined) { clearTimeout(timeoutHandle); timeoutHandle = undefined; }
+    currentClassification = 'unknown';
+    lastResult = neutralResult();
+  }
+
+  function destroy() {
+    stop();
+    reset();
+    for (const field of fields) field.cadence.destroy();
+    fields = [];
+  }
+
+  return { start, stop, analyze, reset, snapshot: pooledSnapshot, destroy };
+}
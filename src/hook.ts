@@ -0,0 +1,204 @@
+import { createCadence } from './index';
+import type { CadenceConfig, CadenceResult, CadenceSignals, Classification, CustomMetricScores, MetricScores, TimingData } from './types';
+
+const DEFAULT_WINDOW_SIZE = 50;
+const DEFAULT_MIN_SAMPLES = 20;
+
+function isWindowSize(value: number): boolean {
+  return Number.isInteger(value) && value >= 1;
+}
+
+export interface UseHumanCadenceOptions {
+  /** Sliding window size. Changing it to an invalid size keeps the current window. Default: 50 */
+  windowSize?: number;
+  /** Minimum samples for confident score. Default: 20 */
+  minSamples?: number;
+  /** Custom metric weights. */
+  weights?: CadenceConfig['weights'];
+  /** Additional metrics scored alongside the built-ins. */
+  metrics?: CadenceConfig['metrics'];
+  /** Weights for custom metrics, keyed by name. */
+  customWeights?: CadenceConfig['customWeights'];
+  /** Virtual keyboard handling. Default: 'off' */
+  mobileMode?: CadenceConfig['mobileMode'];
+  /** Record per-keystroke event log for offline analysis. Default: false */
+  recordEvents?: boolean;
+  /** Custom thresholds for hysteresis classification. */
+  classificationThresholds?: CadenceConfig['classificationThresholds'];
+}
+
+export interface UseHumanCadenceReturn {
+  /** Callback ref — attach to any input, textarea, or contenteditable element. */
+  ref: (node: HTMLElement | null) => void;
+  /** Current humanity score (0.0–1.0). */
+  score: number;
+  /** True when enough samples have been collected. */
+  confident: boolean;
+  /** Individual metric scores. */
+  metrics: MetricScores & CustomMetricScores;
+  /** Contextual signals (paste, synthetic events, etc.). */
+  signals: CadenceSignals;
+  /** Number of samples in current window. */
+  sampleCount: number;
+  /** Classification with hysteresis: 'bot', 'unknown', or 'human'. */
+  classification: Classification;
+  /** Reset all collected data. */
+  reset: () => void;
+  /** Return a plain-object snapshot of raw timing buffers, or null if not attached. */
+  snapshot: () => TimingData | null;
+}
+
+/** The hooks useHumanCadence is built on — React's, or Preact's from `preact/hooks`. */
+export interface HookRuntime {
+  useRef: <T>(initialValue: T) => { current: T };
+  useState: <S>(initialState: S) => [S, (value: S) => void];
+  useCallback: <T extends (...args: never[]) => unknown>(callback: T, deps: unknown[]) => T;
+  useEffect: (effect: () => void | (() => void), deps?: unknown[]) => void;
+}
+
+/**
+ * Build the useHumanCadence hook on a hook runtime, so React and Preact
+ * share one implementation without `preact/compat`.
+ */
+export function createUseHumanCadence({ useRef, useState, useCallback, useEffect }: HookRuntime) {
+  return function useHumanCadence(
+    options?: UseHumanCadenceOptions,
+  ): UseHumanCadenceReturn {
+    const cadenceRef = useRef<ReturnType<typeof createCadence> | null>(null);
+    const nodeRef = useRef<HTMLElement | null>(null);
+
+    const [result, setResult] = useState<CadenceResult>({
+      score: 0.5,
+      metrics: {
+        dwellVariance: 0.5,
+        flightFit: 0.5,
+        timingEntropy: 0.5,
+        correctionRatio: 0.5,
+        burstRegularity: 0.5,
+        rolloverRate: 0.5,
+      },
+      sampleCount: 0,
+      confident: false,
+      signals: {
+        pasteDetected: false,
+        syntheticEvents: 0,
+        insufficientData: true,
+        inputWithoutKeystrokes: false,
+        inputWithoutKeystrokeCount: 0,
+        virtualKeyboard: false,
+        compositionSessions: 0,
+      },
+      classification: 'unknown',
+    });
+
+    // Stable config ref to avoid re-creating cadence on every render
+    const configRef = useRef(options);
+    configRef.current = options;
+
+    const ref = useCallback((node: HTMLElement | null) => {
+      // Cleanup previous instance
+      if (cadenceRef.current) {
+        cadenceRef.current.destroy();
+        cadenceRef.current = null;
+      }
+
+      nodeRef.current = node;
+
+      if (node) {
+        const opts = configRef.current;
+        cadenceRef.current = createCadence(node, {
+          windowSize: opts?.windowSize,
+          minSamples: opts?.minSamples,
+          weights: opts?.weights,
+          metrics: opts?.metrics,
+          customWeights: opts?.customWeights,
+          mobileMode: opts?.mobileMode,
+          recordEvents: opts?.recordEvents,
+          classificationThresholds: opts?.classificationThresholds,
+          scheduling: 'idle',
+          onScore: setResult,
+        });
+        cadenceRef.current.start();
+      }
+    }, []);
+
+    // Pass scoring option changes to the live instance. Keyed by value so
+    // inline object literals don't reconfigure on every render.
+    const liveKey = JSON.stringify([
+      options?.windowSize,
+      options?.minSamples,
+      options?.weights,
+      options?.customWeights,
+      options?.classificationThresholds,
+    ]);
+    const liveKeyRef = useRef(liveKey);
+    useEffect(() => {
+      if (liveKeyRef.current === liveKey) return;
+      liveKeyRef.current = liveKey;
+      const opts = configRef.current;
+      // Removed options go back to the defaults. An invalid size would make
+      // configure() throw here, so it keeps the current window instead.
+      const windowSize = opts?.windowSize ?? DEFAULT_WINDOW_SIZE;
+      cadenceRef.current?.configure({
+        windowSize: isWindowSize(windowSize) ? windowSize : undefined,
+        minSamples: opts?.minSamples ?? DEFAULT_MIN_SAMPLES,
+        weights: opts?.weights ?? {},
+        customWeights: opts?.customWeights ?? {},
+        classificationThresholds: opts?.classificationThresholds ?? {},
+      });
+    }, [liveKey]);
+
+    // Cleanup on unmount
+    useEffect(() => {
+      return () => {
+        if (cadenceRef.current) {
+          cadenceRef.current.destroy();
+          cadenceRef.current = null;
+        }
+      };
+    }, []);
+
+    const snapshot = useCallback((): TimingData | null => {
+      return cadenceRef.current?.snapshot() ?? null;
+    }, []);
+
+    const reset = useCallback(() => {
+      cadenceRef.current?.reset();
+      setResult({
+        score: 0.5,
+        metrics: {
+          dwellVariance: 0.5,
+          flightFit: 0.5,
+          timingEntropy: 0.5,
+          correctionRatio: 0.5,
+          burstRegularity: 0.5,
+          rolloverRate: 0.5,
+        },
+        sampleCount: 0,
+        confident: false,
+        signals: {
+          pasteDetected: false,
+          syntheticEvents: 0,
+          insufficientData: true,
+          inputWithoutKeystrokes: false,
+          inputWithoutKeystrokeCount: 0,
+          virtualKeyboard: false,
+          compositionSessions: 0,
+        },
+        classification: 'unknown',
+      });
+    }, []);
+
+    return {
+      ref,
+      score: result.score,
+      confident: result.confident,
+      metrics: result.metrics,
+      signals: result.signals,
+      sampleCount: result.sampleCount,
+      classification: result.classification,
+      reset,
+      snapshot,
+    };
+  };
+}
@@ -1,59 +1,40 @@
-import type { Cadence, CadenceConfig, CadenceResult, Classification, ClassificationThresholds, KeystrokeEvent, TimingData } from './types';
-import { createObserver } from './observer';
-import { createAnalyzer, DEFAULT_WEIGHTS } from './analyzer';
-
-export const DEFAULT_CLASSIFICATION_THRESHOLDS: ClassificationThresholds = {
-  botToUnknown: 0.45,
-  unknownToBot: 0.35,
-  unknownToHuman: 0.70,
-  humanToUnknown: 0.60,
-};
-
-function classify(
-  score: number,
-  current: Classification,
-  thresholds: ClassificationThresholds,
-): Classification {
-  switch (current) {
-    case 'bot':
-      return score >= thresholds.botToUnknown ? 'unknown' : 'bot';
-    case 'unknown':
-      if (score >= thresholds.unknownToHuman) return 'human';
-      if (score < thresholds.unknownToBot) return 'bot';
-      return 'unknown';
-    case 'human':
-      return score < thresholds.humanToUnknown ? 'unknown' : 'human';
-  }
-}
+import type { AttestOptions, Cadence, CadenceConfig, CadenceEventMap, CadenceEventType, CadenceLiveConfig, CadenceResult, CadenceSignals, Classification, CompositionResult, CustomMetricScores, MetricScores, RecordedInput, Recording, RecordingConfig, TimingData } from './types';
+import type { AnalyzerExtras, AnalyzerResult } from './analyzer';
+import { createObserver, type ObserverState } from './observer';
+import { createAnalyzer, DEFAULT_MOBILE_WEIGHTS, DEFAULT_WEIGHTS } from './analyzer';
+import { baseThresholds, classify } from './classifier';
+import { deriveTimingFromEvents } from './timing';
+import { createAttestation } from './attestation';
+import { summarizeComposition } from './composition';
+import { encodeRecordingBinary, encodeRecordingJson, INPUT_ANALYZE, INPUT_CONFIGURE, RECORDING_VERSION } from './recording';
+import type { AnalysisJob, AnalysisWorker } from './worker/protocol';
+import { createPointerObserver } from './pointer-observer';
+import { createPointerAnalyzer, DEFAULT_POINTER_WEIGHTS } from './pointer-analyzer';
 
-function deriveTimingFromEvents(events: KeystrokeEvent[]) {
-  const dwells: number[] = [];
-  const flights: number[] = [];
-  let corrections = 0;
-  let rollovers = 0;
-
-  for (let i = 0; i < events.length; i++) {
-    const ev = events[i];
-    dwells.push(ev.releaseTime - ev.pressTime);
-    if (ev.isCorrection) corrections++;
-    if (ev.isRollover) rollovers++;
-
-    if (i > 0 && !ev.isRollover) {
-      const flight = ev.pressTime - events[i - 1].releaseTime;
-      if (flight > 0) flights.push(flight);
-    }
-  }
-  return { dwells, flights, corrections, rollovers, total: events.length };
-}
-
-export type { Cadence, CadenceConfig, CadenceResult, CadenceSignals, Classification, ClassificationThresholds, KeystrokeEvent, MetricWeights, MetricScores, TimingData } from './types';
-export { DEFAULT_WEIGHTS } from './analyzer';
+export type { AttestationKey, AttestOptions, Cadence, CadenceConfig, CadenceEventMap, CadenceEventType, CadenceExplanation, CadenceFeatures, CadenceLiveConfig, CadenceResult, CadenceSignals, CalibrationProfile, Classification, ClassificationChange, ClassificationThresholds, CompositionResult, CustomMetric, CustomMetricScores, KeystrokeEvent, MetricExplanation, MetricInput, MobileMode, MetricWeights, MetricScores, PointerConfig, PointerMetricScores, PointerResult, PointerSignals, PointerWeights, ReasonCode, RecordedInput, Recording, RecordingConfig, ScoringParameters, TimingData, VirtualTiming } from './types';
+export { DEFAULT_MOBILE_WEIGHTS, DEFAULT_SCORING_PARAMETERS, DEFAULT_WEIGHTS, NO_DATA } from './analyzer';
+export { DEFAULT_CLASSIFICATION_THRESHOLDS } from './classifier';
+export { RECORDING_VERSION } from './recording';
+export { createPointerObserver } from './pointer-observer';
+export type { PointerObserver, PointerObserverConfig, PointerObserverState } from './pointer-observer';
+export type { AnalysisWorkerFactory } from './worker/protocol';
+export { DEFAULT_POINTER_WEIGHTS } from './pointer-analyzer';
 
 const DEFAULT_WINDOW_SIZE = 50;
 const DEFAULT_MIN_SAMPLES = 20;
+const DEFAULT_POINTER_MIN_SAMPLES = 20;
+const DEFAULT_POINTER_BLEND = 0.25;
 const IDLE_TIMEOUT = 1000;
 const FALLBACK_DELAY = 100;
 
+/** What a result reads from the observer besides the analyzer inputs — taken together with them. */
+interface Observation {
+  signals: Omit<CadenceSignals, 'insufficientData'>;
+  composition?: CompositionResult;
+  /** Recording: the time the job was taken and the tape entry just before it */
+  mark?: { time: number; after: RecordedInput | undefined };
+}
+
 /**
  * Create a keystroke cadence analyzer attached to a DOM element.
  * Returns controls to start/stop listening and retrieve humanity scores.
@@ -62,83 +43,245 @@ export function createCadence(
   target: EventTarget,
   config?: CadenceConfig,
 ): Cadence {
-  const windowSize = config?.windowSize ?? DEFAULT_WINDOW_SIZE;
-  const minSamples = config?.minSamples ?? DEFAULT_MIN_SAMPLES;
+  let windowSize = config?.windowSize ?? DEFAULT_WINDOW_SIZE;
+  let minSamples = config?.minSamples ?? DEFAULT_MIN_SAMPLES;
   const scheduling = config?.scheduling ?? 'idle';
+  const workerFactory = config?.worker;
   const onScore = config?.onScore;
 
-  const weights = { ...DEFAULT_WEIGHTS, ...config?.weights };
+  const calibration = config?.calibration;
+  // Fitted on physical keyboards — the virtual analyzer keeps the defaults
+  const parameters = calibration?.parameters;
+  let weights = { ...DEFAULT_WEIGHTS, ...calibration?.weights, ...config?.weights };
+  let mobileWeights = { ...DEFAULT_MOBILE_WEIGHTS, ...config?.mobileWeights };
+  let customWeights = config?.customWeights;
   const recordEvents = config?.recordEvents === true;
-  const classificationThresholds = { ...DEFAULT_CLASSIFICATION_THRESHOLDS, ...config?.classificationThresholds };
-  const observer = createObserver(target, { windowSize, recordEvents });
-  const analyzer = createAnalyzer({ minSamples, weights });
+  let classificationThresholds = { ...baseThresholds(calibration), ...config?.classificationThresholds };
+  const digraphModel = config?.digraphModel === true;
+  const mobileMode = config?.mobileMode ?? 'off';
+  const record = config?.record === true;
+  const explain = config?.explain === true;
+  const clock = config?.clock ?? (() => performance.now());
+  // Pointer input is not taped, so a replay could not reproduce the blended score
+  if (record && config?.pointer) throw new Error('`record: true` cannot be combined with `pointer`');
+  const observer = createObserver(target, { windowSize, recordEvents, digraphModel, mobileMode, record, clock });
+  const customMetrics = config?.metrics ?? [];
+  let analyzer = createAnalyzer({ minSamples, weights, metrics: customMetrics, customWeights, explain, parameters });
+  let mobileAnalyzer = mobileMode !== 'off'
+    ? createAnalyzer({ minSamples, weights: mobileWeights, metrics: customMetrics, customWeights, profile: 'virtual', explain })
+    : null;
+
+  const pointerConfig = config?.pointer === true ? {} : config?.pointer || undefined;
+  const pointerObserver = pointerConfig ? createPointerObserver(target, { windowSize, clock }) : null;
+  const pointerAnalyzer = pointerConfig
+    ? createPointerAnalyzer({
+      minSamples: pointerConfig.minSamples ?? DEFAULT_POINTER_MIN_SAMPLES,
+      weights: { ...DEFAULT_POINTER_WEIGHTS, ...pointerConfig.weights },
+    })
+    : null;
+  const pointerBlend = pointerConfig?.weight ?? DEFAULT_POINTER_BLEND;
 
   let dirty = false;
   let idleHandle: number | undefined;
   let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
   let currentClassification: Classification = 'unknown';
-  let lastResult: CadenceResult = {
-    score: 0.5,
-    metrics: {
+
+  function neutralResult(): CadenceResult {
+    const metrics: MetricScores & CustomMetricScores = {
       dwellVariance: 0.5,
       flightFit: 0.5,
       timingEntropy: 0.5,
       correctionRatio: 0.5,
       burstRegularity: 0.5,
       rolloverRate: 0.5,
-    },
-    sampleCount: 0,
-    confident: false,
-    signals: {
-      pasteDetected: false,
-      syntheticEvents: 0,
-      insufficientData: true,
-      inputWithoutKeystrokes: false,
-      inputWithoutKeystrokeCount: 0,
-    },
-    classification: 'unknown',
-  };
+    };
+    for (const metric of customMetrics) metrics[metric.name] = 0.5;
+    return {
+      score: 0.5,
+      metrics,
+      sampleCount: 0,
+      confident: false,
+      signals: {
+        pasteDetected: false,
+        syntheticEvents: 0,
+        insufficientData: true,
+        inputWithoutKeystrokes: false,
+        inputWithoutKeystrokeCount: 0,
+        virtualKeyboard: false,
+        compositionSessions: 0,
+      },
+      classification: 'unknown',
+      ...(pointerAnalyzer && pointerObserver && { pointer: pointerAnalyzer.analyze(pointerObserver.getState()) }),
+    };
+  }
 
-  function computeScore() {
-    const state = observer.getState();
+  let lastResult = neutralResult();
 
-    let base;
+  type Handler = (event: never) => void;
+  const handlers = new Map<CadenceEventType, Set<Handler>>();
+
+  function on<K extends CadenceEventType>(type: K, handler: (event: CadenceEventMap[K]) => void): () => void {
+    let set = handlers.get(type);
+    if (!set) handlers.set(type, set = new Set());
+    set.add(handler);
+    return () => {
+      handlers.get(type)?.delete(handler);
+    };
+  }
+
+  function emit<K extends CadenceEventType>(type: K, event: CadenceEventMap[K]) {
+    const set = handlers.get(type);
+    if (!set) return;
+    // Copy so a handler may unsubscribe (itself or others) while we iterate
+    for (const handler of [...set]) (handler as (event: CadenceEventMap[K]) => void)(event);
+  }
+
+  /** Fire the transition events between two consecutive results. */
+  function emitTransitions(previous: CadenceResult, result: CadenceResult) {
+    emit('score', result);
+    if (result.classification !== previous.classification) {
+      emit('classificationchange', { previous: previous.classification, classification: result.classification, result });
+    }
+    if (result.confident && !previous.confident) emit('confident', result);
+    if (result.signals.pasteDetected && !previous.signals.pasteDetected) emit('paste', result);
+    if (result.signals.syntheticEvents > previous.signals.syntheticEvents) emit('synthetic', result);
+  }
+
+  /**
+   * Analyzer inputs for the current state: virtual keyboard intervals, the
+   * full-session event log, or the ring buffers.
+   */
+  function analysisJob(state: ObserverState): AnalysisJob & { extras: AnalyzerExtras } {
+    const virtualInput = state.virtualInput?.detected ? state.virtualInput : undefined;
+    if (mobileAnalyzer && virtualInput) {
+      // Virtual keyboard: dwell/flight are meaningless, score inter-input intervals
+      return {
+        profile: 'virtual',
+        dwells: [],
+        flights: virtualInput.intervals.toArray(),
+        corrections: virtualInput.corrections,
+        rollovers: 0,
+        total: virtualInput.total,
+        extras: { events: state.events },
+      };
+    }
     if (state.events && state.events.length > state.dwells.length) {
       const derived = deriveTimingFromEvents(state.events);
-      base = analyzer.analyze(
-        derived.dwells,
-        derived.flights,
-        derived.corrections,
-        derived.rollovers,
-        derived.total,
-      );
-    } else {
-      base = analyzer.analyze(
-        state.dwells.toArray(),
-        state.flights.toArray(),
-        state.corrections,
-        state.rollovers,
-        state.total,
-      );
+      return { profile: 'keyboard', ...derived, extras: { events: state.events } };
     }
-    currentClassification = classify(base.score, currentClassification, classificationThresholds);
-    lastResult = {
-      ...base,
+    const flightClasses = state.flightClasses?.toArray();
+    return {
+      profile: 'keyboard',
+      dwells: state.dwells.toArray(),
+      flights: state.flights.toArray(),
+      corrections: state.corrections,
+      rollovers: state.rollovers,
+      total: state.total,
+      flightClasses,
+      extras: { events: state.events, flightClasses },
+    };
+  }
+
+  function observe(state: ObserverState): Observation {
+    const tape = state.recording;
+    return {
       signals: {
         pasteDetected: state.pasteDetected,
         syntheticEvents: state.syntheticEvents,
-        insufficientData: base.sampleCount < minSamples,
         inputWithoutKeystrokes: state.inputWithoutKeystrokes,
         inputWithoutKeystrokeCount: state.inputWithoutKeystrokeCount,
+        virtualKeyboard: mobileAnalyzer !== null && state.virtualInput?.detected === true,
+        compositionSessions: state.composition.sessions,
       },
+      ...(state.composition.sessions > 0 && { composition: summarizeComposition(state.composition) }),
+      ...(tape && { mark: { time: clock(), after: tape[tape.length - 1] } }),
+    };
+  }
+
+  /**
+   * Mark the tape so replay analyzes at the same points. A worker result
+   * arrives after later inputs were taped, so the mark goes where its job
+   * was taken — after any marks published since. If that entry is no longer
+   * on the tape, the mark is appended.
+   */
+  function markTape({ time, after }: NonNullable<Observation['mark']>) {
+    const tape = observer.getState().recording;
+    if (!tape) return;
+    const anchor = after ? tape.lastIndexOf(after) : -1;
+    let index = !after ? 0 : anchor === -1 ? tape.length : anchor + 1;
+    while (index < tape.length && tape[index][1] === INPUT_ANALYZE) index++;
+    tape.splice(index, 0, [time, INPUT_ANALYZE, 0]);
+  }
+
+  /** Blend in pointer dynamics, attach signals and classify. */
+  function publish(observation: Observation, base: AnalyzerResult) {
+    // Pointer dynamics take a fixed share of the score, but only when there is
+    // pointer data — keyboard-only users must not be pulled toward neutral.
+    const pointer = pointerAnalyzer && pointerObserver ? pointerAnalyzer.analyze(pointerObserver.getState()) : undefined;
+    const score = pointer && !pointer.signals.pointerInactive
+      ? (1 - pointerBlend) * base.score + pointerBlend * pointer.score
+      : base.score;
+
+    const previous = lastResult;
+    currentClassification = classify(score, currentClassification, classificationThresholds);
+    if (observation.mark) markTape(observation.mark);
+    lastResult = {
+      ...base,
+      score,
+      signals: { ...observation.signals, insufficientData: base.sampleCount < minSamples },
       classification: currentClassification,
+      ...(pointer && { pointer }),
+      ...(observation.composition && { composition: observation.composition }),
     };
+    const result = lastResult;
+    onScore?.(result);
+    emitTransitions(previous, result);
+  }
+
+  function computeScore() {
+    const state = observer.getState();
+    const job = analysisJob(state);
+    const target = job.profile === 'virtual' && mobileAnalyzer ? mobileAnalyzer : analyzer;
+    const base = target.analyze(job.dwells, job.flights, job.corrections, job.rollovers, job.total, job.extras);
     dirty = false;
-    onScore?.(lastResult);
+    publish(observe(state), base);
+  }
+
+  // Worker scheduling: spawned on first use. Custom metrics are functions and
+  // cannot be posted to a worker, so they keep analysis on the main thread.
+  let worker: AnalysisWorker | null = null;
+  const observations = new WeakMap<AnalysisJob, Observation>();
+  let workerUnavailable = scheduling !== 'worker' || !workerFactory || customMetrics.length > 0;
+
+  /** The worker failed after starting (e.g. a CSP blocked it) — analyze here from now on. */
+  function onWorkerError() {
+    worker = null;
+    workerUnavailable = true;
+    dirty = true;
+    scheduleAnalysis();
+  }
+
+  function postToWorker(): boolean {
+    if (workerUnavailable || !workerFactory) return false;
+    worker ??= workerFactory(
+      { minSamples, weights, mobileWeights, explain, parameters },
+      { onResult: (base, job) => publish(observations.get(job) ?? observe(observer.getState()), base), onError: onWorkerError },
+    );
+    if (!worker) {
+      workerUnavailable = true;
+      return false;
+    }
+    const state = observer.getState();
+    const { extras: _extras, ...job } = analysisJob(state);
+    observations.set(job, observe(state));
+    worker.post(job);
+    dirty = false;
+    return true;
   }
 
   function scheduleAnalysis() {
     if (!dirty) return;
+    if (postToWorker()) return;
 
     if (typeof requestIdleCallback !== 'undefined') {
       if (idleHandle !== undefined) cancelIdleCallback(idleHandle);
@@ -161,23 +304,30 @@ export function createCadence(
 
   function onKeystroke() {
     dirty = true;
-    if (scheduling === 'idle') scheduleAnalysis();
+    if (scheduling !== 'manual') scheduleAnalysis();
   }
 
   let keystrokeListener: (() => void) | null = null;
 
   function start() {
     originalStart();
+    pointerObserver?.start();
     if (!keystrokeListener) {
       keystrokeListener = onKeystroke;
       target.addEventListener('keyup', keystrokeListener, { passive: true });
+      if (pointerObserver) target.addEventListener('pointerup', keystrokeListener, { passive: true });
+      // Virtual keyboards may skip keyup entirely
+      if (mobileAnalyzer) target.addEventListener('input', keystrokeListener, { passive: true });
     }
   }
 
   function stop() {
     originalStop();
+    pointerObserver?.stop();
     if (keystrokeListener) {
       target.removeEventListener('keyup', keystrokeListener);
+      if (pointerObserver) target.removeEventListener('pointerup', keystrokeListener);
+      if (mobileAnalyzer) target.removeEventListener('input', keystrokeListener);
       keystrokeListener = null;
     }
   }
@@ -189,31 +339,20 @@ export function createCadence(
 
   function reset() {
     observer.clear();
+    pointerObserver?.clear();
     dirty = false;
     if (idleHandle !== undefined) { cancelIdleCallback(idleHandle); idleHandle = undefined; }
     if (timeoutHandle !== undefined) { clearTimeout(timeoutHandle); timeoutHandle = undefined; }
+    // Drop any in-flight job — its result would describe pre-reset data
+    worker?.terminate();
+    worker = null;
     currentClassification = 'unknown';
-    lastResult = {
-      score: 0.5,
-      metrics: {
-        dwellVariance: 0.5,
-        flightFit: 0.5,
-        timingEntropy: 0.5,
-        correctionRatio: 0.5,
-        burstRegularity: 0.5,
-        rolloverRate: 0.5,
-      },
-      sampleCount: 0,
-      confident: false,
-      signals: {
-        pasteDetected: false,
-        syntheticEvents: 0,
-        insufficientData: true,
-        inputWithoutKeystrokes: false,
-        inputWithoutKeystrokeCount: 0,
-      },
-      classification: 'unknown',
-    };
+    lastResult = neutralResult();
+    // The cleared tape starts from the current settings
+    if (recordedConfig) {
+      recordedConfig = recordingConfig();
+      recordedChanges = [];
+    }
   }
 
   function snapshot(): TimingData {
@@ -221,17 +360,102 @@ export function createCadence(
     return {
       dwells: state.dwells.toArray(),
       flights: state.flights.toArray(),
-      corrections: state.corrections,
+      // Held or Ctrl+Backspace counts corrections without keystrokes; the
+      // server rejects more corrections than keystrokes
+      corrections: Math.min(state.corrections, state.total),
       rollovers: state.rollovers,
       total: state.total,
       ...(state.events && { events: [...state.events] }),
+      ...(state.flightClasses && { flightClasses: state.flightClasses.toArray() }),
+      ...(mobileAnalyzer && state.virtualInput && {
+        profile: state.virtualInput.detected ? 'virtual' : 'keyboard',
+        virtual: {
+          intervals: state.virtualInput.intervals.toArray(),
+          corrections: state.virtualInput.corrections,
+          total: state.virtualInput.total,
+        },
+      }),
+    };
+  }
+
+  function attest(options: AttestOptions): Promise<string> {
+    const result = analyze();
+    return createAttestation(result, snapshot(), options);
+  }
+
+  function recordingConfig(): RecordingConfig {
+    return {
+      windowSize,
+      minSamples,
+      weights,
+      ...(customWeights && { customWeights }),
+      classificationThresholds,
+      recordEvents,
+      digraphModel,
+      mobileMode,
+      ...(mobileAnalyzer && { mobileWeights }),
+      ...(calibration && { calibration }),
     };
   }
 
+  // The settings the tape starts from; configure() calls are taped as changes
+  let recordedConfig = record ? recordingConfig() : undefined;
+  let recordedChanges: CadenceLiveConfig[] = [];
+
+  function exportRecording(format?: 'json'): string;
+  function exportRecording(format: 'binary'): Uint8Array;
+  function exportRecording(format: 'json' | 'binary' = 'json'): string | Uint8Array {
+    const tape = observer.getState().recording;
+    if (!tape || !recordedConfig) throw new Error('exportRecording() requires `record: true`');
+    const recording: Recording = {
+      v: RECORDING_VERSION,
+      config: recordedConfig,
+      inputs: tape,
+      ...(recordedChanges.length > 0 && { changes: recordedChanges }),
+    };
+    return format === 'binary' ? encodeRecordingBinary(recording) : encodeRecordingJson(recording);
+  }
+
+  function configure(next: CadenceLiveConfig) {
+    if (next.windowSize !== undefined && next.windowSize !== windowSize) {
+      // Resize first — an invalid size throws before anything changed
+      observer.resize(next.windowSize);
+      pointerObserver?.resize(next.windowSize);
+      windowSize = next.windowSize;
+    }
+    const tape = observer.getState().recording;
+    if (tape) {
+      tape.push([clock(), INPUT_CONFIGURE, recordedChanges.length]);
+      recordedChanges.push({ ...next });
+    }
+    if (next.minSamples !== undefined) minSamples = next.minSamples;
+    if (next.weights) weights = { ...DEFAULT_WEIGHTS, ...calibration?.weights, ...next.weights };
+    if (next.customWeights) customWeights = next.customWeights;
+    if (next.mobileWeights) mobileWeights = { ...DEFAULT_MOBILE_WEIGHTS, ...next.mobileWeights };
+    if (next.classificationThresholds) {
+      classificationThresholds = { ...baseThresholds(calibration), ...next.classificationThresholds };
+    }
+
+    analyzer = createAnalyzer({ minSamples, weights, metrics: customMetrics, customWeights, explain, parameters });
+    if (mobileAnalyzer) {
+      mobileAnalyzer = createAnalyzer({ minSamples, weights: mobileWeights, metrics: customMetrics, customWeights, profile: 'virtual', explain });
+    }
+    // The worker was initialized with the old settings — respawn on next use
+    worker?.terminate();
+    worker = null;
+
+    // Re-score existing data under the new settings; hysteresis state carries over
+    if (lastResult.sampleCount > 0) {
+      dirty = true;
+      if (scheduling !== 'manual') scheduleAnalysis();
+    }
+  }
+
   function destroy() {
     stop();
     reset();
+    handlers.clear();
   }
 
-  return { start, stop, analyze, reset, snapshot, destroy };
+  return { start, stop, analyze, reset, snapshot, attest, on, exportRecording, configure, destroy };
 }
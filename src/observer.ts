@@ -1,14 +1,67 @@
 import { createBuffer, type RingBuffer } from './buffer';
-import type { KeystrokeEvent } from './types';
+import { keyPosition, transitionClass, UNKNOWN_POSITION } from './digraph';
+import type { KeystrokeEvent, MobileMode, RecordedInput } from './types';
+import {
+  INPUT_BEFOREINPUT, INPUT_COMPOSITIONEND, INPUT_COMPOSITIONSTART, INPUT_COMPOSITIONUPDATE, INPUT_INPUT,
+  INPUT_KEYDOWN, INPUT_KEYUP, INPUT_PASTE, INPUT_TOUCHSTART, INPUT_TYPES,
+  KEY_CODE_229, KEY_CORRECTION, KEY_MODIFIER, KEY_OTHER, KEY_TRANSITION_SHIFT, KEY_PROCESS, KEY_REPEAT,
+  KEY_UNIDENTIFIED, KEY_UNTRUSTED,
+} from './recording';
 
 /** Max ms between last keydown and an input event to consider it keystroke-driven. */
 const INPUT_WITHOUT_KEYSTROKE_MS = 50;
 
+/** Legacy keyCode sent by virtual keyboards (and IMEs) for unidentified keys. */
+const VIRTUAL_KEY_CODE = 229;
+
+/** `key` reported by desktop IMEs while composing — a physical keyboard, not a virtual one. */
+const IME_PROCESS_KEY = 'Process';
+
+/** beforeinput types produced by tapping a virtual keyboard (many compose every word). */
+const TYPING_INPUT_TYPES = new Set(['insertText', 'insertCompositionText', 'deleteContentBackward', 'deleteContentForward']);
+
+/** beforeinput types fired when a composition is committed — neither typing nor a paste. */
+const COMMIT_INPUT_TYPES = new Set(['insertFromComposition', 'deleteCompositionText']);
+
 export interface ObserverConfig {
   /** Sliding window size. Default: 50 */
   windowSize: number;
   /** Record per-keystroke event log. Default: false */
   recordEvents?: boolean;
+  /** Record a coarse key-transition class per flight. Default: false */
+  digraphModel?: boolean;
+  /** Track virtual-keyboard input via beforeinput. 'auto' switches on detection. Default: 'off' */
+  mobileMode?: MobileMode;
+  /** Record the input tape for replay. Default: false */
+  record?: boolean;
+  /** Timestamp source for every event. Default: performance.now */
+  clock?: () => number;
+}
+
+/** Virtual keyboard tracking — timing comes from beforeinput, not keydown/keyup. */
+export interface VirtualInputState {
+  /** True once virtual keyboard input was detected (always true in 'always' mode) */
+  detected: boolean;
+  /** Intervals between consecutive typing inputs (ms) */
+  intervals: RingBuffer;
+  /** Deletion inputs (deleteContentBackward/Forward) */
+  corrections: number;
+  /** Typing inputs seen */
+  total: number;
+}
+
+/** IME composition sessions (compositionstart → compositionend). */
+export interface CompositionState {
+  /** Completed composition sessions */
+  sessions: number;
+  /** Duration of each session (ms) */
+  durations: RingBuffer;
+  /** compositionupdate events per session — candidate/pre-edit changes */
+  updates: RingBuffer;
+  /** Keydowns per session */
+  keystrokes: RingBuffer;
+  /** Sessions with no keydown at all (handwriting, voice, or scripted) */
+  keylessSessions: number;
 }
 
 export interface ObserverState {
@@ -23,12 +76,21 @@ export interface ObserverState {
   inputWithoutKeystrokeCount: number;
   /** Per-keystroke event log (undefined when recordEvents is false) */
   events?: KeystrokeEvent[];
+  /** Transition class of each flight, aligned with `flights` (undefined when digraphModel is false) */
+  flightClasses?: RingBuffer;
+  /** Virtual keyboard input (undefined when mobileMode is 'off') */
+  virtualInput?: VirtualInputState;
+  composition: CompositionState;
+  /** Input tape (undefined when record is false) — see src/recording.ts */
+  recording?: RecordedInput[];
 }
 
 export interface Observer {
   start(): void;
   stop(): void;
   clear(): void;
+  /** Change the window size, keeping the most recent samples. */
+  resize(windowSize: number): void;
   destroy(): void;
   getState(): ObserverState;
 }
@@ -36,12 +98,16 @@ export interface Observer {
 /**
  * Factory that attaches passive keydown/keyup listeners to a target.
  * Captures only timestamps — never reads key identity beyond the
- * Backspace/Delete boolean check for correction counting.
+ * Backspace/Delete boolean check for correction counting, and (in digraph
+ * mode) a transient hand/row position that is reduced to a transition class.
+ * IME composition sessions are tracked by timing and event counts only —
+ * composed text is never read.
  */
 export function createObserver(
   target: EventTarget,
   config: ObserverConfig,
 ): Observer {
+  const clock = config.clock ?? (() => performance.now());
   const dwells = createBuffer(config.windowSize);
   const flights = createBuffer(config.windowSize);
   let corrections = 0;
@@ -51,7 +117,7 @@ export function createObserver(
   let syntheticEvents = 0;
   let inputWithoutKeystrokes = false;
   let inputWithoutKeystrokeCount = 0;
-  let lastKeydownTime = 0;
+  let lastKeydownTime = -Infinity;
 
   // Track press timestamps by key code-agnostic slot.
   // We use a single "last press" timestamp since we only care about
@@ -70,14 +136,75 @@ export function createObserver(
   // Needed because overlapping keys (rollovers) can have multiple pending presses.
   let pendingPresses: { pressTime: number; isCorrection: boolean; isRollover: boolean }[] = [];
 
+  // Digraph mode: transition class per flight, kept in lockstep with `flights`
+  const flightClasses = config.digraphModel ? createBuffer(config.windowSize) : undefined;
+  let lastPosition = UNKNOWN_POSITION;
+
+  // Mobile mode: virtual keyboards report `Unidentified` keys with ~0 ms dwell,
+  // so timing is taken from the interval between beforeinput events instead.
+  const mobileMode = config.mobileMode ?? 'off';
+  const intervals = mobileMode !== 'off' ? createBuffer(config.windowSize) : undefined;
+  let virtualDetected = mobileMode === 'always';
+  let virtualCorrections = 0;
+  let virtualTotal = 0;
+  let lastVirtualInputTime = 0;
+  let touchSeen = false;
+  // Keydown time of a keyCode 229 that alone switched detection on — undone if
+  // a composition session opens right after it (Safari desktop IMEs report 229)
+  let virtualKeyTime = -Infinity;
+
+  // IME composition: keystrokes inside a session are real key presses and still
+  // feed dwell/flight, but the input events they produce are not "keyless".
+  const compositionDurations = createBuffer(config.windowSize);
+  const compositionUpdates = createBuffer(config.windowSize);
+  const compositionKeystrokes = createBuffer(config.windowSize);
+  let compositionSessions = 0;
+  let keylessSessions = 0;
+  let composing = false;
+  let compositionStartTime = 0;
+  // -Infinity until a session ends, so early input isn't taken for a commit
+  let compositionEndTime = -Infinity;
+  let sessionUpdates = 0;
+  let sessionKeystrokes = 0;
+
+  // Recording: each handler logs the same timestamp it uses, so replay is exact
+  let tape: RecordedInput[] | undefined = config.record ? [] : undefined;
+
+  function keydownDetail(ke: KeyboardEvent): number {
+    let detail = ke.key === 'Backspace' || ke.key === 'Delete' ? KEY_CORRECTION
+      : ke.key === 'Unidentified' ? KEY_UNIDENTIFIED
+        : ke.key === IME_PROCESS_KEY ? KEY_PROCESS
+          : KEY_OTHER;
+    if (ke.repeat) detail |= KEY_REPEAT;
+    if (ke.metaKey || ke.ctrlKey || ke.altKey) detail |= KEY_MODIFIER;
+    if (!ke.isTrusted) detail |= KEY_UNTRUSTED;
+    if (ke.keyCode === VIRTUAL_KEY_CODE) detail |= KEY_CODE_229;
+    // Only the transition class from the previous key, as flightClasses keeps it —
+    // replay rebuilds an equivalent key sequence from the classes alone
+    if (flightClasses && !(detail & (KEY_REPEAT | KEY_MODIFIER))) {
+      detail += (transitionClass(lastPosition, keyPosition(ke.code)) + 1) * (1 << KEY_TRANSITION_SHIFT);
+    }
+    return detail;
+  }
+
   const onKeyDown = (e: Event) => {
-    const now = performance.now();
+    const now = clock();
     lastKeydownTime = now;
     const ke = e as KeyboardEvent;
+    tape?.push([now, INPUT_KEYDOWN, keydownDetail(ke)]);
 
     // Count programmatically dispatched events (isTrusted is false)
     if (!e.isTrusted) syntheticEvents++;
 
+    if (composing) sessionKeystrokes++;
+
+    if (intervals && ke.key === 'Unidentified') {
+      virtualDetected = true;
+    } else if (intervals && !virtualDetected && !composing && ke.keyCode === VIRTUAL_KEY_CODE && ke.key !== IME_PROCESS_KEY) {
+      virtualDetected = true;
+      virtualKeyTime = now;
+    }
+
     // Correction check — runs before modifier filter so Ctrl+Backspace still counts
     if (ke.key === 'Backspace' || ke.key === 'Delete') {
       corrections++;
@@ -98,9 +225,12 @@ export function createObserver(
     total++;
 
     // Flight time: gap between previous key release and this key press
+    const position = flightClasses ? keyPosition(ke.code) : UNKNOWN_POSITION;
     if (lastReleaseTime > 0 && activeKeys === 1) {
       flights.push(now - lastReleaseTime);
+      flightClasses?.push(transitionClass(lastPosition, position));
     }
+    lastPosition = position;
 
     // Record pending press for event log
     if (recordEvents) {
@@ -112,13 +242,14 @@ export function createObserver(
   };
 
   const onKeyUp = () => {
+    const now = clock();
+    tape?.push([now, INPUT_KEYUP, 0]);
+
     if (pendingFilteredUps > 0) {
       pendingFilteredUps--;
       return;
     }
 
-    const now = performance.now();
-
     if (lastPressTime > 0 && !hadRepeat) {
       dwells.push(now - lastPressTime);
     }
@@ -148,17 +279,80 @@ export function createObserver(
   };
 
   const onPaste = () => {
+    tape?.push([clock(), INPUT_PASTE, 0]);
     pasteDetected = true;
   };
 
-  const onInput = () => {
-    if (performance.now() - lastKeydownTime > INPUT_WITHOUT_KEYSTROKE_MS) {
+  const onInput = (e: Event) => {
+    const now = clock();
+    tape?.push([now, INPUT_INPUT, (e as InputEvent).isComposing ? 1 : 0]);
+    // Candidate selection commits text without a keystroke — that is still typing
+    if (composing || (e as InputEvent).isComposing || now - compositionEndTime <= INPUT_WITHOUT_KEYSTROKE_MS) return;
+    if (now - lastKeydownTime > INPUT_WITHOUT_KEYSTROKE_MS) {
       inputWithoutKeystrokes = true;
       inputWithoutKeystrokeCount++;
       lastReleaseTime = 0;
     }
   };
 
+  const onBeforeInput = (e: Event) => {
+    const now = clock();
+    const inputType = (e as InputEvent).inputType;
+    tape?.push([now, INPUT_BEFOREINPUT, Math.max(0, INPUT_TYPES.indexOf(inputType))]);
+    if (COMMIT_INPUT_TYPES.has(inputType)) return;
+    if (!TYPING_INPUT_TYPES.has(inputType)) {
+      // Paste/autofill/replacement — break the interval chain like onInput does
+      lastVirtualInputTime = 0;
+      return;
+    }
+
+    // A tap on the field followed by keyless typing input → virtual keyboard
+    if (touchSeen && now - lastKeydownTime > INPUT_WITHOUT_KEYSTROKE_MS) virtualDetected = true;
+
+    virtualTotal++;
+    if (inputType.startsWith('delete')) virtualCorrections++;
+    if (lastVirtualInputTime > 0) intervals?.push(now - lastVirtualInputTime);
+    lastVirtualInputTime = now;
+  };
+
+  const onTouchStart = () => {
+    tape?.push([clock(), INPUT_TOUCHSTART, 0]);
+    touchSeen = true;
+  };
+
+  const onCompositionStart = () => {
+    const now = clock();
+    tape?.push([now, INPUT_COMPOSITIONSTART, 0]);
+    composing = true;
+    compositionStartTime = now;
+    // The 229 keydown opened an IME session, not a virtual keyboard
+    if (virtualKeyTime === lastKeydownTime && now - lastKeydownTime <= INPUT_WITHOUT_KEYSTROKE_MS) {
+      virtualDetected = false;
+    }
+    virtualKeyTime = -Infinity;
+    sessionUpdates = 0;
+    // The keydown that opens a session fires just before compositionstart
+    sessionKeystrokes = now - lastKeydownTime <= INPUT_WITHOUT_KEYSTROKE_MS ? 1 : 0;
+  };
+
+  const onCompositionUpdate = () => {
+    tape?.push([clock(), INPUT_COMPOSITIONUPDATE, 0]);
+    if (composing) sessionUpdates++;
+  };
+
+  const onCompositionEnd = () => {
+    const now = clock();
+    tape?.push([now, INPUT_COMPOSITIONEND, 0]);
+    if (!composing) return;
+    composing = false;
+    compositionEndTime = now;
+    compositionSessions++;
+    if (sessionKeystrokes === 0) keylessSessions++;
+    compositionDurations.push(now - compositionStartTime);
+    compositionUpdates.push(sessionUpdates);
+    compositionKeystrokes.push(sessionKeystrokes);
+  };
+
   const listenerOpts: AddEventListenerOptions = { passive: true, capture: false };
   let listening = false;
 
@@ -168,6 +362,13 @@ export function createObserver(
     target.addEventListener('keyup', onKeyUp, listenerOpts);
     target.addEventListener('paste', onPaste, listenerOpts);
     target.addEventListener('input', onInput, listenerOpts);
+    target.addEventListener('compositionstart', onCompositionStart, listenerOpts);
+    target.addEventListener('compositionupdate', onCompositionUpdate, listenerOpts);
+    target.addEventListener('compositionend', onCompositionEnd, listenerOpts);
+    if (intervals) {
+      target.addEventListener('beforeinput', onBeforeInput, listenerOpts);
+      target.addEventListener('touchstart', onTouchStart, listenerOpts);
+    }
     listening = true;
   }
 
@@ -177,12 +378,38 @@ export function createObserver(
     target.removeEventListener('keyup', onKeyUp);
     target.removeEventListener('paste', onPaste);
     target.removeEventListener('input', onInput);
+    target.removeEventListener('compositionstart', onCompositionStart);
+    target.removeEventListener('compositionupdate', onCompositionUpdate);
+    target.removeEventListener('compositionend', onCompositionEnd);
+    if (intervals) {
+      target.removeEventListener('beforeinput', onBeforeInput);
+      target.removeEventListener('touchstart', onTouchStart);
+    }
     listening = false;
   }
 
   function clear() {
     dwells.clear();
     flights.clear();
+    flightClasses?.clear();
+    lastPosition = UNKNOWN_POSITION;
+    intervals?.clear();
+    virtualDetected = mobileMode === 'always';
+    virtualCorrections = 0;
+    virtualTotal = 0;
+    lastVirtualInputTime = 0;
+    touchSeen = false;
+    virtualKeyTime = -Infinity;
+    compositionDurations.clear();
+    compositionUpdates.clear();
+    compositionKeystrokes.clear();
+    compositionSessions = 0;
+    keylessSessions = 0;
+    composing = false;
+    compositionStartTime = 0;
+    compositionEndTime = -Infinity;
+    sessionUpdates = 0;
+    sessionKeystrokes = 0;
     corrections = 0;
     rollovers = 0;
     total = 0;
@@ -190,13 +417,20 @@ export function createObserver(
     syntheticEvents = 0;
     inputWithoutKeystrokes = false;
     inputWithoutKeystrokeCount = 0;
-    lastKeydownTime = 0;
+    lastKeydownTime = -Infinity;
     lastPressTime = 0;
     lastReleaseTime = 0;
     activeKeys = 0;
     pendingFilteredUps = 0;
     hadRepeat = false;
     if (recordEvents) { events = []; pendingPresses = []; }
+    if (tape) tape = [];
+  }
+
+  function resize(windowSize: number) {
+    for (const buffer of [dwells, flights, flightClasses, intervals, compositionDurations, compositionUpdates, compositionKeystrokes]) {
+      buffer?.resize(windowSize);
+    }
   }
 
   function destroy() {
@@ -205,8 +439,23 @@ export function createObserver(
   }
 
   function getState(): ObserverState {
-    return { dwells, flights, corrections, rollovers, total, pasteDetected, syntheticEvents, inputWithoutKeystrokes, inputWithoutKeystrokeCount, ...(events && { events }) };
+    return {
+      dwells, flights, corrections, rollovers, total, pasteDetected, syntheticEvents, inputWithoutKeystrokes, inputWithoutKeystrokeCount,
+      composition: {
+        sessions: compositionSessions,
+        durations: compositionDurations,
+        updates: compositionUpdates,
+        keystrokes: compositionKeystrokes,
+        keylessSessions,
+      },
+      ...(events && { events }),
+      ...(flightClasses && { flightClasses }),
+      ...(tape && { recording: tape }),
+      ...(intervals && {
+        virtualInput: { detected: virtualDetected, intervals, corrections: virtualCorrections, total: virtualTotal },
+      }),
+    };
   }
 
-  return { start, stop, clear, destroy, getState };
+  return { start, stop, clear, resize, destroy, getState };
 }
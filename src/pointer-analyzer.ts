@@ -0,0 +1,125 @@
+import type { PointerMetricScores, PointerResult, PointerWeights } from './types';
+import { TELEPORT_APPROACH, type PointerObserverState } from './pointer-observer';
+import { NO_DATA } from './analyzer';
+import { clamp, mean, sigmoid, stddev } from './utils';
+
+/**
+ * Default pointer metric weights. Movement-shape metrics observe many samples
+ * per session and carry more weight than the per-click ones.
+ */
+export const DEFAULT_POINTER_WEIGHTS: PointerWeights = {
+  velocityVariance: 0.30,
+  pathCurvature: 0.30,
+  clickDwell: 0.20,
+  approachPath: 0.20,
+};
+
+/** Minimum move segments for velocity and curvature scoring. */
+const MIN_MOVE_SAMPLES = 10;
+
+// ── Velocity variance ──
+// Human strokes accelerate and decelerate (bell-shaped velocity profile);
+// interpolated bot paths move at near-constant speed.
+const VELOCITY_CV_SLOPE = 8;
+const VELOCITY_CV_MIDPOINT = 0.3;
+
+// ── Path curvature (mean turn angle, radians) ──
+// Humans make small continuous corrections; scripted paths are straight,
+// random-jump paths turn wildly.
+const CURVATURE_UP_SLOPE = 30;
+const CURVATURE_UP_MIDPOINT = 0.05;
+const CURVATURE_DOWN_SLOPE = -6;
+const CURVATURE_DOWN_MIDPOINT = 1.2;
+
+// ── Click dwell ──
+const CLICK_DWELL_SLOPE = 0.15;
+const CLICK_DWELL_MIDPOINT_MS = 30;    // humans hold 60–200 ms; dispatched clicks ~0 ms
+
+// ── Approach path straightness ──
+const APPROACH_SLOPE = -300;
+const APPROACH_MIDPOINT = 0.99;        // a ruler-straight approach is scripted
+
+export interface PointerAnalyzerConfig {
+  minSamples: number;
+  weights: PointerWeights;
+}
+
+export interface PointerAnalyzer {
+  analyze(state: PointerObserverState): PointerResult;
+}
+
+function scoreVelocityVariance(speeds: number[]): number {
+  if (speeds.length < MIN_MOVE_SAMPLES) return NO_DATA;
+  const m = mean(speeds);
+  const cv = m > 0 ? stddev(speeds) / m : 0;
+  return sigmoid(cv, VELOCITY_CV_SLOPE, VELOCITY_CV_MIDPOINT);
+}
+
+function scorePathCurvature(turns: number[]): number {
+  if (turns.length < MIN_MOVE_SAMPLES) return NO_DATA;
+  const m = mean(turns);
+  const up = sigmoid(m, CURVATURE_UP_SLOPE, CURVATURE_UP_MIDPOINT);
+  const down = sigmoid(m, CURVATURE_DOWN_SLOPE, CURVATURE_DOWN_MIDPOINT);
+  return up * down;
+}
+
+function scoreClickDwell(dwells: number[]): number {
+  if (dwells.length === 0) return NO_DATA;
+  return sigmoid(mean(dwells), CLICK_DWELL_SLOPE, CLICK_DWELL_MIDPOINT_MS);
+}
+
+/**
+ * Approach path score: mean over the clicks in the window, where each click
+ * scores by the straightness of the path leading into it and a click with no
+ * preceding movement (teleport) scores 0.
+ */
+function scoreApproachPath(approaches: number[]): number {
+  if (approaches.length === 0) return NO_DATA;
+  let sum = 0;
+  for (let i = 0; i < approaches.length; i++) {
+    if (approaches[i] !== TELEPORT_APPROACH) sum += sigmoid(approaches[i], APPROACH_SLOPE, APPROACH_MIDPOINT);
+  }
+  return sum / approaches.length;
+}
+
+export function createPointerAnalyzer(config: PointerAnalyzerConfig): PointerAnalyzer {
+  const { minSamples, weights } = config;
+
+  return {
+    analyze(state: PointerObserverState): PointerResult {
+      const raw: PointerMetricScores = {
+        velocityVariance: scoreVelocityVariance(state.speeds.toArray()),
+        pathCurvature: scorePathCurvature(state.turns.toArray()),
+        clickDwell: scoreClickDwell(state.clickDwells.toArray()),
+        approachPath: scoreApproachPath(state.approaches.toArray()),
+      };
+
+      // Same gating as the keystroke analyzer: NO_DATA metrics report 0 and
+      // are skipped in the weighted average.
+      const metrics = { ...raw };
+      let weightedSum = 0;
+      let weightSum = 0;
+      for (const k of Object.keys(raw) as (keyof PointerMetricScores)[]) {
+        if (raw[k] === NO_DATA) {
+          metrics[k] = 0;
+        } else {
+          weightedSum += weights[k] * raw[k];
+          weightSum += weights[k];
+        }
+      }
+
+      const pointerInactive = weightSum === 0;
+      return {
+        score: pointerInactive ? 0.5 : clamp(weightedSum / weightSum, 0, 1),
+        metrics,
+        sampleCount: state.moveCount,
+        confident: state.moveCount >= minSamples,
+        signals: {
+          moveCount: state.moveCount,
+          teleportClicks: state.teleportClicks,
+          pointerInactive,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import { createBuffer, type RingBuffer } from './buffer';
+
+/** Pointer history considered as the "approach" path into the field. */
+const APPROACH_WINDOW_MS = 1000;
+
+/** Recent pointer positions kept for approach-path reconstruction. */
+const PATH_CAPACITY = 64;
+
+/** Moves closer together than this (ms) are coalesced — avoids 0-ms divisions. */
+const MIN_MOVE_INTERVAL_MS = 1;
+
+/** Segments shorter than this (px) carry no usable heading. */
+const MIN_SEGMENT_PX = 0.5;
+
+/** Entry in `approaches` for a teleport click — no straightness to measure. */
+export const TELEPORT_APPROACH = -1;
+
+export interface PointerObserverConfig {
+  /** Samples kept per ring buffer. Default: 50 */
+  windowSize: number;
+  /** Timestamp source for every event. Default: performance.now */
+  clock?: () => number;
+}
+
+export interface PointerObserverState {
+  /** Pointer speed per move segment (px/ms) */
+  speeds: RingBuffer;
+  /** Absolute heading change between consecutive segments (radians, 0–π) */
+  turns: RingBuffer;
+  /** Press duration of clicks on the target (ms) */
+  clickDwells: RingBuffer;
+  /**
+   * Straightness (displacement / path length) of the path leading into each
+   * click, or `TELEPORT_APPROACH` for a teleport click
+   */
+  approaches: RingBuffer;
+  /** Total pointer moves seen */
+  moveCount: number;
+  /** Mouse/pen presses on the target with no pointer movement since the previous press */
+  teleportClicks: number;
+}
+
+export interface PointerObserver {
+  start(): void;
+  stop(): void;
+  clear(): void;
+  /** Change the window size, keeping the most recent samples. */
+  resize(windowSize: number): void;
+  destroy(): void;
+  getState(): PointerObserverState;
+}
+
+interface PathPoint {
+  x: number;
+  y: number;
+  t: number;
+}
+
+/**
+ * Factory that tracks pointer dynamics around a target.
+ * Movement is observed on the owning document (the path *into* the field
+ * matters); presses are observed on the target. Only geometry-free
+ * aggregates are stored — speeds, turn angles, dwell and straightness.
+ */
+export function createPointerObserver(
+  target: EventTarget,
+  config: PointerObserverConfig,
+): PointerObserver {
+  const clock = config.clock ?? (() => performance.now());
+  const speeds = createBuffer(config.windowSize);
+  const turns = createBuffer(config.windowSize);
+  const clickDwells = createBuffer(config.windowSize);
+  const approaches = createBuffer(config.windowSize);
+  let moveCount = 0;
+  let teleportClicks = 0;
+
+  const moveSource: EventTarget = (target as Partial<Node>).ownerDocument ?? target;
+
+  let path: PathPoint[] = [];
+  let lastHeading: number | null = null;
+  let pressTime = 0;
+  let movedSincePress = false;
+
+  const onPointerMove = (e: Event) => {
+    const pe = e as PointerEvent;
+    const now = clock();
+    const prev = path[path.length - 1];
+    if (prev && now - prev.t < MIN_MOVE_INTERVAL_MS) return;
+
+    moveCount++;
+    movedSincePress = true;
+    if (prev) {
+      const dx = pe.clientX - prev.x;
+      const dy = pe.clientY - prev.y;
+      const dist = Math.hypot(dx, dy);
+      speeds.push(dist / (now - prev.t));
+      if (dist >= MIN_SEGMENT_PX) {
+        const heading = Math.atan2(dy, dx);
+        if (lastHeading !== null) {
+          const turn = Math.abs(heading - lastHeading);
+          turns.push(turn > Math.PI ? 2 * Math.PI - turn : turn);
+        }
+        lastHeading = heading;
+      }
+    }
+
+    path.push({ x: pe.clientX, y: pe.clientY, t: now });
+    if (path.length > PATH_CAPACITY) path.shift();
+  };
+
+  const onPointerDown = (e: Event) => {
+    const now = clock();
+    pressTime = now;
+    const moved = movedSincePress;
+    movedSincePress = false;
+
+    // Touch presses have no hover path leading into them
+    if ((e as PointerEvent).pointerType === 'touch') return;
+
+    const recent = path.filter((p) => now - p.t <= APPROACH_WINDOW_MS);
+    if (recent.length < 2) {
+      // A pointer resting after a move is idle, not teleported — no sample
+      if (!moved) {
+        teleportClicks++;
+        approaches.push(TELEPORT_APPROACH);
+      }
+      return;
+    }
+    let length = 0;
+    for (let i = 1; i < recent.length; i++) {
+      length += Math.hypot(recent[i].x - recent[i - 1].x, recent[i].y - recent[i - 1].y);
+    }
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const displacement = Math.hypot(last.x - first.x, last.y - first.y);
+    if (length > 0) approaches.push(displacement / length);
+  };
+
+  const onPointerUp = () => {
+    if (pressTime === 0) return;
+    clickDwells.push(clock() - pressTime);
+    pressTime = 0;
+  };
+
+  const listenerOpts: AddEventListenerOptions = { passive: true, capture: false };
+  let listening = false;
+
+  function start() {
+    if (listening) return;
+    moveSource.addEventListener('pointermove', onPointerMove, listenerOpts);
+    target.addEventListener('pointerdown', onPointerDown, listenerOpts);
+    target.addEventListener('pointerup', onPointerUp, listenerOpts);
+    listening = true;
+  }
+
+  function stop() {
+    if (!listening) return;
+    moveSource.removeEventListener('pointermove', onPointerMove);
+    target.removeEventListener('pointerdown', onPointerDown);
+    target.removeEventListener('pointerup', onPointerUp);
+    listening = false;
+  }
+
+  function clear() {
+    speeds.clear();
+    turns.clear();
+    clickDwells.clear();
+    approaches.clear();
+    moveCount = 0;
+    teleportClicks = 0;
+    path = [];
+    lastHeading = null;
+    pressTime = 0;
+    movedSincePress = false;
+  }
+
+  function destroy() {
+    stop();
+    clear();
+  }
+
+  function getState(): PointerObserverState {
+    return { speeds, turns, clickDwells, approaches, moveCount, teleportClicks };
+  }
+
+  function resize(windowSize: number) {
+    for (const buffer of [speeds, turns, clickDwells, approaches]) buffer.resize(windowSize);
+  }
+
+  return { start, stop, clear, resize, destroy, getState };
+}
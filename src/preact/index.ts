@@ -0,0 +1,28 @@
+import { useRef, useState, useCallback, useEffect } from 'preact/hooks';
+import { createUseHumanCadence } from '../hook';
+
+export type {
+  Cadence,
+  CadenceConfig,
+  CadenceResult,
+  CadenceSignals,
+  Classification,
+  ClassificationThresholds,
+  CompositionResult,
+  CustomMetric,
+  CustomMetricScores,
+  KeystrokeEvent,
+  MetricInput,
+  MetricWeights,
+  MobileMode,
+  MetricScores,
+  TimingData,
+} from '../types';
+export type { UseHumanCadenceOptions, UseHumanCadenceReturn } from '../hook';
+export { DEFAULT_WEIGHTS, DEFAULT_MOBILE_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS, NO_DATA } from '../index';
+
+/**
+ * Preact hook that wraps createCadence with idiomatic ref + state management.
+ * Attach the returned `ref` to any element that receives keyboard input.
+ */
+export const useHumanCadence = createUseHumanCadence({ useRef, useState, useCallback, useEffect });
@@ -1,6 +1,5 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
-import { createCadence } from '../index';
-import type { CadenceConfig, CadenceResult, CadenceSignals, Classification, MetricScores, TimingData } from '../types';
+import { createUseHumanCadence } from '../hook';
 
 export type {
   Cadence,
@@ -9,155 +8,21 @@ export type {
   CadenceSignals,
   Classification,
   ClassificationThresholds,
+  CompositionResult,
+  CustomMetric,
+  CustomMetricScores,
   KeystrokeEvent,
+  MetricInput,
   MetricWeights,
+  MobileMode,
   MetricScores,
   TimingData,
 } from '../types';
-export { DEFAULT_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS } from '../index';
-
-export interface UseHumanCadenceOptions {
-  /** Sliding window size. Default: 50 */
-  windowSize?: number;
-  /** Minimum samples for confident score. Default: 20 */
-  minSamples?: number;
-  /** Custom metric weights. */
-  weights?: CadenceConfig['weights'];
-  /** Record per-keystroke event log for offline analysis. Default: false */
-  recordEvents?: boolean;
-  /** Custom thresholds for hysteresis classification. */
-  classificationThresholds?: CadenceConfig['classificationThresholds'];
-}
-
-export interface UseHumanCadenceReturn {
-  /** Callback ref — attach to any input, textarea, or contenteditable element. */
-  ref: (node: HTMLElement | null) => void;
-  /** Current humanity score (0.0–1.0). */
-  score: number;
-  /** True when enough samples have been collected. */
-  confident: boolean;
-  /** Individual metric scores. */
-  metrics: MetricScores;
-  /** Contextual signals (paste, synthetic events, etc.). */
-  signals: CadenceSignals;
-  /** Number of samples in current window. */
-  sampleCount: number;
-  /** Classification with hysteresis: 'bot', 'unknown', or 'human'. */
-  classification: Classification;
-  /** Reset all collected data. */
-  reset: () => void;
-  /** Return a plain-object snapshot of raw timing buffers, or null if not attached. */
-  snapshot: () => TimingData | null;
-}
+export type { UseHumanCadenceOptions, UseHumanCadenceReturn } from '../hook';
+export { DEFAULT_WEIGHTS, DEFAULT_MOBILE_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS, NO_DATA } from '../index';
 
 /**
  * React hook that wraps createCadence with idiomatic ref + state management.
  * Attach the returned `ref` to any element that receives keyboard input.
  */
-export function useHumanCadence(
-  options?: UseHumanCadenceOptions,
-): UseHumanCadenceReturn {
-  const cadenceRef = useRef<ReturnType<typeof createCadence> | null>(null);
-  const nodeRef = useRef<HTMLElement | null>(null);
-
-  const [result, setResult] = useState<CadenceResult>({
-    score: 0.5,
-    metrics: {
-      dwellVariance: 0.5,
-      flightFit: 0.5,
-      timingEntropy: 0.5,
-      correctionRatio: 0.5,
-      burstRegularity: 0.5,
-      rolloverRate: 0.5,
-    },
-    sampleCount: 0,
-    confident: false,
-    signals: {
-      pasteDetected: false,
-      syntheticEvents: 0,
-      insufficientData: true,
-      inputWithoutKeystrokes: false,
-      inputWithoutKeystrokeCount: 0,
-    },
-    classification: 'unknown',
-  });
-
-  // Stable config ref to avoid re-creating cadence on every render
-  const configRef = useRef(options);
-  configRef.current = options;
-
-  const ref = useCallback((node: HTMLElement | null) => {
-    // Cleanup previous instance
-    if (cadenceRef.current) {
-      cadenceRef.current.destroy();
-      cadenceRef.current = null;
-    }
-
-    nodeRef.current = node;
-
-    if (node) {
-      const opts = configRef.current;
-      cadenceRef.current = createCadence(node, {
-        windowSize: opts?.windowSize,
-        minSamples: opts?.minSamples,
-        weights: opts?.weights,
-        recordEvents: opts?.recordEvents,
-        classificationThresholds: opts?.classificationThresholds,
-        scheduling: 'idle',
-        onScore: setResult,
-      });
-      cadenceRef.current.start();
-    }
-  }, []);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (cadenceRef.current) {
-        cadenceRef.current.destroy();
-        cadenceRef.current = null;
-      }
-    };
-  }, []);
-
-  const snapshot = useCallback((): TimingData | null => {
-    return cadenceRef.current?.snapshot() ?? null;
-  }, []);
-
-  const reset = useCallback(() => {
-    cadenceRef.current?.reset();
-    setResult({
-      score: 0.5,
-      metrics: {
-        dwellVariance: 0.5,
-        flightFit: 0.5,
-        timingEntropy: 0.5,
-        correctionRatio: 0.5,
-        burstRegularity: 0.5,
-        rolloverRate: 0.5,
-      },
-      sampleCount: 0,
-      confident: false,
-      signals: {
-        pasteDetected: false,
-        syntheticEvents: 0,
-        insufficientData: true,
-        inputWithoutKeystrokes: false,
-        inputWithoutKeystrokeCount: 0,
-      },
-      classification: 'unknown',
-    });
-  }, []);
-
-  return {
-    ref,
-    score: result.score,
-    confident: result.confident,
-    metrics: result.metrics,
-    signals: result.signals,
-    sampleCount: result.sampleCount,
-    classification: result.classification,
-    reset,
-    snapshot,
-  };
-}
+export const useHumanCadence = createUseHumanCadence({ useRef, useState, useCallback, useEffect });
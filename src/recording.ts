@@ -0,0 +1,267 @@
+import type { CadenceLiveConfig, Recording, RecordingConfig, RecordedInput } from './types';
+
+/**
+ * Session recording format.
+ *
+ * A recording is the tape of input events the observer consumed, reduced to
+ * the fields it reads (never key identity), plus a mark wherever a result
+ * was published. Feeding the tape back through a fresh observer reproduces
+ * the same CadenceResult sequence.
+ *
+ * Each entry is a `[time, type, detail]` tuple — `detail` carries keydown
+ * flags, the beforeinput type, the input composing flag or the index of a
+ * configure() change, 0 otherwise.
+ */
+
+/** Recording format version — bumped on any change to the tape encoding. */
+export const RECORDING_VERSION = 2;
+
+// ── Input types ──
+export const INPUT_KEYDOWN = 0;
+export const INPUT_KEYUP = 1;
+export const INPUT_PASTE = 2;
+export const INPUT_INPUT = 3;
+export const INPUT_BEFOREINPUT = 4;
+export const INPUT_TOUCHSTART = 5;
+export const INPUT_COMPOSITIONSTART = 6;
+export const INPUT_COMPOSITIONUPDATE = 7;
+export const INPUT_COMPOSITIONEND = 8;
+/** Not an input — a result was published at this point of the tape. */
+export const INPUT_ANALYZE = 9;
+/** Not an input — configure() was called; `detail` indexes the recording's `changes`. */
+export const INPUT_CONFIGURE = 10;
+const INPUT_TYPE_COUNT = 11;
+
+/** DOM event name per input type (INPUT_ANALYZE and INPUT_CONFIGURE have none). */
+export const INPUT_EVENT_NAMES = [
+  'keydown', 'keyup', 'paste', 'input', 'beforeinput', 'touchstart',
+  'compositionstart', 'compositionupdate', 'compositionend',
+];
+
+// ── Keydown detail bits ──
+// The key itself is reduced to one of four kinds the observer distinguishes.
+export const KEY_KIND_MASK = 0b11;
+export const KEY_OTHER = 0;
+export const KEY_CORRECTION = 1;
+export const KEY_UNIDENTIFIED = 2;
+export const KEY_PROCESS = 3;
+export const KEY_REPEAT = 1 << 2;
+export const KEY_MODIFIER = 1 << 3;
+export const KEY_UNTRUSTED = 1 << 4;
+export const KEY_CODE_229 = 1 << 5;
+/**
+ * Digraph transition class + 1 is stored from this bit up — 0 when
+ * digraphModel is off or the keydown was filtered (repeat, shortcut).
+ * The key's hand/row position itself never reaches the tape.
+ */
+export const KEY_TRANSITION_SHIFT = 6;
+
+/** beforeinput types the observer distinguishes; anything else is recorded as index 0. */
+export const INPUT_TYPES = [
+  'other',
+  'insertText',
+  'insertCompositionText',
+  'deleteContentBackward',
+  'deleteContentForward',
+  'insertFromComposition',
+  'deleteCompositionText',
+];
+
+/** Binary header: "IHC" followed by the format version. */
+const MAGIC = [0x49, 0x48, 0x43];
+
+/** Binary timestamps are stored as microsecond deltas. */
+const US_PER_MS = 1000;
+
+/** Set on the type byte when the entry's time follows as a raw float64 — it has no exact µs form. */
+const RAW_TIME_FLAG = 0x80;
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid recording: ${reason}`);
+}
+
+// ── Varint (LEB128) with zigzag for signed deltas ──
+// Arithmetic rather than bitwise ops so values above 2^31 survive.
+
+function writeVarint(out: number[], value: number) {
+  let v = value;
+  while (v >= 0x80) {
+    out.push((v % 0x80) | 0x80);
+    v = Math.floor(v / 0x80);
+  }
+  out.push(v);
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+interface Reader {
+  bytes: Uint8Array;
+  pos: number;
+}
+
+function readVarint(reader: Reader): number {
+  let value = 0;
+  let scale = 1;
+  for (;;) {
+    if (reader.pos >= reader.bytes.length) throw invalid('unexpected end of data');
+    const byte = reader.bytes[reader.pos++];
+    value += (byte & 0x7f) * scale;
+    if (byte < 0x80) return value;
+    scale *= 0x80;
+    if (scale > Number.MAX_SAFE_INTEGER) throw invalid('varint overflow');
+  }
+}
+
+function writeJson(out: number[], value: unknown) {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  writeVarint(out, bytes.length);
+  for (let i = 0; i < bytes.length; i++) out.push(bytes[i]);
+}
+
+function readJson(reader: Reader, name: string): unknown {
+  const length = readVarint(reader);
+  if (reader.pos + length > reader.bytes.length) throw invalid('unexpected end of data');
+  const text = new TextDecoder().decode(reader.bytes.subarray(reader.pos, reader.pos + length));
+  reader.pos += length;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw invalid(`${name} is not valid JSON`);
+  }
+}
+
+/** Serialize a recording as JSON. Timestamps are kept exactly. */
+export function encodeRecordingJson(recording: Recording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Serialize a recording into the compact binary variant: header, config
+ * JSON, configure() changes JSON, then per entry the type byte, detail varint and a zigzag varint
+ * time delta in microseconds. A time that is not a whole number of
+ * microseconds is stored as a raw float64 instead, so decoding is exact.
+ */
+export function encodeRecordingBinary(recording: Recording): Uint8Array {
+  const out: number[] = [...MAGIC, recording.v];
+  writeJson(out, recording.config);
+  writeJson(out, recording.changes ?? []);
+
+  writeVarint(out, recording.inputs.length);
+  let lastUs = 0;
+  const raw = new DataView(new ArrayBuffer(8));
+  for (const [time, type, detail] of recording.inputs) {
+    const us = Math.round(time * US_PER_MS);
+    if (us / US_PER_MS === time) {
+      out.push(type);
+      writeVarint(out, detail);
+      writeVarint(out, zigzag(us - lastUs));
+    } else {
+      out.push(type | RAW_TIME_FLAG);
+      writeVarint(out, detail);
+      raw.setFloat64(0, time);
+      for (let i = 0; i < 8; i++) out.push(raw.getUint8(i));
+    }
+    lastUs = us;
+  }
+  return new Uint8Array(out);
+}
+
+function checkConfig(value: unknown): RecordingConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw invalid('config must be an object');
+  const config = value as Partial<RecordingConfig>;
+  if (typeof config.windowSize !== 'number' || typeof config.minSamples !== 'number') {
+    throw invalid('config must include windowSize and minSamples');
+  }
+  return config as RecordingConfig;
+}
+
+function checkChanges(value: unknown): CadenceLiveConfig[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw invalid('changes must be an array');
+  value.forEach((change: unknown, i) => {
+    if (typeof change !== 'object' || change === null || Array.isArray(change)) throw invalid(`changes[${i}] must be an object`);
+  });
+  return value as CadenceLiveConfig[];
+}
+
+function checkInputs(value: unknown, changes: number): RecordedInput[] {
+  if (!Array.isArray(value)) throw invalid('inputs must be an array');
+  for (let i = 0; i < value.length; i++) {
+    const entry: unknown = value[i];
+    if (!Array.isArray(entry) || entry.length !== 3) throw invalid(`inputs[${i}] must be a [time, type, detail] tuple`);
+    const [time, type, detail] = entry as unknown[];
+    if (typeof time !== 'number' || !Number.isFinite(time)) throw invalid(`inputs[${i}] time must be a finite number`);
+    if (!Number.isInteger(type) || (type as number) < 0 || (type as number) >= INPUT_TYPE_COUNT) {
+      throw invalid(`inputs[${i}] has an unknown type`);
+    }
+    if (!Number.isInteger(detail) || (detail as number) < 0) throw invalid(`inputs[${i}] detail must be a non-negative integer`);
+    if (type === INPUT_CONFIGURE && (detail as number) >= changes) throw invalid(`inputs[${i}] refers to a missing change`);
+  }
+  return value as RecordedInput[];
+}
+
+function checkRecording(config: unknown, inputs: unknown, changes: unknown): Recording {
+  const checkedChanges = checkChanges(changes);
+  return {
+    v: RECORDING_VERSION,
+    config: checkConfig(config),
+    inputs: checkInputs(inputs, checkedChanges.length),
+    ...(checkedChanges.length > 0 && { changes: checkedChanges }),
+  };
+}
+
+function decodeJson(text: string): Recording {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw invalid('not valid JSON');
+  }
+  if (typeof value !== 'object' || value === null) throw invalid('expected an object');
+  const { v, config, inputs, changes } = value as Partial<Recording>;
+  if (v !== RECORDING_VERSION) throw invalid(`unsupported version ${String(v)}`);
+  return checkRecording(config, inputs, changes);
+}
+
+function decodeBinary(bytes: Uint8Array): Recording {
+  if (bytes.length < 4 || MAGIC.some((b, i) => bytes[i] !== b)) throw invalid('missing header');
+  if (bytes[3] !== RECORDING_VERSION) throw invalid(`unsupported version ${bytes[3]}`);
+
+  const reader: Reader = { bytes, pos: 4 };
+  const config = readJson(reader, 'config');
+  const changes = readJson(reader, 'changes');
+
+  const count = readVarint(reader);
+  const inputs: RecordedInput[] = [];
+  let us = 0;
+  for (let i = 0; i < count; i++) {
+    if (reader.pos >= bytes.length) throw invalid('unexpected end of data');
+    const byte = bytes[reader.pos++];
+    const detail = readVarint(reader);
+    if (byte & RAW_TIME_FLAG) {
+      if (reader.pos + 8 > bytes.length) throw invalid('unexpected end of data');
+      const time = new DataView(bytes.buffer, bytes.byteOffset + reader.pos, 8).getFloat64(0);
+      reader.pos += 8;
+      us = Math.round(time * US_PER_MS);
+      inputs.push([time, byte & ~RAW_TIME_FLAG, detail]);
+    } else {
+      us += unzigzag(readVarint(reader));
+      inputs.push([us / US_PER_MS, byte, detail]);
+    }
+  }
+  return checkRecording(config, inputs, changes);
+}
+
+/**
+ * Parse a recording exported as JSON (string) or binary (bytes).
+ * Throws on malformed data or an unsupported version.
+ */
+export function importRecording(data: string | Uint8Array): Recording {
+  return typeof data === 'string' ? decodeJson(data) : decodeBinary(data);
+}
@@ -0,0 +1,107 @@
+import { createCadence } from './index';
+import { positionCode, transitionTarget, UNKNOWN_POSITION } from './digraph';
+import {
+  INPUT_ANALYZE, INPUT_BEFOREINPUT, INPUT_CONFIGURE, INPUT_EVENT_NAMES, INPUT_INPUT, INPUT_KEYDOWN, INPUT_TYPES,
+  KEY_CODE_229, KEY_CORRECTION, KEY_KIND_MASK, KEY_MODIFIER, KEY_OTHER, KEY_TRANSITION_SHIFT, KEY_PROCESS, KEY_REPEAT,
+  KEY_UNIDENTIFIED, KEY_UNTRUSTED,
+} from './recording';
+import type { CadenceConfig, CadenceResult, RecordedInput, Recording } from './types';
+
+/** Overrides applied on top of the recorded configuration. */
+export type ReplayConfig = Omit<CadenceConfig, 'onScore' | 'scheduling' | 'record' | 'pointer' | 'clock'>;
+
+type Listener = (e: unknown) => void;
+
+/** Minimal EventTarget that hands plain objects to the observer's listeners. */
+export function createReplayTarget() {
+  const listeners = new Map<string, Set<Listener>>();
+  const target = {
+    addEventListener(type: string, listener: Listener) {
+      let set = listeners.get(type);
+      if (!set) listeners.set(type, set = new Set());
+      set.add(listener);
+    },
+    removeEventListener(type: string, listener: Listener) {
+      listeners.get(type)?.delete(listener);
+    },
+    dispatchEvent() {
+      return true;
+    },
+  };
+  function emit(type: string, event: object) {
+    for (const listener of listeners.get(type) ?? []) listener({ type, isTrusted: true, ...event });
+  }
+  return { target: target as unknown as EventTarget, emit };
+}
+
+/** A representative key per recorded kind — identity was never stored. */
+const KEY_BY_KIND: Record<number, string> = {
+  [KEY_OTHER]: 'a',
+  [KEY_CORRECTION]: 'Backspace',
+  [KEY_UNIDENTIFIED]: 'Unidentified',
+  [KEY_PROCESS]: 'Process',
+};
+
+/**
+ * Rebuilds keydown events from tape details. Only the transition class was
+ * recorded, so each key is placed relative to the previous rebuilt one —
+ * a different key sequence with the same classes.
+ */
+function createKeydownDecoder() {
+  let lastPosition = UNKNOWN_POSITION;
+  return (detail: number) => {
+    const flightClass = Math.floor(detail / (1 << KEY_TRANSITION_SHIFT)) - 1;
+    let code: string | undefined;
+    if (flightClass >= 0) {
+      lastPosition = transitionTarget(lastPosition, flightClass);
+      code = positionCode(lastPosition);
+    }
+    return {
+      key: KEY_BY_KIND[detail & KEY_KIND_MASK],
+      code,
+      keyCode: detail & KEY_CODE_229 ? 229 : 0,
+      repeat: (detail & KEY_REPEAT) !== 0,
+      ctrlKey: (detail & KEY_MODIFIER) !== 0,
+      metaKey: false,
+      altKey: false,
+      isTrusted: (detail & KEY_UNTRUSTED) === 0,
+    };
+  };
+}
+
+function replayEvent([, type, detail]: RecordedInput, keydown: (detail: number) => object): object {
+  switch (type) {
+    case INPUT_KEYDOWN: return keydown(detail);
+    case INPUT_INPUT: return { isComposing: (detail & 1) !== 0 };
+    case INPUT_BEFOREINPUT: return { inputType: INPUT_TYPES[detail] ?? INPUT_TYPES[0] };
+    default: return {};
+  }
+}
+
+/**
+ * Feed a recording through a fresh cadence instance and return the result
+ * published at every analysis mark — the same sequence the live session
+ * produced. The instance reads the tape's timestamps through its `clock`,
+ * so `performance.now()` is never patched. Custom metrics are not
+ * recorded; pass them again in `config`.
+ */
+export function replayRecording(recording: Recording, config?: ReplayConfig): CadenceResult[] {
+  const { target, emit } = createReplayTarget();
+  let time = 0;
+  const cadence = createCadence(target, { ...recording.config, ...config, scheduling: 'manual', clock: () => time });
+  const keydown = createKeydownDecoder();
+  const results: CadenceResult[] = [];
+
+  try {
+    cadence.start();
+    for (const input of recording.inputs) {
+      time = input[0];
+      if (input[1] === INPUT_ANALYZE) results.push(cadence.analyze());
+      else if (input[1] === INPUT_CONFIGURE) cadence.configure(recording.changes?.[input[2]] ?? {});
+      else emit(INPUT_EVENT_NAMES[input[1]], replayEvent(input, keydown));
+    }
+  } finally {
+    cadence.destroy();
+  }
+  return results;
+}
@@ -0,0 +1,304 @@
+import { createAnalyzer, DEFAULT_MOBILE_WEIGHTS, DEFAULT_WEIGHTS } from '../analyzer';
+import { detectSpoof, type SpoofResult } from '../anti-spoof';
+import { baseThresholds, classify } from '../classifier';
+import { windowTiming } from '../timing';
+import { FLIGHT_CLASS_COUNT } from '../digraph';
+import type { CadenceConfig, CadenceExplanation, CalibrationProfile, CadenceFeatures, Classification, CustomMetricScores, KeystrokeEvent, MetricScores, MobileMode, TimingData, VirtualTiming } from '../types';
+
+export type {
+  AttestationKey,
+  CadenceExplanation,
+  CadenceFeatures,
+  CalibrationProfile,
+  Classification,
+  CustomMetric,
+  CustomMetricScores,
+  MetricInput,
+  ClassificationThresholds,
+  KeystrokeEvent,
+  MetricWeights,
+  MetricExplanation,
+  MetricScores,
+  MobileMode,
+  ReasonCode,
+  RecordedInput,
+  Recording,
+  RecordingConfig,
+  TimingData,
+  VirtualTiming,
+} from '../types';
+export type { KsFit, SpoofResult } from '../anti-spoof';
+export type {
+  AttestationPayload,
+  AttestationVerification,
+  AttestationError,
+  VerifyAttestationOptions,
+} from '../attestation';
+export { verifyAttestation, digestTimingData } from '../attestation';
+export { DEFAULT_MOBILE_WEIGHTS, DEFAULT_SCORING_PARAMETERS, DEFAULT_WEIGHTS, NO_DATA } from '../analyzer';
+export { DEFAULT_CLASSIFICATION_THRESHOLDS, classify } from '../classifier';
+export { importRecording, RECORDING_VERSION } from '../recording';
+export { replayRecording, type ReplayConfig } from '../replay';
+
+export interface VerifyLimits {
+  /** Max entries accepted in `dwells` / `flights`. Default: 1000 */
+  maxSamples: number;
+  /** Max entries accepted in `events`. Default: 10000 */
+  maxEvents: number;
+  /** Max single dwell or flight in ms — longer values are rejected as forged. Default: 60000 */
+  maxIntervalMs: number;
+}
+
+export const DEFAULT_VERIFY_LIMITS: VerifyLimits = {
+  maxSamples: 1000,
+  maxEvents: 10000,
+  maxIntervalMs: 60000,
+};
+
+export interface VerifyOptions {
+  /** Keystrokes considered from `dwells` / `flights`. Should match the client. Default: 50 */
+  windowSize?: number;
+  /** Minimum samples before a confident verdict. Default: 20 */
+  minSamples?: number;
+  /** Custom metric weights. Default: see DEFAULT_WEIGHTS */
+  weights?: CadenceConfig['weights'];
+  /**
+   * Virtual keyboard handling — should match the client. 'auto' scores the
+   * snapshot's virtual intervals when the client did (`profile: 'virtual'`),
+   * 'always' always does, 'off' scores dwell/flight. Default: 'off'
+   *
+   * 'auto' trusts the client-reported profile, so a forged payload picks the
+   * metric set it is scored on. When the server knows the device class, pin
+   * it with 'always' or 'off' instead.
+   */
+  mobileMode?: MobileMode;
+  /** Metric weights for virtual keyboard scoring. Default: see DEFAULT_MOBILE_WEIGHTS */
+  mobileWeights?: CadenceConfig['mobileWeights'];
+  /** Custom metrics — should match the client configuration */
+  metrics?: CadenceConfig['metrics'];
+  /** Custom metric weights by name — should match the client configuration */
+  customWeights?: CadenceConfig['customWeights'];
+  /** Custom thresholds for hysteresis classification. */
+  classificationThresholds?: CadenceConfig['classificationThresholds'];
+  /** Attach reason codes and raw statistics per metric as `explanation`. Default: false */
+  explain?: boolean;
+  /** Calibration profile — should match the client configuration */
+  calibration?: CalibrationProfile;
+  /** Classification from the previous verification of this session. Default: 'unknown' */
+  previousClassification?: Classification;
+  /** Payload size and value limits. Default: see DEFAULT_VERIFY_LIMITS */
+  limits?: Partial<VerifyLimits>;
+}
+
+export interface ServerVerdict {
+  /** Re-computed humanity score, 0.0 (bot) to 1.0 (human) */
+  score: number;
+  /** Individual metric scores, each 0.0–1.0 */
+  metrics: MetricScores & CustomMetricScores;
+  /** Number of samples the score was computed from */
+  sampleCount: number;
+  /** True when sampleCount >= minSamples */
+  confident: boolean;
+  /** Classification after one hysteresis step from `previousClassification` */
+  classification: Classification;
+  /** Flight-time distribution analysis behind the flightFit metric */
+  spoof: SpoofResult;
+  /** Raw statistics behind the metric scores, e.g. for logging or training your own model */
+  features: CadenceFeatures;
+  /** Reason codes and raw statistics per metric (present when `explain` is set) */
+  explanation?: CadenceExplanation;
+}
+
+export type ValidationResult =
+  | { valid: true; data: TimingData }
+  | { valid: false; error: string };
+
+export type VerifyResult =
+  | { valid: true; result: ServerVerdict }
+  | { valid: false; error: string };
+
+const DEFAULT_WINDOW_SIZE = 50;
+const DEFAULT_MIN_SAMPLES = 20;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isInterval(value: unknown, maxMs: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= maxMs;
+}
+
+function checkIntervals(name: string, value: unknown, limits: VerifyLimits): string | null {
+  if (!Array.isArray(value)) return `${name} must be an array`;
+  if (value.length > limits.maxSamples) return `${name} exceeds ${limits.maxSamples} entries`;
+  for (let i = 0; i < value.length; i++) {
+    if (!isInterval(value[i], limits.maxIntervalMs)) {
+      return `${name}[${i}] must be a number between 0 and ${limits.maxIntervalMs}`;
+    }
+  }
+  return null;
+}
+
+function checkFlightClasses(value: unknown, flights: number): string | null {
+  if (!Array.isArray(value)) return 'flightClasses must be an array';
+  if (value.length !== flights) return 'flightClasses must align with flights';
+  for (let i = 0; i < value.length; i++) {
+    const cls: unknown = value[i];
+    if (!isCount(cls) || cls >= FLIGHT_CLASS_COUNT) return `flightClasses[${i}] is not a known class`;
+  }
+  return null;
+}
+
+function checkVirtual(value: unknown, limits: VerifyLimits): string | null {
+  if (!isRecord(value)) return 'virtual must be an object';
+  const { intervals, corrections, total } = value;
+  return checkIntervals('virtual.intervals', intervals, limits) ??
+    (isCount(corrections) ? null : 'virtual.corrections must be a non-negative integer') ??
+    (isCount(total) ? null : 'virtual.total must be a non-negative integer') ??
+    ((corrections as number) > (total as number) ? 'virtual.corrections exceeds virtual.total' : null);
+}
+
+function checkEvents(value: unknown, limits: VerifyLimits): string | null {
+  if (!Array.isArray(value)) return 'events must be an array';
+  if (value.length > limits.maxEvents) return `events exceeds ${limits.maxEvents} entries`;
+  let lastPress = -Infinity;
+  for (let i = 0; i < value.length; i++) {
+    const ev: unknown = value[i];
+    if (!isRecord(ev)) return `events[${i}] must be an object`;
+    const { pressTime, releaseTime, isCorrection, isRollover } = ev;
+    if (typeof pressTime !== 'number' || !Number.isFinite(pressTime)) {
+      return `events[${i}].pressTime must be a finite number`;
+    }
+    if (typeof releaseTime !== 'number' || !isInterval(releaseTime - pressTime, limits.maxIntervalMs)) {
+      return `events[${i}].releaseTime must follow pressTime by at most ${limits.maxIntervalMs}ms`;
+    }
+    if (typeof isCorrection !== 'boolean' || typeof isRollover !== 'boolean') {
+      return `events[${i}] flags must be booleans`;
+    }
+    if (pressTime < lastPress) return `events[${i}] is out of order`;
+    lastPress = pressTime;
+  }
+  return null;
+}
+
+/**
+ * Validate an untrusted `TimingData` payload (e.g. a parsed request body).
+ * Returns a normalized copy containing only known fields, or the first problem found.
+ */
+export function validateTimingData(
+  payload: unknown,
+  limits?: Partial<VerifyLimits>,
+): ValidationResult {
+  const lim = { ...DEFAULT_VERIFY_LIMITS, ...limits };
+  if (!isRecord(payload)) return { valid: false, error: 'payload must be an object' };
+
+  const { dwells, flights, corrections, rollovers, total, events, flightClasses, profile, virtual } = payload;
+  const error =
+    checkIntervals('dwells', dwells, lim) ??
+    checkIntervals('flights', flights, lim) ??
+    (isCount(corrections) ? null : 'corrections must be a non-negative integer') ??
+    (isCount(rollovers) ? null : 'rollovers must be a non-negative integer') ??
+    (isCount(total) ? null : 'total must be a non-negative integer') ??
+    (events !== undefined ? checkEvents(events, lim) : null) ??
+    (flightClasses !== undefined ? checkFlightClasses(flightClasses, (flights as unknown[]).length) : null) ??
+    (profile === undefined || profile === 'keyboard' || profile === 'virtual' ? null : "profile must be 'keyboard' or 'virtual'") ??
+    (virtual !== undefined ? checkVirtual(virtual, lim) : null);
+  if (error) return { valid: false, error };
+
+  const data: TimingData = {
+    dwells: [...(dwells as number[])],
+    flights: [...(flights as number[])],
+    corrections: corrections as number,
+    rollovers: rollovers as number,
+    total: total as number,
+  };
+  if (data.rollovers > data.total) return { valid: false, error: 'rollovers exceeds total' };
+  if (data.corrections > data.total) return { valid: false, error: 'corrections exceeds total' };
+
+  if (events !== undefined) {
+    data.events = (events as KeystrokeEvent[]).map((ev) => ({
+      pressTime: ev.pressTime,
+      releaseTime: ev.releaseTime,
+      isCorrection: ev.isCorrection,
+      isRollover: ev.isRollover,
+    }));
+  }
+  if (flightClasses !== undefined) data.flightClasses = [...(flightClasses as number[])];
+  if (profile !== undefined) data.profile = profile as TimingData['profile'];
+  if (virtual !== undefined) {
+    const v = virtual as VirtualTiming;
+    data.virtual = { intervals: [...v.intervals], corrections: v.corrections, total: v.total };
+  }
+  return { valid: true, data };
+}
+
+/**
+ * Re-score a `TimingData` payload produced by `cadence.snapshot()` on the client.
+ *
+ * Runs the same analyzer, spoof detection and hysteresis step as `createCadence`,
+ * so the verdict doesn't depend on a client-reported `CadenceResult`. As on the
+ * client, an event log longer than the dwell window replaces the ring buffer data.
+ */
+export function verifyTimingData(
+  payload: unknown,
+  options?: VerifyOptions,
+): VerifyResult {
+  const validation = validateTimingData(payload, options?.limits);
+  if (!validation.valid) return validation;
+  const data = validation.data;
+
+  const windowSize = options?.windowSize ?? DEFAULT_WINDOW_SIZE;
+  const minSamples = options?.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const thresholds = { ...baseThresholds(options?.calibration), ...options?.classificationThresholds };
+  const mobileMode = options?.mobileMode ?? 'off';
+  // The client's profile is only trusted as far as the server's own mobileMode allows
+  const virtual = mobileMode === 'always' || (mobileMode === 'auto' && data.profile === 'virtual');
+  const analyzer = createAnalyzer({
+    minSamples,
+    weights: virtual
+      ? { ...DEFAULT_MOBILE_WEIGHTS, ...options?.mobileWeights }
+      : { ...DEFAULT_WEIGHTS, ...options?.calibration?.weights, ...options?.weights },
+    metrics: options?.metrics,
+    customWeights: options?.customWeights,
+    profile: virtual ? 'virtual' : 'keyboard',
+    explain: options?.explain,
+    // Profiles are fitted on physical keyboards
+    parameters: virtual ? undefined : options?.calibration?.parameters,
+  });
+
+  // Virtual keyboards: dwell/flight are meaningless, score inter-input intervals as the client does
+  const timing = virtual
+    ? {
+      dwells: [],
+      flights: data.virtual?.intervals.slice(-windowSize) ?? [],
+      corrections: data.virtual?.corrections ?? 0,
+      rollovers: 0,
+      total: data.virtual?.total ?? 0,
+      flightClasses: undefined,
+    }
+    : windowTiming(data, windowSize);
+  const { flightClasses } = timing;
+
+  const base = analyzer.analyze(
+    timing.dwells,
+    timing.flights,
+    timing.corrections,
+    timing.rollovers,
+    timing.total,
+    { events: data.events, flightClasses },
+  );
+  const classification = classify(
+    base.score,
+    options?.previousClassification ?? 'unknown',
+    thresholds,
+  );
+
+  return {
+    valid: true,
+    result: { ...base, classification, spoof: detectSpoof(timing.flights, flightClasses) },
+  };
+}
@@ -0,0 +1,255 @@
+import { createEffect, createSignal, onCleanup, untrack, type Accessor } from 'solid-js';
+import { createCadence } from '../index';
+import type { Cadence, CadenceConfig, CadenceLiveConfig, CadenceResult, CadenceSignals, Classification, CustomMetricScores, MetricScores, TimingData } from '../types';
+
+export type {
+  Cadence,
+  CadenceConfig,
+  CadenceResult,
+  CadenceSignals,
+  Classification,
+  ClassificationThresholds,
+  CompositionResult,
+  CustomMetric,
+  CustomMetricScores,
+  KeystrokeEvent,
+  MetricInput,
+  MetricWeights,
+  MobileMode,
+  MetricScores,
+  TimingData,
+} from '../types';
+export { DEFAULT_WEIGHTS, DEFAULT_MOBILE_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS, NO_DATA } from '../index';
+
+export interface HumanCadenceOptions {
+  /** Sliding window size. Default: 50 */
+  windowSize?: number;
+  /** Minimum samples for confident score. Default: 20 */
+  minSamples?: number;
+  /** Custom metric weights. */
+  weights?: CadenceConfig['weights'];
+  /** Additional metrics scored alongside the built-ins. */
+  metrics?: CadenceConfig['metrics'];
+  /** Weights for custom metrics, keyed by name. */
+  customWeights?: CadenceConfig['customWeights'];
+  /** Virtual keyboard handling. Default: 'off' */
+  mobileMode?: CadenceConfig['mobileMode'];
+  /** Record per-keystroke event log for offline analysis. Default: false */
+  recordEvents?: boolean;
+  /** Custom thresholds for hysteresis classification. */
+  classificationThresholds?: CadenceConfig['classificationThresholds'];
+}
+
+export interface HumanCadence {
+  /** Ref callback — `ref={cadence.ref}` on any input, textarea, or contenteditable element. */
+  ref: (node: HTMLElement | null) => void;
+  /** Latest full result. */
+  result: Accessor<CadenceResult>;
+  /** Current humanity score (0.0–1.0). */
+  score: Accessor<number>;
+  /** True when enough samples have been collected. */
+  confident: Accessor<boolean>;
+  /** Individual metric scores. */
+  metrics: Accessor<MetricScores & CustomMetricScores>;
+  /** Contextual signals (paste, synthetic events, etc.). */
+  signals: Accessor<CadenceSignals>;
+  /** Number of samples in current window. */
+  sampleCount: Accessor<number>;
+  /** Classification with hysteresis: 'bot', 'unknown', or 'human'. */
+  classification: Accessor<Classification>;
+  /** Reset all collected data. */
+  reset: () => void;
+  /** Return a plain-object snapshot of raw timing buffers, or null if not attached. */
+  snapshot: () => TimingData | null;
+}
+
+/** Directive value: callback or config with callback. */
+export type HumanCadenceDirectiveValue = ((result: CadenceResult) => void) | (HumanCadenceOptions & {
+  onScore: (result: CadenceResult) => void;
+});
+
+declare module 'solid-js' {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace JSX {
+    interface Directives {
+      humanCadence: HumanCadenceDirectiveValue;
+    }
+  }
+}
+
+function neutralResult(): CadenceResult {
+  return {
+    score: 0.5,
+    metrics: {
+      dwellVariance: 0.5,
+      flightFit: 0.5,
+      timingEntropy: 0.5,
+      correctionRatio: 0.5,
+      burstRegularity: 0.5,
+      rolloverRate: 0.5,
+    },
+    sampleCount: 0,
+    confident: false,
+    signals: {
+      pasteDetected: false,
+      syntheticEvents: 0,
+      insufficientData: true,
+      inputWithoutKeystrokes: false,
+      inputWithoutKeystrokeCount: 0,
+      virtualKeyboard: false,
+      compositionSessions: 0,
+    },
+    classification: 'unknown',
+  };
+}
+
+function toConfig(options: HumanCadenceOptions | undefined, onScore: (result: CadenceResult) => void): CadenceConfig {
+  return {
+    windowSize: options?.windowSize,
+    minSamples: options?.minSamples,
+    weights: options?.weights,
+    metrics: options?.metrics,
+    customWeights: options?.customWeights,
+    mobileMode: options?.mobileMode,
+    recordEvents: options?.recordEvents,
+    classificationThresholds: options?.classificationThresholds,
+    scheduling: 'idle',
+    onScore,
+  };
+}
+
+/** Scoring settings a live instance can take via configure(). */
+function liveConfig(options: HumanCadenceOptions | undefined): CadenceLiveConfig {
+  return {
+    windowSize: options?.windowSize,
+    minSamples: options?.minSamples,
+    weights: options?.weights ?? {},
+    customWeights: options?.customWeights ?? {},
+    classificationThresholds: options?.classificationThresholds ?? {},
+  };
+}
+
+/** Options fixed at creation as a comparable key — custom metrics by name and weight. */
+function fixedKey(options: HumanCadenceOptions | undefined): string {
+  return JSON.stringify([options?.metrics?.map((m) => [m.name, m.weight]), options?.mobileMode, options?.recordEvents]);
+}
+
+/**
+ * Follow `read` in an effect: scoring settings go to the live instance via
+ * configure(), a change to the fixed options calls `restart`. Compared by
+ * value, so an accessor returning a fresh object literal is harmless.
+ */
+function trackOptions(
+  read: () => HumanCadenceOptions | undefined,
+  cadence: () => Cadence | null,
+  restart: () => void,
+) {
+  const initial = untrack(read);
+  let fixed = fixedKey(initial);
+  let live = JSON.stringify(liveConfig(initial));
+  createEffect(() => {
+    const options = read();
+    const nextFixed = fixedKey(options);
+    const nextLive = liveConfig(options);
+    const liveChanged = JSON.stringify(nextLive) !== live;
+    live = JSON.stringify(nextLive);
+    if (nextFixed !== fixed) {
+      fixed = nextFixed;
+      restart();
+    } else if (liveChanged) {
+      cadence()?.configure(nextLive);
+    }
+  });
+}
+
+function readOptions(options: HumanCadenceOptions | Accessor<HumanCadenceOptions | undefined> | undefined) {
+  return typeof options === 'function' ? options() : options;
+}
+
+/**
+ * Signal-based primitive for keystroke cadence analysis. Call inside a
+ * component (or any reactive owner) — the instance is destroyed with it.
+ * Options may be an accessor: scoring settings are applied in place via
+ * `configure()`, while `metrics`, `mobileMode` or `recordEvents` restart
+ * the analysis.
+ */
+export function createHumanCadence(
+  options?: HumanCadenceOptions | Accessor<HumanCadenceOptions | undefined>,
+): HumanCadence {
+  const [result, setResult] = createSignal<CadenceResult>(neutralResult());
+  let cadence: Cadence | null = null;
+  let attached: HTMLElement | null = null;
+
+  function ref(node: HTMLElement | null) {
+    cadence?.destroy();
+    cadence = null;
+    attached = node;
+    if (!node) return;
+    cadence = createCadence(node, toConfig(untrack(() => readOptions(options)), setResult));
+    cadence.start();
+  }
+
+  trackOptions(() => readOptions(options), () => cadence, () => {
+    if (!cadence) return;
+    ref(attached);
+    setResult(neutralResult());
+  });
+
+  onCleanup(() => ref(null));
+
+  function reset() {
+    cadence?.reset();
+    setResult(neutralResult());
+  }
+
+  function snapshot(): TimingData | null {
+    return cadence?.snapshot() ?? null;
+  }
+
+  return {
+    ref,
+    result,
+    score: () => result().score,
+    confident: () => result().confident,
+    metrics: () => result().metrics,
+    signals: () => result().signals,
+    sampleCount: () => result().sampleCount,
+    classification: () => result().classification,
+    reset,
+    snapshot,
+  };
+}
+
+function bindingOptions(binding: HumanCadenceDirectiveValue): HumanCadenceOptions | undefined {
+  return typeof binding === 'function' ? undefined : binding;
+}
+
+/**
+ * Solid directive for keystroke cadence analysis.
+ *
+ * Usage:
+ *   <input use:humanCadence={onCadenceUpdate} />
+ *   <input use:humanCadence={{ onScore: handler, minSamples: 30 }} />
+ *
+ * The value is tracked like createHumanCadence's options; a new callback is
+ * picked up in place. The instance is destroyed with the element's owner.
+ */
+export function humanCadence(node: HTMLElement, value: Accessor<HumanCadenceDirectiveValue>): void {
+  let binding = untrack(value);
+  const onScore = (result: CadenceResult) => {
+    if (typeof binding === 'function') binding(result);
+    else binding.onScore(result);
+  };
+  let cadence = createCadence(node, toConfig(bindingOptions(binding), onScore));
+  cadence.start();
+
+  trackOptions(() => {
+    binding = value();
+    return bindingOptions(binding);
+  }, () => cadence, () => {
+    cadence.destroy();
+    cadence = createCadence(node, toConfig(bindingOptions(binding), onScore));
+    cadence.start();
+  });
+  onCleanup(() => cadence.destroy());
+}
@@ -0,0 +1,203 @@
+import { writable, type Readable } from 'svelte/store';
+import type { ActionReturn } from 'svelte/action';
+import { createCadence } from '../index';
+import type { Cadence, CadenceConfig, CadenceLiveConfig, CadenceResult, TimingData } from '../types';
+
+export type {
+  Cadence,
+  CadenceConfig,
+  CadenceResult,
+  CadenceSignals,
+  Classification,
+  ClassificationThresholds,
+  CompositionResult,
+  CustomMetric,
+  CustomMetricScores,
+  KeystrokeEvent,
+  MetricInput,
+  MetricWeights,
+  MobileMode,
+  MetricScores,
+  TimingData,
+} from '../types';
+export { DEFAULT_WEIGHTS, DEFAULT_MOBILE_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS, NO_DATA } from '../index';
+
+export interface HumanCadenceOptions {
+  /** Sliding window size. Default: 50 */
+  windowSize?: number;
+  /** Minimum samples for confident score. Default: 20 */
+  minSamples?: number;
+  /** Custom metric weights. */
+  weights?: CadenceConfig['weights'];
+  /** Additional metrics scored alongside the built-ins. */
+  metrics?: CadenceConfig['metrics'];
+  /** Weights for custom metrics, keyed by name. */
+  customWeights?: CadenceConfig['customWeights'];
+  /** Virtual keyboard handling. Default: 'off' */
+  mobileMode?: CadenceConfig['mobileMode'];
+  /** Record per-keystroke event log for offline analysis. Default: false */
+  recordEvents?: boolean;
+  /** Custom thresholds for hysteresis classification. */
+  classificationThresholds?: CadenceConfig['classificationThresholds'];
+}
+
+/** Action parameter: callback or config with callback. */
+export type HumanCadenceParams = ((result: CadenceResult) => void) | (HumanCadenceOptions & {
+  onScore: (result: CadenceResult) => void;
+});
+
+export interface HumanCadenceStore extends Readable<CadenceResult> {
+  /** Svelte action — `use:cadence.action` on an input, textarea, or contenteditable element. */
+  action: (node: HTMLElement) => ActionReturn;
+  /** Reset all collected data. */
+  reset: () => void;
+  /** Return a plain-object snapshot of raw timing buffers, or null if not attached. */
+  snapshot: () => TimingData | null;
+}
+
+function neutralResult(): CadenceResult {
+  return {
+    score: 0.5,
+    metrics: {
+      dwellVariance: 0.5,
+      flightFit: 0.5,
+      timingEntropy: 0.5,
+      correctionRatio: 0.5,
+      burstRegularity: 0.5,
+      rolloverRate: 0.5,
+    },
+    sampleCount: 0,
+    confident: false,
+    signals: {
+      pasteDetected: false,
+      syntheticEvents: 0,
+      insufficientData: true,
+      inputWithoutKeystrokes: false,
+      inputWithoutKeystrokeCount: 0,
+      virtualKeyboard: false,
+      compositionSessions: 0,
+    },
+    classification: 'unknown',
+  };
+}
+
+function toConfig(options: HumanCadenceOptions | undefined, onScore: (result: CadenceResult) => void): CadenceConfig {
+  return {
+    windowSize: options?.windowSize,
+    minSamples: options?.minSamples,
+    weights: options?.weights,
+    metrics: options?.metrics,
+    customWeights: options?.customWeights,
+    mobileMode: options?.mobileMode,
+    recordEvents: options?.recordEvents,
+    classificationThresholds: options?.classificationThresholds,
+    scheduling: 'idle',
+    onScore,
+  };
+}
+
+/** Scoring settings a live instance can take via configure(). */
+function liveConfig(options: HumanCadenceOptions): CadenceLiveConfig {
+  return {
+    windowSize: options.windowSize,
+    minSamples: options.minSamples,
+    weights: options.weights ?? {},
+    customWeights: options.customWeights ?? {},
+    classificationThresholds: options.classificationThresholds ?? {},
+  };
+}
+
+/**
+ * Options fixed at creation — the rest can be applied via configure().
+ * Custom metrics are compared by name and weight: an inline array holds
+ * new metric objects on every update.
+ */
+function sameFixedOptions(a: HumanCadenceOptions, b: HumanCadenceOptions): boolean {
+  return metricsKey(a.metrics) === metricsKey(b.metrics)
+    && a.mobileMode === b.mobileMode
+    && a.recordEvents === b.recordEvents;
+}
+
+function metricsKey(metrics: HumanCadenceOptions['metrics']): string {
+  return JSON.stringify(metrics?.map((m) => [m.name, m.weight]));
+}
+
+/**
+ * Svelte action for keystroke cadence analysis.
+ *
+ * Usage:
+ *   <input use:humanCadence={onCadenceUpdate} />
+ *   <input use:humanCadence={{ onScore: handler, minSamples: 30 }} />
+ */
+export function humanCadence(node: HTMLElement, params: HumanCadenceParams): ActionReturn<HumanCadenceParams> {
+  let current = params;
+  let options: HumanCadenceOptions = typeof params === 'function' ? {} : params;
+  const onScore = (result: CadenceResult) => {
+    if (typeof current === 'function') current(result);
+    else current.onScore(result);
+  };
+
+  let cadence: Cadence = createCadence(node, toConfig(options, onScore));
+  cadence.start();
+
+  return {
+    update(next) {
+      current = next;
+      const nextOptions = typeof next === 'function' ? {} : next;
+      const previous = options;
+      options = nextOptions;
+      // A new callback and scoring settings are picked up in place. Compared
+      // by value — an inline object literal is a new object on every update.
+      if (sameFixedOptions(previous, options)) {
+        const live = liveConfig(options);
+        if (JSON.stringify(live) !== JSON.stringify(liveConfig(previous))) cadence.configure(live);
+        return;
+      }
+      cadence.destroy();
+      cadence = createCadence(node, toConfig(options, onScore));
+      cadence.start();
+    },
+    destroy() {
+      cadence.destroy();
+    },
+  };
+}
+
+/**
+ * Readable store of the latest CadenceResult, with an action to attach it.
+ *
+ * Usage:
+ *   const cadence = createHumanCadence({ minSamples: 30 });
+ *   <input use:cadence.action />
+ *   {$cadence.classification}
+ */
+export function createHumanCadence(options?: HumanCadenceOptions): HumanCadenceStore {
+  const store = writable<CadenceResult>(neutralResult());
+  let cadence: Cadence | null = null;
+
+  function action(node: HTMLElement): ActionReturn {
+    // One element at a time — attaching elsewhere moves the analysis
+    cadence?.destroy();
+    const instance = createCadence(node, toConfig(options, store.set));
+    instance.start();
+    cadence = instance;
+
+    return {
+      destroy() {
+        instance.destroy();
+        if (cadence === instance) cadence = null;
+      },
+    };
+  }
+
+  function reset() {
+    cadence?.reset();
+    store.set(neutralResult());
+  }
+
+  function snapshot(): TimingData | null {
+    return cadence?.snapshot() ?? null;
+  }
+
+  return { subscribe: store.subscribe, action, reset, snapshot };
+}
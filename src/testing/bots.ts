@@ -0,0 +1,165 @@
+import { createRng, logNormalRandom, normalRandom, pick, type Rng } from './random';
+import { buildScript, DEFAULT_TEXT, textKeys, type KeystrokeScript } from './script';
+import type { TimingData } from '../types';
+
+const DEFAULT_COUNT = 50;
+const DEFAULT_SEED = 42;
+const DEFAULT_MARKOV_STATES = 8;
+
+export interface BotOptions {
+  /** Keystrokes to generate. Default: 50 */
+  count?: number;
+  /** PRNG seed — the same seed gives the same script. Default: 42 */
+  seed?: number;
+  /** Text the bot types, repeated as needed. Default: a pangram */
+  text?: string;
+}
+
+export interface ConstantBotOptions extends BotOptions {
+  /** Key hold time (ms). Default: 50 */
+  dwell?: number;
+  /** Release-to-press gap (ms). Default: 100 */
+  flight?: number;
+}
+
+export interface RolloverBotOptions extends BotOptions {
+  /** Share of keys pressed before the previous one is released. Default: 0.3 */
+  rate?: number;
+  /** How long the keys overlap (ms). Default: 20 */
+  overlap?: number;
+}
+
+export interface SourceBotOptions extends BotOptions {
+  /** A human session to imitate, e.g. a `cadence.snapshot()` */
+  source: TimingData;
+}
+
+export interface MarkovBotOptions extends SourceBotOptions {
+  /** Flight bins — chain states. Default: 8 */
+  states?: number;
+}
+
+function generate(
+  options: BotOptions | undefined,
+  timing: (rng: Rng, i: number) => [dwell: number, gap: number],
+): KeystrokeScript {
+  const count = options?.count ?? DEFAULT_COUNT;
+  const rng = createRng(options?.seed ?? DEFAULT_SEED);
+  const dwells: number[] = [];
+  const gaps: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const [dwell, gap] = timing(rng, i);
+    dwells.push(dwell);
+    gaps.push(gap);
+  }
+  return buildScript(textKeys(options?.text ?? DEFAULT_TEXT, count), { dwells, gaps });
+}
+
+function requireSource(source: TimingData, name: string) {
+  if (source.dwells.length === 0 || source.flights.length === 0) {
+    throw new Error(`${name}() needs a source with dwells and flights`);
+  }
+}
+
+/** `setInterval`-style bot: every key held and spaced identically. */
+export function constantBot(options?: ConstantBotOptions): KeystrokeScript {
+  const dwell = options?.dwell ?? 50;
+  const flight = options?.flight ?? 100;
+  return generate(options, () => [dwell, flight]);
+}
+
+/** `base + Math.random() * range` jitter on dwells and flights. */
+export function jitterBot(options?: BotOptions): KeystrokeScript {
+  return generate(options, (rng) => [30 + rng() * 40, 80 + rng() * 60]);
+}
+
+/** Normally distributed dwells and flights. */
+export function gaussianBot(options?: BotOptions): KeystrokeScript {
+  return generate(options, (rng) => [
+    Math.max(10, 55 + normalRandom(rng) * 15),
+    Math.max(10, 120 + normalRandom(rng) * 30),
+  ]);
+}
+
+/**
+ * Log-normal dwells and flights — the right distribution shape, drawn
+ * independently, so no serial correlation, bursts, corrections or rollovers.
+ */
+export function logNormalBot(options?: BotOptions): KeystrokeScript {
+  return generate(options, (rng) => [
+    Math.max(10, logNormalRandom(rng, 35, 0.35)),
+    Math.max(15, logNormalRandom(rng, 110, 0.5)),
+  ]);
+}
+
+/** Gaussian timing with overlapping key presses injected at a fixed rate. */
+export function rolloverBot(options?: RolloverBotOptions): KeystrokeScript {
+  const rate = options?.rate ?? 0.3;
+  const overlap = options?.overlap ?? 20;
+  return generate(options, (rng) => {
+    const dwell = Math.max(10, 55 + normalRandom(rng) * 15);
+    const flight = Math.max(10, 120 + normalRandom(rng) * 30);
+    return [dwell, rng() < rate ? -overlap : flight];
+  });
+}
+
+/**
+ * Plays a recorded human session back verbatim — no corrections or
+ * rollovers. Repeats the recording when `count` exceeds it.
+ */
+export function replayBot(options: SourceBotOptions): KeystrokeScript {
+  const { source } = options;
+  requireSource(source, 'replayBot');
+  return generate({ ...options, count: options.count ?? source.dwells.length }, (_, i) => [
+    source.dwells[i % source.dwells.length],
+    source.flights[(i - 1 + source.flights.length) % source.flights.length],
+  ]);
+}
+
+/** Draws dwells and flights from a human session with replacement. */
+export function resampleBot(options: SourceBotOptions): KeystrokeScript {
+  const { source } = options;
+  requireSource(source, 'resampleBot');
+  return generate(options, (rng) => [pick(rng, source.dwells), pick(rng, source.flights)]);
+}
+
+/**
+ * Learns a Markov chain over binned flights of a human session and walks
+ * it, so slow keys tend to follow slow keys as in the source. Dwells are
+ * resampled.
+ */
+export function markovBot(options: MarkovBotOptions): KeystrokeScript {
+  const { source } = options;
+  requireSource(source, 'markovBot');
+  const sorted = [...source.flights].sort((a, b) => a - b);
+  const states = Math.max(1, Math.min(options.states ?? DEFAULT_MARKOV_STATES, sorted.length));
+
+  // Quantile bins: each state covers an equal share of the source flights
+  const bins = Array.from({ length: states }, (_, s) => sorted.slice(
+    Math.floor((s * sorted.length) / states),
+    Math.floor(((s + 1) * sorted.length) / states),
+  ));
+  const stateOf = (flight: number) => bins.findIndex((bin) => flight <= bin[bin.length - 1]);
+
+  const transitions = Array.from({ length: states }, () => new Array<number>(states).fill(0));
+  for (let i = 1; i < source.flights.length; i++) {
+    transitions[stateOf(source.flights[i - 1])][stateOf(source.flights[i])]++;
+  }
+
+  let state = stateOf(source.flights[0]);
+  return generate(options, (rng) => {
+    const row = transitions[state];
+    const total = row.reduce((sum, n) => sum + n, 0);
+    if (total === 0) {
+      // Never left this state in the source — restart anywhere
+      state = Math.floor(rng() * states);
+    } else {
+      let r = rng() * total;
+      state = row.findIndex((n) => (r -= n) < 0);
+      if (state < 0) state = states - 1;
+    }
+    const bin = bins[state];
+    const flight = bin[0] + rng() * (bin[bin.length - 1] - bin[0]);
+    return [pick(rng, source.dwells), flight];
+  });
+}
@@ -0,0 +1,31 @@
+export type { TimingData } from '../types';
+export type { Rng } from './random';
+export type {
+  DispatchOptions,
+  KeystrokeScript,
+  ScriptTimings,
+  SimulatedKeystroke,
+  ToTimingDataOptions,
+} from './script';
+export type {
+  BotOptions,
+  ConstantBotOptions,
+  MarkovBotOptions,
+  RolloverBotOptions,
+  SourceBotOptions,
+} from './bots';
+export type { HumanTypistOptions, TypingSpeed, TypistProfile } from './typist';
+
+export { createRng } from './random';
+export { buildScript, codeForKey, dispatchScript, scriptDuration, toTimingData } from './script';
+export {
+  constantBot,
+  gaussianBot,
+  jitterBot,
+  logNormalBot,
+  markovBot,
+  replayBot,
+  resampleBot,
+  rolloverBot,
+} from './bots';
+export { humanTypist, TYPING_SPEEDS } from './typist';
@@ -0,0 +1,31 @@
+/** A seeded source of uniform numbers in [0, 1). */
+export type Rng = () => number;
+
+/** Seeded PRNG (xorshift32) — the same seed always gives the same sequence. */
+export function createRng(seed: number): Rng {
+  // xorshift has a fixed point at zero
+  let s = seed | 0 || 0x9e3779b9;
+  return () => {
+    s ^= s << 13;
+    s ^= s >> 17;
+    s ^= s << 5;
+    return (s >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample (Box–Muller). */
+export function normalRandom(rng: Rng): number {
+  const u1 = rng();
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1 || 0.0001)) * Math.cos(2 * Math.PI * u2);
+}
+
+/** Log-normal sample with the given median (ms) and log-space sigma. */
+export function logNormalRandom(rng: Rng, median: number, sigma: number): number {
+  return median * Math.exp(sigma * normalRandom(rng));
+}
+
+/** Uniform pick from a non-empty array. */
+export function pick<T>(rng: Rng, values: readonly T[]): T {
+  return values[Math.floor(rng() * values.length)];
+}
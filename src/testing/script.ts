@@ -0,0 +1,191 @@
+import { createObserver } from '../observer';
+import { createReplayTarget } from '../replay';
+import type { TimingData } from '../types';
+
+/** One simulated key press. Times are in ms from the start of the script. */
+export interface SimulatedKeystroke {
+  /** `KeyboardEvent.key` — a character, or 'Backspace' for a correction */
+  key: string;
+  /** `KeyboardEvent.code` — physical key, read by the digraph model */
+  code: string;
+  press: number;
+  release: number;
+}
+
+/** Keystrokes in press order. */
+export type KeystrokeScript = SimulatedKeystroke[];
+
+/**
+ * Per-keystroke timing for buildScript. `gaps[i]` is the time from the
+ * release of key i-1 to the press of key i — negative for a rollover
+ * (`gaps[0]` is ignored).
+ */
+export interface ScriptTimings {
+  dwells: number[];
+  gaps: number[];
+}
+
+// The observer reads a timestamp of 0 as "no key yet"
+const SCRIPT_ORIGIN = 1000;
+
+export const DEFAULT_TEXT = 'the quick brown fox jumps over the lazy dog ';
+
+const PUNCTUATION_CODES: Record<string, string> = {
+  ' ': 'Space', '.': 'Period', ',': 'Comma', ';': 'Semicolon', '\'': 'Quote', '-': 'Minus', '/': 'Slash',
+};
+
+/** `KeyboardEvent.code` for a key on a US layout, or '' when unknown. */
+export function codeForKey(key: string): string {
+  if (key === 'Backspace') return key;
+  if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+  if (/^[0-9]$/.test(key)) return `Digit${key}`;
+  return PUNCTUATION_CODES[key] ?? '';
+}
+
+/** The characters of `text`, repeated to `count` keys. */
+export function textKeys(text: string, count: number): string[] {
+  const chars = Array.from(text.length > 0 ? text : DEFAULT_TEXT);
+  return Array.from({ length: count }, (_, i) => chars[i % chars.length]);
+}
+
+/** Lay keys out on a timeline from their dwells and release-to-press gaps. */
+export function buildScript(keys: string[], timings: ScriptTimings): KeystrokeScript {
+  const script: KeystrokeScript = [];
+  let previousRelease = 0;
+  let previousPress = -Infinity;
+  keys.forEach((key, i) => {
+    // A rollover still presses after the previous key went down
+    const press = i === 0 ? 0 : Math.max(previousPress + 1, previousRelease + timings.gaps[i]);
+    const release = press + Math.max(1, timings.dwells[i]);
+    script.push({ key, code: codeForKey(key), press, release });
+    previousPress = press;
+    previousRelease = release;
+  });
+  return script;
+}
+
+interface ScriptStep {
+  time: number;
+  type: 'keydown' | 'keyup';
+  keystroke: SimulatedKeystroke;
+}
+
+/** Keydowns and keyups in time order; a release ties before a press. */
+function scriptSteps(script: KeystrokeScript): ScriptStep[] {
+  const steps: ScriptStep[] = [];
+  for (const keystroke of script) {
+    steps.push({ time: keystroke.press, type: 'keydown', keystroke });
+    steps.push({ time: keystroke.release, type: 'keyup', keystroke });
+  }
+  return steps.sort((a, b) => a.time - b.time || (a.type === 'keyup' ? -1 : 0) - (b.type === 'keyup' ? -1 : 0));
+}
+
+/** Length of a script in ms, from the first press to the last release. */
+export function scriptDuration(script: KeystrokeScript): number {
+  return script.reduce((end, keystroke) => Math.max(end, keystroke.release), 0);
+}
+
+export interface ToTimingDataOptions {
+  /** Keystrokes kept, as `windowSize` on the client. Default: every keystroke */
+  windowSize?: number;
+  /** Include the per-keystroke event log. Default: false */
+  recordEvents?: boolean;
+  /** Include digraph transition classes. Default: false */
+  digraphModel?: boolean;
+}
+
+/**
+ * The `TimingData` a cadence instance would snapshot after this script was
+ * typed into it — the observer itself measures it, without a DOM.
+ */
+export function toTimingData(script: KeystrokeScript, options?: ToTimingDataOptions): TimingData {
+  const { target, emit } = createReplayTarget();
+  let now = 0;
+  const observer = createObserver(target, {
+    windowSize: options?.windowSize ?? Math.max(1, script.length),
+    recordEvents: options?.recordEvents,
+    digraphModel: options?.digraphModel,
+    clock: () => now,
+  });
+  observer.start();
+  for (const { time, type, keystroke } of scriptSteps(script)) {
+    now = SCRIPT_ORIGIN + time;
+    emit(type, { key: keystroke.key, code: keystroke.code, keyCode: 0, repeat: false });
+  }
+  const state = observer.getState();
+  const data: TimingData = {
+    dwells: state.dwells.toArray(),
+    flights: state.flights.toArray(),
+    corrections: state.corrections,
+    rollovers: state.rollovers,
+    total: state.total,
+    ...(state.events && { events: [...state.events] }),
+    ...(state.flightClasses && { flightClasses: state.flightClasses.toArray() }),
+  };
+  observer.destroy();
+  return data;
+}
+
+export interface DispatchOptions {
+  /** `performance.now()` value of the first press. Default: the current time, or the end of the previous dispatch if later */
+  start?: number;
+  /** Edit the value of an input or textarea target and fire `input`, as a browser does. Default: true */
+  editValue?: boolean;
+}
+
+/**
+ * Run `fn` with `performance.now()` reading the clock it is handed, then
+ * restore the original. Listeners on a real target read the global clock.
+ */
+function withClock<T>(fn: (setTime: (time: number) => void) => T): T {
+  let clock = 0;
+  const ownNow = Object.getOwnPropertyDescriptor(performance, 'now');
+  Object.defineProperty(performance, 'now', { configurable: true, writable: true, value: () => clock });
+  try {
+    return fn((time) => { clock = time; });
+  } finally {
+    if (ownNow) Object.defineProperty(performance, 'now', ownNow);
+    else delete (performance as { now?: () => number }).now;
+  }
+}
+
+// Successive dispatches continue on one timeline
+let timelineEnd = -Infinity;
+
+function editValue(field: HTMLInputElement | HTMLTextAreaElement, key: string) {
+  const deleting = key === 'Backspace';
+  if (!deleting && key.length !== 1) return;
+  field.value = deleting ? field.value.slice(0, -1) : field.value + key;
+  const init = { bubbles: true, inputType: deleting ? 'deleteContentBackward' : 'insertText', data: deleting ? null : key };
+  field.dispatchEvent(typeof InputEvent === 'undefined' ? new Event('input', init) : new InputEvent('input', init));
+}
+
+function isTextField(target: EventTarget): target is HTMLInputElement | HTMLTextAreaElement {
+  return (typeof HTMLInputElement !== 'undefined' && target instanceof HTMLInputElement)
+    || (typeof HTMLTextAreaElement !== 'undefined' && target instanceof HTMLTextAreaElement);
+}
+
+/**
+ * Dispatch a script onto `target` as bubbling `KeyboardEvent`s, with
+ * `performance.now()` pinned to each event's time, so listeners measure
+ * the script's timing. Runs synchronously; returns the time of the last
+ * event. Dispatched events are untrusted — `signals.syntheticEvents`
+ * counts them.
+ */
+export function dispatchScript(target: EventTarget, script: KeystrokeScript, options?: DispatchOptions): number {
+  const start = options?.start ?? Math.max(performance.now(), timelineEnd);
+  const edit = (options?.editValue ?? true) && isTextField(target);
+  const end = withClock((setTime) => {
+    let time = start;
+    for (const step of scriptSteps(script)) {
+      time = start + step.time;
+      setTime(time);
+      const { key, code } = step.keystroke;
+      const event = new KeyboardEvent(step.type, { key, code, bubbles: true, cancelable: true });
+      if (target.dispatchEvent(event) && edit && step.type === 'keydown') editValue(target, key);
+    }
+    return time;
+  });
+  timelineEnd = end;
+  return end;
+}
@@ -0,0 +1,119 @@
+import {
+  FLIGHT_CLASS_ALTERNATE, FLIGHT_CLASS_OTHER, FLIGHT_CLASS_ROW_CHANGE, FLIGHT_CLASS_SAME_ROW, keyPosition, transitionClass,
+} from '../digraph';
+import { createRng, logNormalRandom, normalRandom, pick } from './random';
+import { codeForKey, DEFAULT_TEXT, type KeystrokeScript } from './script';
+
+const DEFAULT_COUNT = 50;
+const DEFAULT_SEED = 123;
+const DEFAULT_CORRECTION_RATE = 0.06;
+
+// Tempo drifts slowly (AR(1) in log space), so consecutive flights correlate
+const TEMPO_PERSISTENCE = 0.6;
+const TEMPO_SIGMA = 0.2;
+
+// Flight multipliers per key transition: alternating hands is fastest, a row change on one hand slowest
+const TRANSITION_FACTORS: Record<number, number> = {
+  [FLIGHT_CLASS_SAME_ROW]: 1,
+  [FLIGHT_CLASS_ROW_CHANGE]: 1.35,
+  [FLIGHT_CLASS_ALTERNATE]: 0.75,
+  [FLIGHT_CLASS_OTHER]: 1.1,
+};
+
+// ── Corrections: a wrong key, a beat to notice it, Backspace, the right key ──
+const TYPO_KEYS = 'asdfghjklqwertyuiopzxcvbnm';
+const NOTICE_MEDIAN_MS = 250;
+
+/** Timing of one simulated typist. Times in ms. */
+export interface TypistProfile {
+  /** Median release-to-press gap within a word */
+  flightMedian: number;
+  /** Log-space spread of flights */
+  flightSigma: number;
+  /** Median key hold time */
+  dwellMedian: number;
+  /** Log-space spread of dwells */
+  dwellSigma: number;
+  /** Chance the next key goes down before the previous one is released */
+  rolloverRate: number;
+  /** Chance of a thinking pause after a word */
+  pauseRate: number;
+  /** Median pause length */
+  pauseMedian: number;
+}
+
+export type TypingSpeed = 'slow' | 'average' | 'fast';
+
+/** Presets from hunt-and-peck (~25 WPM) to touch typing (~80 WPM). */
+export const TYPING_SPEEDS: Readonly<Record<TypingSpeed, TypistProfile>> = {
+  slow: { flightMedian: 260, flightSigma: 0.45, dwellMedian: 110, dwellSigma: 0.35, rolloverRate: 0.1, pauseRate: 0.35, pauseMedian: 900 },
+  average: { flightMedian: 130, flightSigma: 0.45, dwellMedian: 90, dwellSigma: 0.3, rolloverRate: 0.15, pauseRate: 0.25, pauseMedian: 600 },
+  fast: { flightMedian: 70, flightSigma: 0.5, dwellMedian: 80, dwellSigma: 0.3, rolloverRate: 0.35, pauseRate: 0.15, pauseMedian: 450 },
+};
+
+export interface HumanTypistOptions {
+  /** Keystrokes to generate, corrections included. Default: 50 */
+  count?: number;
+  /** PRNG seed — the same seed gives the same script. Default: 123 */
+  seed?: number;
+  /** Text to type, repeated as needed. Default: a pangram */
+  text?: string;
+  /** A speed preset or a full profile. Default: 'average' */
+  speed?: TypingSpeed | TypistProfile;
+  /** Share of characters mistyped and then corrected. Default: 0.06 */
+  correctionRate?: number;
+}
+
+/**
+ * A seeded human typist: log-normal flights shaped by key transitions and
+ * a drifting tempo, word bursts with thinking pauses, typos fixed with
+ * Backspace, and overlapping key presses.
+ */
+export function humanTypist(options?: HumanTypistOptions): KeystrokeScript {
+  const count = options?.count ?? DEFAULT_COUNT;
+  const rng = createRng(options?.seed ?? DEFAULT_SEED);
+  const profile = typeof options?.speed === 'object' ? options.speed : TYPING_SPEEDS[options?.speed ?? 'average'];
+  const correctionRate = options?.correctionRate ?? DEFAULT_CORRECTION_RATE;
+  const chars = Array.from(options?.text || DEFAULT_TEXT);
+
+  const script: KeystrokeScript = [];
+  let tempo = 0;
+  let previousCode = '';
+  let previousPress = 0;
+  let previousRelease = 0;
+
+  function press(key: string, extraDelay: number) {
+    const code = codeForKey(key);
+    const dwell = Math.max(15, logNormalRandom(rng, profile.dwellMedian, profile.dwellSigma));
+    let time = 0;
+    if (script.length > 0) {
+      tempo = TEMPO_PERSISTENCE * tempo + TEMPO_SIGMA * normalRandom(rng);
+      const factor = TRANSITION_FACTORS[transitionClass(keyPosition(previousCode), keyPosition(code))];
+      const flight = logNormalRandom(rng, profile.flightMedian * factor, profile.flightSigma) * Math.exp(tempo);
+      // Only fast, unpaused transitions roll over — by a varying share of the previous hold
+      const overlap = extraDelay === 0 && rng() < profile.rolloverRate
+        ? (0.2 + rng() * 0.5) * (previousRelease - previousPress)
+        : 0;
+      time = overlap > 0 ? previousRelease - overlap : previousRelease + Math.max(5, flight) + extraDelay;
+    }
+    script.push({ key, code, press: time, release: time + dwell });
+    previousCode = code;
+    previousPress = time;
+    previousRelease = time + dwell;
+  }
+
+  for (let i = 0; script.length < count; i++) {
+    const char = chars[i % chars.length];
+    const afterWord = i > 0 && chars[(i - 1) % chars.length] === ' ';
+    const pause = afterWord && rng() < profile.pauseRate ? logNormalRandom(rng, profile.pauseMedian, 0.5) : 0;
+
+    if (char !== ' ' && rng() < correctionRate && script.length + 2 < count) {
+      press(pick(rng, Array.from(TYPO_KEYS)), pause);
+      press('Backspace', logNormalRandom(rng, NOTICE_MEDIAN_MS, 0.4));
+      press(char, 0);
+    } else {
+      press(char, pause);
+    }
+  }
+  return script;
+}
@@ -0,0 +1,58 @@
+import type { KeystrokeEvent, TimingData } from './types';
+
+export interface DerivedTiming {
+  dwells: number[];
+  flights: number[];
+  corrections: number;
+  rollovers: number;
+  total: number;
+}
+
+/**
+ * Rebuild dwell/flight arrays and counters from a per-keystroke event log.
+ * Flights are only measured between non-overlapping keys, matching the observer.
+ */
+export function deriveTimingFromEvents(events: KeystrokeEvent[]): DerivedTiming {
+  const dwells: number[] = [];
+  const flights: number[] = [];
+  let corrections = 0;
+  let rollovers = 0;
+
+  for (let i = 0; i < events.length; i++) {
+    const ev = events[i];
+    dwells.push(ev.releaseTime - ev.pressTime);
+    if (ev.isCorrection) corrections++;
+    if (ev.isRollover) rollovers++;
+
+    if (i > 0 && !ev.isRollover) {
+      const flight = ev.pressTime - events[i - 1].releaseTime;
+      if (flight > 0) flights.push(flight);
+    }
+  }
+  return { dwells, flights, corrections, rollovers, total: events.length };
+}
+
+export interface WindowedTiming extends DerivedTiming {
+  /** Transition classes aligned with `flights`, when the payload has them */
+  flightClasses?: number[];
+}
+
+/**
+ * Analyzer inputs for a `TimingData` payload, as `createCadence` builds them:
+ * an event log longer than the dwell window replaces the ring buffer data,
+ * otherwise the buffers are trimmed to the last `windowSize` entries.
+ */
+export function windowTiming(data: TimingData, windowSize: number): WindowedTiming {
+  if (data.events !== undefined && data.events.length > data.dwells.length) {
+    // Transition classes align with the ring buffer flights, not event-derived ones
+    return deriveTimingFromEvents(data.events);
+  }
+  return {
+    dwells: data.dwells.slice(-windowSize),
+    flights: data.flights.slice(-windowSize),
+    corrections: data.corrections,
+    rollovers: data.rollovers,
+    total: data.total,
+    flightClasses: data.flightClasses?.slice(-windowSize),
+  };
+}
@@ -1,5 +1,10 @@
+import type { AnalysisWorkerFactory } from './worker/protocol';
+
 export type Classification = 'bot' | 'unknown' | 'human';
 
+/** Virtual keyboard handling mode. */
+export type MobileMode = 'off' | 'auto' | 'always';
+
 export interface ClassificationThresholds {
   /** Score threshold to transition from bot → unknown (default: 0.45) */
   botToUnknown: number;
@@ -29,6 +34,34 @@ export interface MetricScores {
   rolloverRate: number;
 }
 
+/** Scores of custom metrics, keyed by CustomMetric.name — absent for names that were never registered. */
+export type CustomMetricScores = Partial<Record<string, number>>;
+
+/** Timing data handed to each metric scorer. */
+export interface MetricInput {
+  dwells: number[];
+  flights: number[];
+  corrections: number;
+  rollovers: number;
+  total: number;
+  /** Per-keystroke event log (present when recordEvents is enabled) */
+  events?: KeystrokeEvent[];
+  /** Digraph transition class per flight (present when digraphModel is enabled) */
+  flightClasses?: number[];
+}
+
+/** A user-defined metric that participates in the weighted score. */
+export interface CustomMetric {
+  /** Key under which the score appears in CadenceResult.metrics. Must not clash with a built-in metric. */
+  name: string;
+  /** Score 0.0 (bot) to 1.0 (human), or NO_DATA (-1) to drop this metric from the weighted average */
+  score(input: MetricInput): number;
+  /** Minimum samples (dwells, or intervals in mobile mode) before scoring — below this the metric reports a neutral 0.5. Default: 0 */
+  minSamples?: number;
+  /** Weight in the composite score. Overridden by CadenceConfig.customWeights[name] */
+  weight: number;
+}
+
 export interface CadenceSignals {
   /** True when a paste event was detected */
   pasteDetected: boolean;
@@ -40,13 +73,219 @@ export interface CadenceSignals {
   inputWithoutKeystrokes: boolean;
   /** Number of input events that occurred without a preceding keystroke (autocomplete, dictation, etc.) */
   inputWithoutKeystrokeCount: number;
+  /** True when virtual keyboard input was detected and the mobile metric set was used */
+  virtualKeyboard: boolean;
+  /** Completed IME composition sessions (CJK and other composed input) */
+  compositionSessions: number;
+}
+
+/** Timing features of IME composition sessions. */
+export interface CompositionResult {
+  /** Completed sessions */
+  sessions: number;
+  /** Mean session duration, compositionstart → compositionend (ms) */
+  meanDuration: number;
+  /** Mean compositionupdate events per session */
+  meanUpdates: number;
+  /** Mean keydowns per session */
+  meanKeystrokes: number;
+  /** Sessions with no keydown at all (handwriting, voice, or scripted) */
+  keylessSessions: number;
+}
+
+export interface PointerWeights {
+  velocityVariance: number;
+  pathCurvature: number;
+  clickDwell: number;
+  approachPath: number;
+}
+
+export interface PointerMetricScores {
+  velocityVariance: number;
+  pathCurvature: number;
+  clickDwell: number;
+  approachPath: number;
+}
+
+export interface PointerSignals {
+  /** Pointer moves seen since start/reset */
+  moveCount: number;
+  /** Mouse/pen presses on the field with no pointer movement just before them */
+  teleportClicks: number;
+  /** True when no pointer metric could be scored (keyboard-only users, or the pointer never moved) */
+  pointerInactive: boolean;
+}
+
+export interface PointerResult {
+  /** Pointer humanity score, 0.0 (bot) to 1.0 (human) */
+  score: number;
+  /** Individual pointer metric scores, each 0.0–1.0 */
+  metrics: PointerMetricScores;
+  /** Number of pointer moves observed */
+  sampleCount: number;
+  /** True when sampleCount >= pointer minSamples */
+  confident: boolean;
+  signals: PointerSignals;
+}
+
+export interface PointerConfig {
+  /** Share of the overall score taken by the pointer score when it has data (0–1). Default: 0.25 */
+  weight?: number;
+  /** Custom pointer metric weights. Default: see DEFAULT_POINTER_WEIGHTS */
+  weights?: Partial<PointerWeights>;
+  /** Pointer moves before the pointer score is confident. Default: 20 */
+  minSamples?: number;
+}
+
+/** Sigmoid slopes and midpoints of the built-in metrics. Default: see DEFAULT_SCORING_PARAMETERS */
+export interface ScoringParameters {
+  /** Dwell σ rising edge: slope and midpoint (ms) */
+  dwellUpSlope: number;
+  dwellUpMidpoint: number;
+  /** Dwell σ falling edge: slope (negative) and midpoint (ms) */
+  dwellDownSlope: number;
+  dwellDownMidpoint: number;
+  /** Physical minimum human inter-key interval (ms) */
+  ikiFloor: number;
+  /** Flight max/min ratio: slope and midpoint */
+  fluctuationSlope: number;
+  fluctuationMidpoint: number;
+  /** Flight entropy rising edge: slope and midpoint (bits) */
+  entropyUpSlope: number;
+  entropyUpMidpoint: number;
+  /** Flight entropy falling edge: slope (negative) and midpoint (bits) */
+  entropyDownSlope: number;
+  entropyDownMidpoint: number;
+  /** Correction ratio: slope and midpoint */
+  correctionSlope: number;
+  correctionMidpoint: number;
+  /** Burst gap coefficient of variation: slope and midpoint */
+  burstCvSlope: number;
+  burstCvMidpoint: number;
+  /** Rollover ratio: slope and midpoint */
+  rolloverSlope: number;
+  rolloverMidpoint: number;
+}
+
+/**
+ * Scoring settings fitted to labeled data by `calibrate()` from
+ * `./calibration`. Pass it to `createCadence` (and `verifyTimingData`) as
+ * `calibration`.
+ */
+export interface CalibrationProfile {
+  /** Profile format version */
+  v: 1;
+  /** Fitted metric weights, summing to 1 */
+  weights: MetricWeights;
+  /** Fitted sigmoid parameters */
+  parameters: ScoringParameters;
+  /** ROC AUC on the calibration data */
+  auc: number;
+  /** Equal error rate on the calibration data */
+  eer: number;
+  /** Score at which the false accept and false reject rates are equal — applied as the `unknownToHuman` threshold */
+  threshold: number;
+  /** Labeled sessions the profile was fitted on */
+  samples: { human: number; bot: number };
+}
+
+/**
+ * Raw statistics behind the built-in metrics, before they are mapped to
+ * 0–1 scores. A value is null when its metric had too few samples to compute
+ * it. On virtual keyboards the flight features describe inter-input
+ * intervals, and the dwell and rollover features are null.
+ */
+export interface CadenceFeatures {
+  /** Dwell time standard deviation, ms */
+  dwellStddev: number | null;
+  /** Share of flights under the 60 ms physical floor */
+  subFloorRatio: number | null;
+  /** Log-normal fit score of the flights, 0–1 */
+  logNormality: number | null;
+  /** KS statistic D of the log-normal fit */
+  logNormalKs: number | null;
+  /** Uniform fit score of the flights, 0–1 */
+  uniformity: number | null;
+  /** KS statistic D of the uniform fit */
+  uniformKs: number | null;
+  /** Lag-1 autocorrelation of the flights */
+  serialCorrelation: number | null;
+  /** Shannon entropy of the flights over 10 bins, bits */
+  entropyBits: number | null;
+  /** Slowest flight divided by the fastest */
+  fluctuationRatio: number | null;
+  /** Corrections per keystroke */
+  correctionRatio: number | null;
+  /** Flights long enough to separate two bursts */
+  burstGaps: number | null;
+  /** Coefficient of variation of the burst gaps */
+  burstCv: number | null;
+  /** Rollovers per keystroke */
+  rolloverRatio: number | null;
+}
+
+/**
+ * Why a metric scored the way it did. `METRIC_*` codes describe gating; the
+ * rest flag a statistic outside the human range.
+ */
+export type ReasonCode =
+  // The metric had no behavioral data (e.g. zero corrections) and was left out of the score
+  | 'METRIC_GATED_NO_DATA'
+  // Below the metric's own sample minimum — scored neutral (0.5)
+  | 'METRIC_INSUFFICIENT_SAMPLES'
+  // Dwell standard deviation below the human range — machine-steady key holds
+  | 'DWELL_SD_TOO_LOW'
+  // Dwell standard deviation above the human range
+  | 'DWELL_SD_TOO_HIGH'
+  // Most flights are faster than the physical human inter-key floor
+  | 'IKI_FLOOR_VIOLATION'
+  // Every flight is identical
+  | 'CONSTANT_FLIGHTS'
+  // Flights fail the log-normal KS test
+  | 'LOGNORMAL_FIT_REJECTED'
+  // Flights pass the uniform KS test — random jitter in a fixed range
+  | 'UNIFORM_FLIGHTS'
+  // Consecutive flights are uncorrelated
+  | 'ZERO_AUTOCORRELATION'
+  // Flight entropy below the human range — too repetitive
+  | 'ENTROPY_TOO_LOW'
+  // Flight entropy above the human range — too evenly spread
+  | 'ENTROPY_TOO_HIGH'
+  // Slowest and fastest flight are too close together
+  | 'NARROW_IKI_RANGE'
+  // More than 30% of keystrokes are corrections
+  | 'EXCESSIVE_CORRECTIONS'
+  // Pauses between bursts are too evenly spaced
+  | 'REGULAR_BURSTS'
+  // Keys overlap rarely for the amount typed
+  | 'LOW_ROLLOVER_RATE';
+
+export interface MetricExplanation {
+  /** The metric's score, as reported in `metrics` */
+  score: number;
+  /** Configured weight of the metric */
+  weight: number;
+  /** True when the metric returned NO_DATA and didn't count toward the score */
+  gated: boolean;
+  /** Reason codes, empty when nothing stood out */
+  reasons: ReasonCode[];
+  /** Raw statistics behind the score, e.g. `stddev`, `entropyBits`, `ksStatistic` */
+  stats: Record<string, number>;
+}
+
+/** Present on results when `explain: true`. */
+export interface CadenceExplanation {
+  /** Per-metric breakdown, keyed like `metrics` */
+  metrics: Record<string, MetricExplanation>;
+  /** Every reason code across metrics, in metric order without duplicates */
+  reasons: ReasonCode[];
 }
 
 export interface CadenceResult {
   /** Overall humanity score, 0.0 (bot) to 1.0 (human) */
   score: number;
-  /** Individual metric scores, each 0.0–1.0 */
-  metrics: MetricScores;
+  /** Individual metric scores, each 0.0–1.0 — custom metrics under their name */
+  metrics: MetricScores & CustomMetricScores;
   /** Number of samples in current window */
   sampleCount: number;
   /** True when sampleCount >= minSamples */
@@ -55,6 +294,14 @@ export interface CadenceResult {
   signals: CadenceSignals;
   /** Classification with hysteresis: 'bot', 'unknown', or 'human' */
   classification: Classification;
+  /** Pointer dynamics (present when the pointer option is enabled) */
+  pointer?: PointerResult;
+  /** IME composition features (present once a composition session completed) */
+  composition?: CompositionResult;
+  /** Raw statistics behind the metric scores (present once a score was computed) */
+  features?: CadenceFeatures;
+  /** Reason codes and raw statistics per metric (present when `explain` is enabled) */
+  explanation?: CadenceExplanation;
 }
 
 export interface CadenceConfig {
@@ -64,16 +311,98 @@ export interface CadenceConfig {
   minSamples?: number;
   /** Custom metric weights. Default: see DEFAULT_WEIGHTS */
   weights?: Partial<MetricWeights>;
+  /** Additional metrics scored alongside the built-in six */
+  metrics?: CustomMetric[];
+  /** Weights for custom metrics, keyed by name. Default: each CustomMetric.weight */
+  customWeights?: Record<string, number>;
   /** Called when a new score is computed */
   onScore?: (result: CadenceResult) => void;
-  /** Analysis scheduling: 'idle' uses requestIdleCallback, 'manual' requires explicit analyze() calls. Default: 'idle' */
-  scheduling?: 'idle' | 'manual';
+  /**
+   * Analysis scheduling: 'idle' uses requestIdleCallback, 'manual' requires explicit analyze() calls,
+   * 'worker' runs the analyzer in the Web Worker started by `worker` (falls back to 'idle' without one,
+   * or when it is unavailable or fails). Default: 'idle'
+   */
+  scheduling?: 'idle' | 'manual' | 'worker';
+  /** Worker starter for `scheduling: 'worker'` — `analysisWorker` from `is-human-cadence/worker` */
+  worker?: AnalysisWorkerFactory;
   /** Record per-keystroke event log for offline analysis. Default: false */
   recordEvents?: boolean;
+  /**
+   * Record the input tape for exportRecording() and offline replay. Cannot be
+   * combined with `pointer`. The tape is not capped — `reset()` clears it.
+   * Default: false
+   */
+  record?: boolean;
+  /** Timestamp source for every observed event. Default: `performance.now` */
+  clock?: () => number;
+  /** Track pointer dynamics and blend them into the score. Default: false */
+  pointer?: boolean | PointerConfig;
+  /** Fit flight times per coarse key-transition class (same row / row change / alternate hand). Default: false */
+  digraphModel?: boolean;
+  /** Virtual keyboard handling: 'auto' switches to inter-input interval metrics once a virtual keyboard is detected, 'always' forces them. Default: 'off' */
+  mobileMode?: MobileMode;
+  /** Metric weights used in mobile mode. Default: see DEFAULT_MOBILE_WEIGHTS */
+  mobileWeights?: Partial<MetricWeights>;
   /** Custom thresholds for hysteresis classification. Default: see DEFAULT_CLASSIFICATION_THRESHOLDS */
   classificationThresholds?: Partial<ClassificationThresholds>;
+  /** Attach reason codes and the raw statistics behind each metric as `result.explanation`. Default: false */
+  explain?: boolean;
+  /**
+   * Fitted weights, sigmoid parameters and threshold from `calibrate()`. The
+   * threshold becomes `unknownToHuman`, with the other thresholds shifted by
+   * the same amount. Explicit `weights` and `classificationThresholds` still
+   * take precedence
+   */
+  calibration?: CalibrationProfile;
+}
+
+/** HMAC secret: raw bytes, a UTF-8 string, or an already-imported WebCrypto key. */
+export type AttestationKey = string | BufferSource | CryptoKey;
+
+export interface AttestOptions {
+  /** Shared HMAC secret or key */
+  key: AttestationKey;
+  /** Challenge nonce issued by the server for this session */
+  nonce: string;
 }
 
+/** Payload of the `classificationchange` event. */
+export interface ClassificationChange {
+  /** Classification before this result */
+  previous: Classification;
+  /** Classification after this result (same as `result.classification`) */
+  classification: Classification;
+  /** The result that caused the transition */
+  result: CadenceResult;
+}
+
+/**
+ * Events emitted by `Cadence.on()`. Each fires after a score is computed,
+ * and all but `score` only on a transition between two results.
+ */
+export interface CadenceEventMap {
+  /** Every computed result, like `onScore` */
+  score: CadenceResult;
+  /** The hysteresis classification moved to another state */
+  classificationchange: ClassificationChange;
+  /** `confident` turned true */
+  confident: CadenceResult;
+  /** `signals.pasteDetected` turned true */
+  paste: CadenceResult;
+  /** `signals.syntheticEvents` grew since the previous result */
+  synthetic: CadenceResult;
+}
+
+export type CadenceEventType = keyof CadenceEventMap;
+
+/**
+ * Settings a live instance can change via `configure()`. Omitted keys keep
+ * their current value; a given `weights`, `customWeights` or
+ * `classificationThresholds` replaces the previous override (still merged
+ * over the defaults).
+ */
+export type CadenceLiveConfig = Pick<CadenceConfig, 'windowSize' | 'minSamples' | 'weights' | 'customWeights' | 'mobileWeights' | 'classificationThresholds'>;
+
 export interface Cadence {
   /** Start listening for keyboard events */
   start(): void;
@@ -85,10 +414,100 @@ export interface Cadence {
   reset(): void;
   /** Return a plain-object copy of the current raw timing buffers */
   snapshot(): TimingData;
+  /** Analyze now and sign the result + timing digest into an attestation token */
+  attest(options: AttestOptions): Promise<string>;
+  /** Subscribe to a result event. Returns a function that unsubscribes the handler */
+  on<K extends CadenceEventType>(type: K, handler: (event: CadenceEventMap[K]) => void): () => void;
+  /** Update scoring settings in place — collected samples and the classification are kept */
+  configure(config: CadenceLiveConfig): void;
+  /** Serialize the recorded session (requires `record: true`) as JSON or compact binary */
+  exportRecording(format?: 'json'): string;
+  exportRecording(format: 'binary'): Uint8Array;
+  /** Stop listening and release all resources */
+  destroy(): void;
+}
+
+export interface FormCadenceConfig extends Omit<CadenceConfig, 'pointer' | 'mobileMode' | 'mobileWeights' | 'onScore' | 'scheduling'> {
+  /** Selector for fields to observe. Default: text-like inputs, textareas and contenteditable elements */
+  fields?: string;
+  /** Called when a new form-level score is computed */
+  onScore?: (result: FormCadenceResult) => void;
+  /** Analysis scheduling: 'idle' uses requestIdleCallback, 'manual' requires explicit analyze() calls. Default: 'idle' */
+  scheduling?: 'idle' | 'manual';
+}
+
+/** Per-field breakdown of a form-level result. */
+export interface FieldCadenceResult {
+  /** Field `name`, else `id`, else `field<index>` */
+  name: string;
+  result: CadenceResult;
+}
+
+/** Movement between fields (focus order and timing). */
+export interface FormTransitions {
+  /** Focus moves from one field to another */
+  count: number;
+  /** Mean ms from the last keystroke in a field to focusing the next one */
+  meanGap: number;
+  /** Moves that followed a Tab press */
+  tabTransitions: number;
+  /** Field indices in first-focus order */
+  order: number[];
+  /** Input events on fields that never received focus (value set programmatically or by autofill) */
+  unfocusedInputs: number;
+}
+
+export interface FormCadenceResult extends CadenceResult {
+  /**
+   * One entry per field still in the form: those found by `start()` in
+   * document order, then fields added later in the order they were found
+   */
+  fields: FieldCadenceResult[];
+  transitions: FormTransitions;
+}
+
+export interface FormCadence {
+  /** Discover fields and start listening */
+  start(): void;
+  /** Stop listening (preserves buffers) */
+  stop(): void;
+  /** Force immediate form-level score computation */
+  analyze(): FormCadenceResult;
+  /** Clear all data and reset score (does not stop listening) */
+  reset(): void;
+  /** Pooled timing data of all fields */
+  snapshot(): TimingData;
   /** Stop listening and release all resources */
   destroy(): void;
 }
 
+/** Scoring settings stored with a recording so replay uses the same configuration. */
+export interface RecordingConfig {
+  windowSize: number;
+  minSamples: number;
+  weights?: Partial<MetricWeights>;
+  customWeights?: Record<string, number>;
+  classificationThresholds?: Partial<ClassificationThresholds>;
+  recordEvents?: boolean;
+  digraphModel?: boolean;
+  mobileMode?: MobileMode;
+  mobileWeights?: Partial<MetricWeights>;
+  calibration?: CalibrationProfile;
+}
+
+/** One tape entry: `[time (ms, performance.now()), input type, detail]`. See src/recording.ts. */
+export type RecordedInput = [time: number, type: number, detail: number];
+
+/** A versioned session recording. */
+export interface Recording {
+  /** Recording format version */
+  v: number;
+  config: RecordingConfig;
+  inputs: RecordedInput[];
+  /** configure() calls, in order — referenced by the tape's configure entries */
+  changes?: CadenceLiveConfig[];
+}
+
 /** A single keystroke's raw timing data (relative to session start). */
 export interface KeystrokeEvent {
   /** Timestamp of keydown (ms, from performance.now()) */
@@ -110,4 +529,20 @@ export interface TimingData {
   total: number;
   /** Per-keystroke event log (present when recordEvents was enabled) */
   events?: KeystrokeEvent[];
+  /** Digraph transition class per flight, aligned with `flights` (present when digraphModel was enabled) */
+  flightClasses?: number[];
+  /** Metric set the client scored with (present when mobileMode was enabled) */
+  profile?: 'keyboard' | 'virtual';
+  /** Virtual keyboard input (present when mobileMode was enabled) */
+  virtual?: VirtualTiming;
+}
+
+/** Inter-input timing from a virtual keyboard — what the mobile metric set scores instead of dwell/flight. */
+export interface VirtualTiming {
+  /** Intervals between consecutive typing inputs (ms) */
+  intervals: number[];
+  /** Deletion inputs */
+  corrections: number;
+  /** Typing inputs seen */
+  total: number;
 }
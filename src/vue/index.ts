@@ -1,6 +1,6 @@
-import { ref, onMounted, onUnmounted, type Ref, type ObjectDirective } from 'vue';
+import { ref, watch, unref, onUnmounted, type Ref, type ObjectDirective } from 'vue';
 import { createCadence } from '../index';
-import type { CadenceConfig, CadenceResult, Classification, MetricScores, Cadence } from '../types';
+import type { CadenceConfig, CadenceLiveConfig, CadenceResult, CadenceSignals, Classification, CustomMetricScores, MetricScores, Cadence, TimingData } from '../types';
 
 export type {
   Cadence,
@@ -9,12 +9,17 @@ export type {
   CadenceSignals,
   Classification,
   ClassificationThresholds,
+  CompositionResult,
+  CustomMetric,
+  CustomMetricScores,
   KeystrokeEvent,
+  MetricInput,
   MetricWeights,
+  MobileMode,
   MetricScores,
   TimingData,
 } from '../types';
-export { DEFAULT_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS } from '../index';
+export { DEFAULT_WEIGHTS, DEFAULT_MOBILE_WEIGHTS, DEFAULT_CLASSIFICATION_THRESHOLDS, NO_DATA } from '../index';
 
 export interface UseHumanCadenceOptions {
   /** Sliding window size. Default: 50 */
@@ -23,6 +28,14 @@ export interface UseHumanCadenceOptions {
   minSamples?: number;
   /** Custom metric weights. */
   weights?: CadenceConfig['weights'];
+  /** Additional metrics scored alongside the built-ins. */
+  metrics?: CadenceConfig['metrics'];
+  /** Weights for custom metrics, keyed by name. */
+  customWeights?: CadenceConfig['customWeights'];
+  /** Virtual keyboard handling. Default: 'off' */
+  mobileMode?: CadenceConfig['mobileMode'];
+  /** Record per-keystroke event log for offline analysis. Default: false */
+  recordEvents?: boolean;
   /** Custom thresholds for hysteresis classification. */
   classificationThresholds?: CadenceConfig['classificationThresholds'];
 }
@@ -35,11 +48,17 @@ export interface UseHumanCadenceReturn {
   /** True when enough samples have been collected. */
   confident: Ref<boolean>;
   /** Individual metric scores. */
-  metrics: Ref<MetricScores>;
+  metrics: Ref<MetricScores & CustomMetricScores>;
+  /** Contextual signals (paste, synthetic events, etc.). */
+  signals: Ref<CadenceSignals>;
+  /** Number of samples in current window. */
+  sampleCount: Ref<number>;
   /** Classification with hysteresis: 'bot', 'unknown', or 'human'. */
   classification: Ref<Classification>;
   /** Reset all collected data. */
   reset: () => void;
+  /** Return a plain-object snapshot of raw timing buffers, or null if not attached. */
+  snapshot: () => TimingData | null;
 }
 
 const NEUTRAL_METRICS: MetricScores = {
@@ -51,57 +70,119 @@ const NEUTRAL_METRICS: MetricScores = {
   rolloverRate: 0.5,
 };
 
+const NEUTRAL_SIGNALS: CadenceSignals = {
+  pasteDetected: false,
+  syntheticEvents: 0,
+  insufficientData: true,
+  inputWithoutKeystrokes: false,
+  inputWithoutKeystrokeCount: 0,
+  virtualKeyboard: false,
+  compositionSessions: 0,
+};
+
+/** Options fixed at creation as a comparable key — custom metrics by name and weight. */
+function fixedKey(options: Pick<UseHumanCadenceOptions, 'metrics' | 'mobileMode' | 'recordEvents'> | undefined): string {
+  return JSON.stringify([options?.metrics?.map((m) => [m.name, m.weight]), options?.mobileMode, options?.recordEvents]);
+}
+
+/** Scoring settings a live instance can take via configure(). */
+function liveConfig(options: Omit<UseHumanCadenceOptions, 'metrics' | 'mobileMode' | 'recordEvents'> | undefined): CadenceLiveConfig {
+  return {
+    windowSize: options?.windowSize,
+    minSamples: options?.minSamples,
+    weights: options?.weights ?? {},
+    customWeights: options?.customWeights ?? {},
+    classificationThresholds: options?.classificationThresholds ?? {},
+  };
+}
+
 /**
  * Vue Composition API composable for keystroke cadence analysis.
  * Bind the returned `target` ref to an element via `ref="target"`.
+ * Re-attaches when `target` changes (e.g. `v-if`). Options may be a ref or
+ * reactive object: scoring settings are applied in place via `configure()`,
+ * while `metrics`, `mobileMode` or `recordEvents` restart the analysis.
  */
 export function useHumanCadence(
-  options?: UseHumanCadenceOptions,
+  options?: UseHumanCadenceOptions | Ref<UseHumanCadenceOptions | undefined>,
 ): UseHumanCadenceReturn {
   const target = ref<HTMLElement | null>(null);
   const score = ref(0.5);
   const confident = ref(false);
-  const metrics = ref<MetricScores>({ ...NEUTRAL_METRICS });
+  const metrics = ref<MetricScores & CustomMetricScores>({ ...NEUTRAL_METRICS });
+  const signals = ref<CadenceSignals>({ ...NEUTRAL_SIGNALS });
+  const sampleCount = ref(0);
   const classification = ref<Classification>('unknown');
 
   let cadence: Cadence | null = null;
+  // Settings fixed at creation — changing one needs a fresh instance
+  let fixed = fixedKey(undefined);
 
   function onScore(result: CadenceResult) {
     score.value = result.score;
     confident.value = result.confident;
     metrics.value = result.metrics;
+    signals.value = result.signals;
+    sampleCount.value = result.sampleCount;
     classification.value = result.classification;
   }
 
-  onMounted(() => {
-    if (!target.value) return;
-    cadence = createCadence(target.value, {
-      windowSize: options?.windowSize,
-      minSamples: options?.minSamples,
-      weights: options?.weights,
-      classificationThresholds: options?.classificationThresholds,
+  function clearState() {
+    score.value = 0.5;
+    confident.value = false;
+    metrics.value = { ...NEUTRAL_METRICS };
+    signals.value = { ...NEUTRAL_SIGNALS };
+    sampleCount.value = 0;
+    classification.value = 'unknown';
+  }
+
+  function attach(el: HTMLElement | null) {
+    if (cadence) {
+      cadence.destroy();
+      cadence = null;
+      clearState();
+    }
+    if (!el) return;
+    const opts = unref(options);
+    fixed = fixedKey(opts);
+    cadence = createCadence(el, {
+      windowSize: opts?.windowSize,
+      minSamples: opts?.minSamples,
+      weights: opts?.weights,
+      metrics: opts?.metrics,
+      customWeights: opts?.customWeights,
+      mobileMode: opts?.mobileMode,
+      recordEvents: opts?.recordEvents,
+      classificationThresholds: opts?.classificationThresholds,
       scheduling: 'idle',
       onScore,
     });
     cadence.start();
-  });
+  }
 
-  onUnmounted(() => {
-    if (cadence) {
-      cadence.destroy();
-      cadence = null;
+  function onOptionsChange(opts: UseHumanCadenceOptions | undefined) {
+    if (!cadence || fixedKey(opts) !== fixed) {
+      attach(target.value);
+      return;
     }
-  });
+    cadence.configure(liveConfig(opts));
+  }
+
+  watch(target, (el) => attach(el), { flush: 'post' });
+  watch(() => unref(options), onOptionsChange, { deep: true });
+
+  onUnmounted(() => attach(null));
 
   function reset() {
     cadence?.reset();
-    score.value = 0.5;
-    confident.value = false;
-    metrics.value = { ...NEUTRAL_METRICS };
-    classification.value = 'unknown';
+    clearState();
+  }
+
+  function snapshot(): TimingData | null {
+    return cadence?.snapshot() ?? null;
   }
 
-  return { target, score, confident, metrics, classification, reset };
+  return { target, score, confident, metrics, signals, sampleCount, classification, reset, snapshot };
 }
 
 /** Directive binding value: callback or config with callback. */
@@ -110,10 +191,51 @@ export type DirectiveBinding = ((result: CadenceResult) => void) | {
   windowSize?: number;
   minSamples?: number;
   weights?: CadenceConfig['weights'];
+  metrics?: CadenceConfig['metrics'];
+  customWeights?: CadenceConfig['customWeights'];
+  mobileMode?: CadenceConfig['mobileMode'];
+  recordEvents?: boolean;
   classificationThresholds?: CadenceConfig['classificationThresholds'];
 };
 
-const instanceMap = new WeakMap<HTMLElement, Cadence>();
+type DirectiveOptions = Exclude<DirectiveBinding, (result: CadenceResult) => void>;
+
+interface DirectiveInstance {
+  cadence: Cadence;
+  /** Latest binding value — the instance's onScore calls through it */
+  value: DirectiveBinding;
+}
+
+const instanceMap = new WeakMap<HTMLElement, DirectiveInstance>();
+
+function bindingOptions(value: DirectiveBinding): Partial<DirectiveOptions> {
+  return typeof value === 'function' ? {} : value;
+}
+
+function mountDirective(el: HTMLElement, value: DirectiveBinding) {
+  const options = bindingOptions(value);
+  const instance: DirectiveInstance = {
+    value,
+    cadence: createCadence(el, {
+      windowSize: options.windowSize,
+      minSamples: options.minSamples,
+      weights: options.weights,
+      metrics: options.metrics,
+      customWeights: options.customWeights,
+      mobileMode: options.mobileMode,
+      recordEvents: options.recordEvents,
+      classificationThresholds: options.classificationThresholds,
+      scheduling: 'idle',
+      onScore: (result) => {
+        const current = instance.value;
+        if (typeof current === 'function') current(result);
+        else current.onScore(result);
+      },
+    }),
+  };
+  instance.cadence.start();
+  instanceMap.set(el, instance);
+}
 
 /**
  * Vue directive for keystroke cadence analysis.
@@ -121,32 +243,35 @@ const instanceMap = new WeakMap<HTMLElement, Cadence>();
  * Usage:
  *   <input v-human-cadence="onCadenceUpdate" />
  *   <input v-human-cadence="{ onScore: handler, minSamples: 30 }" />
+ *
+ * A new callback and changed scoring options are picked up in place;
+ * changing `metrics`, `mobileMode` or `recordEvents` restarts the analysis.
  */
 export const vHumanCadence: ObjectDirective<HTMLElement, DirectiveBinding> = {
   mounted(el, binding) {
-    const value = binding.value;
-    const callback = typeof value === 'function' ? value : value.onScore;
-    const config: CadenceConfig = {
-      scheduling: 'idle',
-      onScore: callback,
-    };
-
-    if (typeof value === 'object') {
-      config.windowSize = value.windowSize;
-      config.minSamples = value.minSamples;
-      config.weights = value.weights;
-      config.classificationThresholds = value.classificationThresholds;
-    }
+    mountDirective(el, binding.value);
+  },
 
-    const cadence = createCadence(el, config);
-    cadence.start();
-    instanceMap.set(el, cadence);
+  updated(el, binding) {
+    const instance = instanceMap.get(el);
+    if (!instance) return;
+    const previous = bindingOptions(instance.value);
+    const next = bindingOptions(binding.value);
+    instance.value = binding.value;
+    if (fixedKey(previous) !== fixedKey(next)) {
+      instance.cadence.destroy();
+      mountDirective(el, binding.value);
+      return;
+    }
+    // Compared by value — an inline object literal is a new object on every render
+    const live = liveConfig(next);
+    if (JSON.stringify(live) !== JSON.stringify(liveConfig(previous))) instance.cadence.configure(live);
   },
 
   unmounted(el) {
-    const cadence = instanceMap.get(el);
-    if (cadence) {
-      cadence.destroy();
+    const instance = instanceMap.get(el);
+    if (instance) {
+      instance.cadence.destroy();
       instanceMap.delete(el);
     }
   },
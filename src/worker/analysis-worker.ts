@@ -0,0 +1,18 @@
+/**
+ * Analysis worker entry. Bundled into WORKER_SOURCE at build time and run
+ * from a blob URL — never imported by the library itself.
+ */
+import { createWorkerHandler, type WorkerMessage, type WorkerResponse } from './protocol';
+
+interface WorkerScope {
+  onmessage: ((e: MessageEvent<WorkerMessage>) => void) | null;
+  postMessage(message: WorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const handle = createWorkerHandler();
+
+scope.onmessage = (e) => {
+  const response = handle(e.data);
+  if (response) scope.postMessage(response);
+};
@@ -0,0 +1,97 @@
+import { WORKER_SOURCE } from './source';
+import type { AnalysisJob, AnalysisWorkerFactory, WorkerInit, WorkerRequest, WorkerResponse } from './protocol';
+
+export type { AnalyzerResult } from '../analyzer';
+export type {
+  AnalysisJob,
+  AnalysisWorker,
+  AnalysisWorkerFactory,
+  AnalysisWorkerHandlers,
+  WorkerInit,
+  WorkerMessage,
+  WorkerRequest,
+  WorkerResponse,
+} from './protocol';
+export { createWorkerHandler } from './protocol';
+
+/**
+ * Start the inline analysis worker from a blob URL — no extra file to host.
+ * Pass it as `worker` together with `scheduling: 'worker'`.
+ *
+ * Returns null when workers are unavailable: no Worker global or an
+ * unbundled source (tests, direct TS imports). A CSP that blocks blob:
+ * workers, or an error inside the worker, is only reported after the
+ * worker started — it then calls `onError`, and the instance falls back
+ * to main-thread analysis.
+ */
+export const analysisWorker: AnalysisWorkerFactory = (init, { onResult, onError }) => {
+  if (!WORKER_SOURCE || typeof Worker === 'undefined' || typeof URL.createObjectURL !== 'function') return null;
+
+  let worker: Worker;
+  // The worker script is fetched asynchronously, so the URL must outlive the constructor
+  let url: string | null = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  function revoke() {
+    if (url === null) return;
+    URL.revokeObjectURL(url);
+    url = null;
+  }
+  try {
+    worker = new Worker(url);
+  } catch {
+    revoke();
+    return null;
+  }
+
+  let nextId = 0;
+  let inFlight: AnalysisJob | null = null;
+  let queued: AnalysisJob | null = null;
+  let stopped = false;
+
+  function send(job: AnalysisJob) {
+    inFlight = job;
+    const request: WorkerRequest = { type: 'analyze', id: nextId++, ...job };
+    worker.postMessage(request);
+  }
+
+  function terminate() {
+    stopped = true;
+    worker.terminate();
+    revoke();
+    queued = null;
+    inFlight = null;
+  }
+
+  function fail() {
+    if (stopped) return;
+    terminate();
+    onError();
+  }
+
+  function post(job: AnalysisJob) {
+    if (inFlight) queued = job;
+    else send(job);
+  }
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    if (stopped || !inFlight) return;
+    revoke();
+    const done = inFlight;
+    inFlight = null;
+    const job = queued;
+    queued = null;
+    // Publish before running the newer job — dropping superseded results
+    // would starve onResult for as long as the user keeps typing
+    onResult(e.data.result, done);
+    if (job && !stopped) post(job);
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    fail();
+  };
+  worker.onmessageerror = fail;
+
+  const message: WorkerInit = { type: 'init', ...init };
+  worker.postMessage(message);
+
+  return { post, terminate };
+};
@@ -0,0 +1,85 @@
+import { createAnalyzer, type Analyzer, type AnalyzerResult } from '../analyzer';
+import type { MetricWeights, ScoringParameters } from '../types';
+
+/** Analyzer settings, sent once when the worker starts. */
+export interface WorkerInit {
+  type: 'init';
+  minSamples: number;
+  weights: Partial<MetricWeights>;
+  mobileWeights: Partial<MetricWeights>;
+  explain?: boolean;
+  /** Calibrated sigmoid parameters — fitted on physical keyboards, so the virtual analyzer ignores them */
+  parameters?: Partial<ScoringParameters>;
+}
+
+/** One analysis job — the arguments of Analyzer.analyze as plain data. */
+export interface WorkerRequest {
+  type: 'analyze';
+  id: number;
+  profile: 'keyboard' | 'virtual';
+  dwells: number[];
+  flights: number[];
+  corrections: number;
+  rollovers: number;
+  total: number;
+  flightClasses?: number[];
+}
+
+export interface WorkerResponse {
+  id: number;
+  result: AnalyzerResult;
+}
+
+export type WorkerMessage = WorkerInit | WorkerRequest;
+
+export type AnalysisJob = Omit<WorkerRequest, 'type' | 'id'>;
+
+export interface AnalysisWorker {
+  /** Queue a job. While one is in flight, only the newest queued job is kept. */
+  post(job: AnalysisJob): void;
+  terminate(): void;
+}
+
+export interface AnalysisWorkerHandlers {
+  /** Called with each result and the job it answers (the object passed to `post`) */
+  onResult: (result: AnalyzerResult, job: AnalysisJob) => void;
+  /** The worker failed to load or threw — it is already terminated */
+  onError: () => void;
+}
+
+/**
+ * Starts an analysis worker, or returns null when workers are unavailable.
+ * `analysisWorker` from `./worker` is the bundled implementation.
+ */
+export type AnalysisWorkerFactory = (init: Omit<WorkerInit, 'type'>, handlers: AnalysisWorkerHandlers) => AnalysisWorker | null;
+
+/**
+ * Worker-side message handler: builds the analyzers on `init` and answers
+ * each `analyze` request. Kept free of worker globals so it can be tested
+ * on the main thread.
+ */
+export function createWorkerHandler(): (message: WorkerMessage) => WorkerResponse | undefined {
+  let keyboard: Analyzer | null = null;
+  let virtual: Analyzer | null = null;
+
+  return (message) => {
+    if (message.type === 'init') {
+      const { minSamples, explain, parameters } = message;
+      keyboard = createAnalyzer({ minSamples, weights: message.weights, explain, parameters });
+      virtual = createAnalyzer({ minSamples, weights: message.mobileWeights, profile: 'virtual', explain });
+      return undefined;
+    }
+
+    const analyzer = message.profile === 'virtual' ? virtual : keyboard;
+    if (!analyzer) return undefined;
+    const result = analyzer.analyze(
+      message.dwells,
+      message.flights,
+      message.corrections,
+      message.rollovers,
+      message.total,
+      { flightClasses: message.flightClasses },
+    );
+    return { id: message.id, result };
+  };
+}
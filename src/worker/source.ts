@@ -0,0 +1,6 @@
+/**
+ * Bundled source of src/worker/analysis-worker.ts. Empty here — the build
+ * inlines the minified worker into the `./worker` entry only (see
+ * tsup.config.ts). An empty source makes `analysisWorker` return null.
+ */
+export const WORKER_SOURCE: string = '';
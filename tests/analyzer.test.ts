@@ -1,7 +1,7 @@
-import { describe, it, expect } from 'vitest';
-import { createAnalyzer, DEFAULT_WEIGHTS } from '../src/analyzer';
+import { describe, it, expect, vi } from 'vitest';
+import { createAnalyzer, DEFAULT_MOBILE_WEIGHTS, DEFAULT_SCORING_PARAMETERS, DEFAULT_WEIGHTS, NO_DATA } from '../src/analyzer';
 import { generateConstantBot, generateRandomJitterBot, generateGaussianBot } from './fixtures/bot-profiles';
-import { generateHumanLike } from './fixtures/human-profiles';
+import { generateHumanLike, generateMobileHuman } from './fixtures/human-profiles';
 
 const defaultConfig = { minSamples: 20, weights: DEFAULT_WEIGHTS };
 
@@ -417,4 +417,303 @@ describe('createAnalyzer', () => {
       expect(humanResult.metrics.timingEntropy).toBeGreaterThan(botResult.metrics.timingEntropy);
     });
   });
+
+  describe('custom metrics', () => {
+    const human = generateHumanLike(40);
+
+    it('reports custom metric scores under their name', () => {
+      const analyzer = createAnalyzer({
+        ...defaultConfig,
+        metrics: [{ name: 'alwaysHuman', score: () => 1, weight: 0.1 }],
+      });
+      const result = analyzer.analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      expect(result.metrics.alwaysHuman).toBe(1);
+    });
+
+    it('participates in the weighted average with its default weight', () => {
+      const base = createAnalyzer(defaultConfig).analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      const analyzer = createAnalyzer({
+        ...defaultConfig,
+        metrics: [{ name: 'alwaysBot', score: () => 0, weight: 1 }],
+      });
+      const result = analyzer.analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      // Built-in weights sum to 1.0, so a weight-1 zero metric halves the score
+      expect(result.score).toBeCloseTo(base.score / 2, 5);
+    });
+
+    it('lets customWeights override the metric default weight', () => {
+      const analyzer = createAnalyzer({
+        minSamples: 20,
+        weights: { ...DEFAULT_WEIGHTS },
+        customWeights: { alwaysBot: 0 },
+        metrics: [{ name: 'alwaysBot', score: () => 0, weight: 1 }],
+      });
+      const base = createAnalyzer(defaultConfig).analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      const result = analyzer.analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      expect(result.score).toBeCloseTo(base.score, 10);
+    });
+
+    it('gates NO_DATA and non-finite scores out of the average', () => {
+      const base = createAnalyzer(defaultConfig).analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      const analyzer = createAnalyzer({
+        ...defaultConfig,
+        metrics: [
+          { name: 'noData', score: () => NO_DATA, weight: 1 },
+          { name: 'broken', score: () => NaN, weight: 1 },
+        ],
+      });
+      const result = analyzer.analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      expect(result.score).toBeCloseTo(base.score, 10);
+      expect(result.metrics.noData).toBe(0);
+      expect(result.metrics.broken).toBe(0);
+    });
+
+    it('returns neutral 0.5 below the metric minSamples', () => {
+      const score = vi.fn(() => 1);
+      const analyzer = createAnalyzer({
+        ...defaultConfig,
+        metrics: [{ name: 'gated', score, minSamples: 100, weight: 0.1 }],
+      });
+      const result = analyzer.analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      expect(result.metrics.gated).toBe(0.5);
+      expect(score).not.toHaveBeenCalled();
+    });
+
+    it('clamps out-of-range scores to [0, 1]', () => {
+      const analyzer = createAnalyzer({
+        ...defaultConfig,
+        metrics: [{ name: 'tooHigh', score: () => 3, weight: 0.1 }],
+      });
+      const result = analyzer.analyze(
+        human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+      );
+      expect(result.metrics.tooHigh).toBe(1);
+    });
+
+    it('passes timing data and events to the scorer', () => {
+      const score = vi.fn(() => 0.5);
+      const analyzer = createAnalyzer({ ...defaultConfig, metrics: [{ name: 'spy', score, weight: 0.1 }] });
+      const events = [{ pressTime: 0, releaseTime: 50, isCorrection: false, isRollover: false }];
+      analyzer.analyze([50], [], 0, 0, 1, { events });
+      expect(score).toHaveBeenCalledWith({
+        dwells: [50], flights: [], corrections: 0, rollovers: 0, total: 1, events,
+      });
+    });
+
+    it('rejects names that clash with built-in or other custom metrics', () => {
+      expect(() => createAnalyzer({
+        ...defaultConfig,
+        metrics: [{ name: 'flightFit', score: () => 1, weight: 0.1 }],
+      })).toThrow('Metric "flightFit" is already registered');
+      expect(() => createAnalyzer({
+        ...defaultConfig,
+        metrics: [
+          { name: 'mine', score: () => 1, weight: 0.1 },
+          { name: 'mine', score: () => 0, weight: 0.1 },
+        ],
+      })).toThrow('Metric "mine" is already registered');
+    });
+  });
+
+  describe('virtual keyboard profile', () => {
+    const mobileConfig = { minSamples: 20, weights: DEFAULT_MOBILE_WEIGHTS, profile: 'virtual' as const };
+
+    it('gates dwellVariance and rolloverRate out', () => {
+      const analyzer = createAnalyzer(mobileConfig);
+      const mobile = generateMobileHuman(40);
+      const result = analyzer.analyze([], mobile.intervals, mobile.corrections, 0, mobile.total);
+      expect(result.metrics.dwellVariance).toBe(0);
+      expect(result.metrics.rolloverRate).toBe(0);
+    });
+
+    it('counts intervals as samples', () => {
+      const analyzer = createAnalyzer(mobileConfig);
+      const mobile = generateMobileHuman(25);
+      const result = analyzer.analyze([], mobile.intervals, mobile.corrections, 0, mobile.total);
+      expect(result.sampleCount).toBe(25);
+      expect(result.confident).toBe(true);
+    });
+
+    it('scores a mobile human above the human threshold', () => {
+      const analyzer = createAnalyzer(mobileConfig);
+      const mobile = generateMobileHuman(40);
+      const result = analyzer.analyze([], mobile.intervals, mobile.corrections, 0, mobile.total);
+      expect(result.score).toBeGreaterThan(0.7);
+    });
+
+    it('scores the same human higher than the keyboard profile does', () => {
+      const mobile = generateMobileHuman(40);
+      // Virtual keyboards report ~0 ms dwell
+      const zeroDwells = Array<number>(40).fill(0);
+      const keyboard = createAnalyzer(defaultConfig)
+        .analyze(zeroDwells, mobile.intervals, mobile.corrections, 0, mobile.total);
+      const virtual = createAnalyzer(mobileConfig)
+        .analyze([], mobile.intervals, mobile.corrections, 0, mobile.total);
+      expect(keyboard.metrics.dwellVariance).toBeLessThan(0.1);
+      expect(virtual.score).toBeGreaterThan(keyboard.score);
+    });
+
+    it('scores constant-interval input as a bot', () => {
+      const analyzer = createAnalyzer(mobileConfig);
+      const result = analyzer.analyze([], Array(40).fill(200), 0, 0, 41);
+      expect(result.score).toBeLessThan(0.35);
+    });
+
+    it('gates custom metric minSamples on interval count', () => {
+      const score = vi.fn(() => 0.9);
+      const analyzer = createAnalyzer({
+        ...mobileConfig,
+        metrics: [{ name: 'mine', weight: 0.1, minSamples: 10, score }],
+      });
+      analyzer.analyze([], Array(12).fill(200), 0, 0, 13);
+      expect(score).toHaveBeenCalled();
+    });
+  });
+
+  describe('parameters', () => {
+    it('scores the same with the default parameters spelled out', () => {
+      const human = generateHumanLike(60);
+      const args = [human.dwells, human.flights, human.corrections, human.rollovers, human.total] as const;
+      const plain = createAnalyzer(defaultConfig).analyze(...args);
+      const spelled = createAnalyzer({ ...defaultConfig, parameters: DEFAULT_SCORING_PARAMETERS }).analyze(...args);
+      expect(spelled).toEqual(plain);
+    });
+
+    it('moves a metric score with its sigmoid midpoint', () => {
+      const human = generateHumanLike(60);
+      const args = [human.dwells, human.flights, human.corrections, human.rollovers, human.total] as const;
+      const plain = createAnalyzer(defaultConfig).analyze(...args);
+      const strict = createAnalyzer({
+        ...defaultConfig,
+        parameters: { rolloverMidpoint: DEFAULT_SCORING_PARAMETERS.rolloverMidpoint * 4 },
+      }).analyze(...args);
+      expect(strict.metrics.rolloverRate).toBeLessThan(plain.metrics.rolloverRate);
+      expect(strict.metrics.dwellVariance).toBe(plain.metrics.dwellVariance);
+    });
+  });
+
+  describe('features', () => {
+    it('exposes the raw statistics behind the metric scores', () => {
+      const human = generateHumanLike(60);
+      const { features, explanation } = createAnalyzer({ ...defaultConfig, explain: true })
+        .analyze(human.dwells, human.flights, human.corrections, human.rollovers, human.total);
+      const stats = explanation?.metrics;
+      expect(features.dwellStddev).toBe(stats?.dwellVariance.stats.stddev);
+      expect(features.entropyBits).toBe(stats?.timingEntropy.stats.entropyBits);
+      expect(features.logNormalKs).toBe(stats?.flightFit.stats.ksStatistic);
+      expect(features.serialCorrelation).toBe(stats?.flightFit.stats.autocorrelation);
+      expect(features.rolloverRatio).toBe(human.rollovers / human.total);
+      expect(features.correctionRatio).toBe(human.corrections / human.total);
+    });
+
+    it('reports null for features below their sample gate', () => {
+      const { features } = createAnalyzer(defaultConfig).analyze([80, 90], [150], 0, 0, 2);
+      expect(Object.values(features).every((value) => value === null)).toBe(true);
+    });
+
+    it('nulls dwell and rollover features on the virtual profile', () => {
+      const mobile = generateMobileHuman(40);
+      const { features } = createAnalyzer({ minSamples: 20, weights: DEFAULT_MOBILE_WEIGHTS, profile: 'virtual' })
+        .analyze([], mobile.intervals, mobile.corrections, 0, mobile.total);
+      expect(features.dwellStddev).toBeNull();
+      expect(features.rolloverRatio).toBeNull();
+      expect(features.entropyBits).toBeGreaterThan(0);
+    });
+
+    it('is JSON-serializable', () => {
+      const bot = generateConstantBot(50);
+      const { features } = createAnalyzer(defaultConfig)
+        .analyze(bot.dwells, bot.flights, bot.corrections, bot.rollovers, bot.total);
+      expect(JSON.parse(JSON.stringify(features))).toEqual(features);
+      expect(features.burstCv).toBeNull();
+      expect(features.burstGaps).toBe(0);
+    });
+  });
+
+  describe('explain', () => {
+    const explainConfig = { ...defaultConfig, explain: true };
+
+    it('omits the explanation unless enabled', () => {
+      const human = generateHumanLike(40);
+      const result = createAnalyzer(defaultConfig)
+        .analyze(human.dwells, human.flights, human.corrections, human.rollovers, human.total);
+      expect(result.explanation).toBeUndefined();
+    });
+
+    it('does not change the score', () => {
+      const human = generateHumanLike(40);
+      const args = [human.dwells, human.flights, human.corrections, human.rollovers, human.total] as const;
+      const plain = createAnalyzer(defaultConfig).analyze(...args);
+      const explained = createAnalyzer(explainConfig).analyze(...args);
+      expect(explained.score).toBe(plain.score);
+      expect(explained.metrics).toEqual(plain.metrics);
+    });
+
+    it('explains a constant bot with reason codes and raw statistics', () => {
+      const bot = generateConstantBot(50);
+      const { explanation } = createAnalyzer(explainConfig)
+        .analyze(bot.dwells, bot.flights, bot.corrections, bot.rollovers, bot.total);
+      if (!explanation) throw new Error('missing explanation');
+
+      expect(explanation.metrics.dwellVariance.reasons).toContain('DWELL_SD_TOO_LOW');
+      expect(explanation.metrics.dwellVariance.stats.stddev).toBeLessThan(1);
+      expect(explanation.metrics.flightFit.reasons).toEqual(expect.arrayContaining(['CONSTANT_FLIGHTS', 'ZERO_AUTOCORRELATION']));
+      expect(explanation.metrics.timingEntropy.reasons).toEqual(expect.arrayContaining(['ENTROPY_TOO_LOW', 'NARROW_IKI_RANGE']));
+      expect(explanation.metrics.timingEntropy.stats.entropyBits).toBe(0);
+      expect(explanation.metrics.correctionRatio).toMatchObject({ gated: true, reasons: ['METRIC_GATED_NO_DATA'] });
+      expect(explanation.reasons).toContain('METRIC_GATED_NO_DATA');
+      expect(new Set(explanation.reasons).size).toBe(explanation.reasons.length);
+    });
+
+    it('reports the KS test behind flightFit', () => {
+      const bot = generateRandomJitterBot(80);
+      const { explanation } = createAnalyzer(explainConfig)
+        .analyze(bot.dwells, bot.flights, bot.corrections, bot.rollovers, bot.total);
+      const stats = explanation?.metrics.flightFit.stats;
+      expect(stats?.ksStatistic).toBeGreaterThan(0);
+      expect(stats?.ksCritical).toBeCloseTo(1.22 / Math.sqrt(80), 10);
+      expect(stats?.uniformKsStatistic).toBeLessThanOrEqual(stats?.uniformKsCritical ?? 0);
+      expect(explanation?.metrics.flightFit.reasons).toContain('UNIFORM_FLIGHTS');
+    });
+
+    it('flags sub-floor flights', () => {
+      const flights = Array.from({ length: 30 }, (_, i) => 20 + (i % 7) * 4);
+      const dwells = Array.from({ length: 30 }, (_, i) => 60 + (i % 5) * 12);
+      const { explanation } = createAnalyzer(explainConfig).analyze(dwells, flights, 0, 0, 30);
+      expect(explanation?.metrics.flightFit.reasons).toContain('IKI_FLOOR_VIOLATION');
+      expect(explanation?.metrics.flightFit.stats.subFloorRatio).toBe(1);
+    });
+
+    it('marks metrics below their sample gate', () => {
+      const { explanation } = createAnalyzer(explainConfig).analyze([80, 90], [150], 0, 0, 2);
+      expect(explanation?.metrics.dwellVariance).toMatchObject({ score: 0.5, gated: false, reasons: ['METRIC_INSUFFICIENT_SAMPLES'] });
+      expect(explanation?.metrics.dwellVariance.weight).toBe(DEFAULT_WEIGHTS.dwellVariance);
+    });
+
+    it('covers custom metrics', () => {
+      const analyzer = createAnalyzer({
+        ...explainConfig,
+        metrics: [{ name: 'mine', weight: 0.1, score: () => NO_DATA }],
+      });
+      const human = generateHumanLike(30);
+      const { explanation } = analyzer.analyze(human.dwells, human.flights, human.corrections, human.rollovers, human.total);
+      expect(explanation?.metrics.mine).toEqual({ score: 0, weight: 0.1, gated: true, reasons: ['METRIC_GATED_NO_DATA'], stats: {} });
+    });
+  });
 });
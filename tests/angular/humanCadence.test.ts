@@ -0,0 +1,154 @@
+// JIT-compiles the test component, and the adapter's partial declarations since no linker runs here
+import '@angular/compiler';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { Component, ViewChild, provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { BrowserTestingModule, platformBrowserTesting } from '@angular/platform-browser/testing';
+import { HumanCadenceDirective, HumanCadenceService } from '../../src/angular/index';
+import type { CadenceResult } from '../../src/types';
+
+function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
+  el.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true }));
+}
+
+class TestForm {
+  scores: CadenceResult[] = [];
+  email!: HumanCadenceDirective;
+}
+// Decorators applied as calls: the repo compiles TS without experimentalDecorators
+ViewChild('email')(TestForm.prototype, 'email');
+Component({
+  standalone: true,
+  imports: [HumanCadenceDirective],
+  template: `
+    <input id="plain" [humanCadence]="{ minSamples: 5 }" (cadenceScore)="scores.push($event)" />
+    <input id="named" humanCadence cadenceName="email" #email="humanCadence" />
+  `,
+})(TestForm);
+
+describe('angular bindings', () => {
+  let mockNow: { value: number };
+
+  function type(el: HTMLElement, count: number) {
+    for (let i = 0; i < count; i++) {
+      mockNow.value += 110 + (i % 7) * 23;
+      fireKey(el, 'keydown');
+      mockNow.value += 40 + (i % 5) * 9;
+      fireKey(el, 'keyup');
+    }
+    vi.runAllTimers();
+  }
+
+  beforeAll(() => {
+    TestBed.initTestEnvironment(BrowserTestingModule, platformBrowserTesting());
+  });
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.useFakeTimers();
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+    TestBed.configureTestingModule({
+      imports: [TestForm],
+      providers: [provideZonelessChangeDetection()],
+    });
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function render() {
+    const fixture = TestBed.createComponent(TestForm);
+    fixture.detectChanges();
+    const root = fixture.nativeElement as HTMLElement;
+    return {
+      fixture,
+      plain: root.querySelector('#plain') as HTMLElement,
+      named: root.querySelector('#named') as HTMLElement,
+    };
+  }
+
+  describe('HumanCadenceDirective', () => {
+    it('emits cadenceScore with the bound options', () => {
+      const { fixture, plain } = render();
+      type(plain, 6);
+      const scores = fixture.componentInstance.scores;
+      expect(scores.length).toBeGreaterThan(0);
+      expect(scores[scores.length - 1].confident).toBe(true);
+      fixture.destroy();
+    });
+
+    it('registers named fields with the service', () => {
+      const { fixture, named } = render();
+      const service = TestBed.inject(HumanCadenceService);
+      type(named, 4);
+
+      expect(service.names()).toEqual(['email']);
+      expect(service.results().email.sampleCount).toBe(4);
+      expect(fixture.componentInstance.email.snapshot()?.dwells).toHaveLength(4);
+      fixture.componentInstance.email.reset();
+      expect(service.results().email).toBeUndefined();
+      expect(service.snapshot('email')?.dwells).toEqual([]);
+      fixture.destroy();
+    });
+
+    it('cleans up on destroy', () => {
+      const { fixture, plain, named } = render();
+      const service = TestBed.inject(HumanCadenceService);
+      fixture.destroy();
+
+      expect(service.names()).toEqual([]);
+      type(plain, 5);
+      type(named, 5);
+      expect(fixture.componentInstance.scores).toEqual([]);
+      expect(service.results()).toEqual({});
+    });
+  });
+
+  describe('HumanCadenceService', () => {
+    it('tracks several fields independently', () => {
+      const service = TestBed.inject(HumanCadenceService);
+      const a = document.createElement('input');
+      const b = document.createElement('textarea');
+      const onScore = vi.fn();
+      service.track('a', a, { onScore });
+      service.track('b', b);
+      type(a, 3);
+      type(b, 5);
+
+      expect(service.results().a.sampleCount).toBe(3);
+      expect(service.results().b.sampleCount).toBe(5);
+      expect(onScore).toHaveBeenCalled();
+      expect(service.analyze('b')?.sampleCount).toBe(5);
+      expect(service.analyze('missing')).toBeUndefined();
+    });
+
+    it('replaces an instance tracked under the same name', () => {
+      const service = TestBed.inject(HumanCadenceService);
+      const first = document.createElement('input');
+      const second = document.createElement('input');
+      const stopFirst = service.track('field', first);
+      service.track('field', second);
+      type(first, 3);
+      expect(service.results().field).toBeUndefined();
+
+      // The stale stop function must not remove the replacement
+      stopFirst();
+      expect(service.names()).toEqual(['field']);
+    });
+
+    it('reset() without a name clears every field', () => {
+      const service = TestBed.inject(HumanCadenceService);
+      const a = document.createElement('input');
+      service.track('a', a);
+      type(a, 3);
+      service.reset();
+      expect(service.results()).toEqual({});
+      expect(service.snapshot('a')?.dwells).toEqual([]);
+      service.ngOnDestroy();
+      expect(service.snapshot('a')).toBeNull();
+    });
+  });
+});
@@ -1,11 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import {
   computeLogNormalityScore,
+  computeDigraphLogNormalityScore,
   computeUniformityScore,
   detectSpoof,
 } from '../src/anti-spoof';
 import { generateConstantBot, generateRandomJitterBot, generateGaussianBot } from './fixtures/bot-profiles';
-import { generateHumanLike } from './fixtures/human-profiles';
+import { generateHumanLike, generateDigraphHuman } from './fixtures/human-profiles';
 
 describe('computeLogNormalityScore', () => {
   it('returns 0.5 (neutral) for insufficient data', () => {
@@ -33,6 +34,32 @@ describe('computeLogNormalityScore', () => {
   });
 });
 
+describe('computeDigraphLogNormalityScore', () => {
+  it('returns 0.5 (neutral) for insufficient data', () => {
+    expect(computeDigraphLogNormalityScore([1, 2, 3], [0, 1, 2])).toBe(0.5);
+  });
+
+  it('fits a digraph mixture better than a single log-normal', () => {
+    const { flights, classes } = generateDigraphHuman(80);
+    const single = computeLogNormalityScore(flights);
+    const perClass = computeDigraphLogNormalityScore(flights, classes);
+    expect(perClass).toBeGreaterThan(single);
+    expect(perClass).toBeGreaterThan(0.7);
+  });
+
+  it('returns 0 when every class is constant', () => {
+    const flights = [100, 100, 100, 200, 200, 200, 150, 150, 150];
+    const classes = [0, 0, 0, 1, 1, 1, 2, 2, 2];
+    expect(computeDigraphLogNormalityScore(flights, classes)).toBe(0);
+  });
+
+  it('pools sparse classes and falls back to the single fit when too few remain', () => {
+    const flights = [90, 110, 130, 150, 170];
+    const classes = [0, 1, 2, 3, 0];
+    expect(computeDigraphLogNormalityScore(flights, classes)).toBe(computeLogNormalityScore(flights));
+  });
+});
+
 describe('computeUniformityScore', () => {
   it('returns 0.5 for insufficient data', () => {
     expect(computeUniformityScore([1, 2])).toBe(0.5);
@@ -104,4 +131,20 @@ describe('detectSpoof', () => {
     expect(typeof result.uniformity).toBe('number');
     expect(typeof result.serialCorrelation).toBe('number');
   });
+
+  it('reports the KS statistics behind the fits', () => {
+    const human = generateHumanLike(80);
+    const result = detectSpoof(human.flights);
+    expect(result.logNormalFit?.critical).toBeCloseTo(1.22 / Math.sqrt(80), 10);
+    expect(result.logNormalFit?.statistic).toBeGreaterThan(0);
+    expect(result.uniformFit?.statistic).toBeGreaterThan(0);
+    // Constant flights have no range to test against a uniform distribution
+    expect(detectSpoof(generateConstantBot(50).flights).uniformFit).toBeUndefined();
+  });
+
+  it('uses the per-class model when classes align with flights', () => {
+    const { flights, classes } = generateDigraphHuman(80);
+    expect(detectSpoof(flights, classes).logNormality).toBe(computeDigraphLogNormalityScore(flights, classes));
+    expect(detectSpoof(flights, classes.slice(1)).logNormality).toBe(computeLogNormalityScore(flights));
+  });
 });
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAttestation, verifyAttestation, digestTimingData } from '../src/attestation';
+import { createCadence } from '../src/index';
+import type { CadenceResult } from '../src/types';
+import { generateHumanLike } from './fixtures/human-profiles';
+
+const KEY = 'session-secret';
+const NONCE = 'n-123';
+const NOW = 1_700_000_000_000;
+
+const result: CadenceResult = {
+  score: 0.82,
+  metrics: {
+    dwellVariance: 0.8,
+    flightFit: 0.7,
+    timingEntropy: 0.9,
+    correctionRatio: 0.6,
+    burstRegularity: 0.8,
+    rolloverRate: 0.9,
+  },
+  sampleCount: 40,
+  confident: true,
+  signals: {
+    pasteDetected: false,
+    syntheticEvents: 0,
+    insufficientData: false,
+    inputWithoutKeystrokes: false,
+    inputWithoutKeystrokeCount: 0,
+    virtualKeyboard: false,
+    compositionSessions: 0,
+  },
+  classification: 'human',
+};
+
+function tamper(token: string, edit: (payload: Record<string, unknown>) => void): string {
+  const [body, sig] = token.split('.');
+  const json = JSON.parse(atob(body.replace(/-/g, '+').replace(/_/g, '/')));
+  edit(json);
+  const forged = btoa(JSON.stringify(json)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${forged}.${sig}`;
+}
+
+describe('digestTimingData', () => {
+  it('is stable for equal data and changes with any value', async () => {
+    const timing = generateHumanLike(20);
+    const a = await digestTimingData(timing);
+    const b = await digestTimingData({ ...timing, dwells: [...timing.dwells] });
+    const c = await digestTimingData({ ...timing, total: timing.total + 1 });
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(a).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+});
+
+describe('createAttestation / verifyAttestation', () => {
+  const timing = generateHumanLike(40);
+
+  it('round-trips a valid token', async () => {
+    const token = await createAttestation(result, timing, { key: KEY, nonce: NONCE, now: NOW });
+    const verified = await verifyAttestation(token, { key: KEY, nonce: NONCE, now: NOW + 1000, timing });
+    expect(verified.valid).toBe(true);
+    if (!verified.valid) return;
+    expect(verified.payload.score).toBe(0.82);
+    expect(verified.payload.classification).toBe('human');
+    expect(verified.payload.sampleCount).toBe(40);
+    expect(verified.payload.nonce).toBe(NONCE);
+  });
+
+  it('accepts a pre-imported CryptoKey and raw bytes', async () => {
+    const raw = new TextEncoder().encode(KEY);
+    const key = await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    const token = await createAttestation(result, timing, { key, nonce: NONCE, now: NOW });
+    const verified = await verifyAttestation(token, { key: raw, nonce: NONCE, now: NOW });
+    expect(verified.valid).toBe(true);
+  });
+
+  it('rejects a hand-edited payload', async () => {
+    const token = await createAttestation({ ...result, score: 0.1, classification: 'bot' }, timing, { key: KEY, nonce: NONCE, now: NOW });
+    const forged = tamper(token, (p) => { p.score = 0.99; p.classification = 'human'; });
+    expect(await verifyAttestation(forged, { key: KEY, nonce: NONCE, now: NOW }))
+      .toEqual({ valid: false, error: 'signature' });
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const token = await createAttestation(result, timing, { key: 'other', nonce: NONCE, now: NOW });
+    expect(await verifyAttestation(token, { key: KEY, nonce: NONCE, now: NOW }))
+      .toEqual({ valid: false, error: 'signature' });
+  });
+
+  it('rejects a replayed token once the nonce rotates', async () => {
+    const token = await createAttestation(result, timing, { key: KEY, nonce: NONCE, now: NOW });
+    expect(await verifyAttestation(token, { key: KEY, nonce: 'n-124', now: NOW }))
+      .toEqual({ valid: false, error: 'nonce' });
+  });
+
+  it('rejects expired and future-dated tokens', async () => {
+    const token = await createAttestation(result, timing, { key: KEY, nonce: NONCE, now: NOW });
+    expect(await verifyAttestation(token, { key: KEY, nonce: NONCE, now: NOW + 10 * 60 * 1000 }))
+      .toEqual({ valid: false, error: 'expired' });
+    expect(await verifyAttestation(token, { key: KEY, nonce: NONCE, now: NOW - 60 * 1000 }))
+      .toEqual({ valid: false, error: 'expired' });
+    expect((await verifyAttestation(token, { key: KEY, nonce: NONCE, now: NOW + 60 * 1000, maxAgeMs: 120 * 1000 })).valid)
+      .toBe(true);
+  });
+
+  it('rejects a token whose digest does not match the submitted timing', async () => {
+    const token = await createAttestation(result, timing, { key: KEY, nonce: NONCE, now: NOW });
+    const other = generateHumanLike(40, 999);
+    expect(await verifyAttestation(token, { key: KEY, nonce: NONCE, now: NOW, timing: other }))
+      .toEqual({ valid: false, error: 'digest' });
+  });
+
+  it('rejects malformed tokens', async () => {
+    for (const token of ['', 'abc', 'a.b.c', '!!.??']) {
+      expect(await verifyAttestation(token, { key: KEY, nonce: NONCE, now: NOW }))
+        .toEqual({ valid: false, error: expect.stringMatching(/malformed|signature/) });
+    }
+  });
+});
+
+describe('Cadence.attest', () => {
+  let mockNow: { value: number };
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('signs the current result and snapshot', async () => {
+    const target = document.createElement('input');
+    const cadence = createCadence(target, { scheduling: 'manual' });
+    cadence.start();
+    for (let i = 0; i < 10; i++) {
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+      mockNow.value += 40 + (i % 3) * 15;
+      target.dispatchEvent(new KeyboardEvent('keyup', { key: 'a' }));
+      mockNow.value += 90 + (i % 4) * 30;
+    }
+
+    const token = await cadence.attest({ key: KEY, nonce: NONCE });
+    const verified = await verifyAttestation(token, { key: KEY, nonce: NONCE, timing: cadence.snapshot() });
+    expect(verified.valid).toBe(true);
+    if (verified.valid) expect(verified.payload.sampleCount).toBe(10);
+    cadence.destroy();
+  });
+});
@@ -97,4 +97,32 @@ describe('createBuffer', () => {
     expect(buf.toArray()).toEqual([10]);
     expect(buf.length).toBe(1);
   });
+
+  it('resize to a smaller capacity keeps the most recent values', () => {
+    const buf = createBuffer(5);
+    for (let i = 1; i <= 7; i++) buf.push(i);
+    buf.resize(3);
+    expect(buf.toArray()).toEqual([5, 6, 7]);
+    buf.push(8);
+    expect(buf.toArray()).toEqual([6, 7, 8]);
+  });
+
+  it('resize to a larger capacity keeps every value', () => {
+    const buf = createBuffer(3);
+    for (let i = 1; i <= 4; i++) buf.push(i);
+    buf.resize(5);
+    expect(buf.length).toBe(3);
+    buf.push(5);
+    buf.push(6);
+    buf.push(7);
+    expect(buf.toArray()).toEqual([3, 4, 5, 6, 7]);
+  });
+
+  it('rejects capacities that are not positive integers', () => {
+    expect(() => createBuffer(0)).toThrow(RangeError);
+    const buf = createBuffer(3);
+    buf.push(1);
+    for (const capacity of [0, -1, 2.5, NaN]) expect(() => buf.resize(capacity)).toThrow('positive integer');
+    expect(buf.toArray()).toEqual([1]);
+  });
 });
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { calibrate, separation, validateCalibrationProfile, DEFAULT_SCORING_PARAMETERS, DEFAULT_WEIGHTS } from '../../src/calibration/index';
+import { createCadence } from '../../src/index';
+import { evaluate } from '../../src/evaluation/index';
+import { verifyTimingData } from '../../src/server/index';
+import { generateGaussianBot, generateRandomJitterBot } from '../fixtures/bot-profiles';
+import { generateHumanLike, generateMobileHuman } from '../fixtures/human-profiles';
+
+function labeled(count: number) {
+  return {
+    human: Array.from({ length: count }, (_, i) => generateHumanLike(40, 1000 + i)),
+    bot: Array.from({ length: count }, (_, i) => (i % 2 === 0
+      ? generateGaussianBot(40, 2000 + i)
+      : generateRandomJitterBot(40, 3000 + i))),
+  };
+}
+
+describe('separation', () => {
+  it('reports a perfect split', () => {
+    expect(separation([0.8, 0.9], [0.1, 0.2])).toEqual({ auc: 1, eer: 0, threshold: 0.8 });
+  });
+
+  it('reports an inverted split', () => {
+    expect(separation([0.1, 0.2], [0.8, 0.9]).auc).toBe(0);
+  });
+
+  it('counts ties as half', () => {
+    const result = separation([0.5, 0.5], [0.5, 0.5]);
+    expect(result.auc).toBe(0.5);
+    expect(result.eer).toBe(0.5);
+  });
+
+  it('finds the equal error rate on overlapping scores', () => {
+    // Threshold 0.6 rejects one human in four and accepts one bot in four
+    const result = separation([0.3, 0.6, 0.7, 0.9], [0.1, 0.2, 0.4, 0.8]);
+    expect(result.eer).toBe(0.25);
+    expect(result.threshold).toBe(0.6);
+    expect(result.auc).toBe(12 / 16);
+  });
+
+  it('throws without both classes', () => {
+    expect(() => separation([], [0.1])).toThrow('at least one human and one bot');
+  });
+});
+
+describe('calibrate', () => {
+  const data = labeled(8);
+
+  it('never does worse than the defaults on its own data', () => {
+    const baseline = calibrate(data, { rounds: 0 });
+    const profile = calibrate(data, { rounds: 3 });
+    expect(baseline.weights).toEqual(calibrate(data, { rounds: 0 }).weights);
+    expect(profile.auc).toBeGreaterThanOrEqual(baseline.auc);
+    expect(profile.samples).toEqual({ human: 8, bot: 8 });
+    expect(profile.v).toBe(1);
+  });
+
+  it('returns weights that sum to 1 and every parameter', () => {
+    const profile = calibrate(data, { rounds: 2 });
+    const total = Object.values(profile.weights).reduce((sum, weight) => sum + weight, 0);
+    expect(total).toBeCloseTo(1, 10);
+    expect(Object.keys(profile.parameters).sort()).toEqual(Object.keys(DEFAULT_SCORING_PARAMETERS).sort());
+  });
+
+  it('is deterministic', () => {
+    expect(calibrate(data, { rounds: 2 })).toEqual(calibrate(data, { rounds: 2 }));
+  });
+
+  it('can fit weights only', () => {
+    const profile = calibrate(data, { rounds: 2, fitParameters: false, objective: 'eer' });
+    expect(profile.parameters).toEqual(DEFAULT_SCORING_PARAMETERS);
+  });
+
+  it('starts from the defaults without rounds', () => {
+    const profile = calibrate(data, { rounds: 0 });
+    const sum = Object.values(DEFAULT_WEIGHTS).reduce((a, b) => a + b, 0);
+    expect(profile.weights.rolloverRate).toBeCloseTo(DEFAULT_WEIGHTS.rolloverRate / sum, 10);
+  });
+
+  it('throws without both classes', () => {
+    expect(() => calibrate({ human: data.human, bot: [] })).toThrow('at least one human and one bot');
+  });
+
+  it('is applied by verifyTimingData and createCadence', () => {
+    const profile = {
+      ...calibrate(data, { rounds: 0 }),
+      weights: { ...DEFAULT_WEIGHTS, dwellVariance: 0, flightFit: 1 },
+    };
+    const verdict = verifyTimingData(data.human[0], { calibration: profile });
+    const plain = verifyTimingData(data.human[0]);
+    if (!verdict.valid || !plain.valid) throw new Error('invalid payload');
+    expect(verdict.result.score).not.toBe(plain.result.score);
+
+    const cadence = createCadence(new EventTarget(), { scheduling: 'manual', calibration: profile, record: true });
+    const recording = JSON.parse(cadence.exportRecording());
+    expect(recording.config.calibration).toEqual(profile);
+    expect(recording.config.weights).toEqual(profile.weights);
+    cadence.destroy();
+  });
+
+  it('leaves virtual keyboard scoring to the default parameters', () => {
+    const base = calibrate(data, { rounds: 0 });
+    const skewed = {
+      ...base,
+      parameters: Object.fromEntries(
+        Object.entries(base.parameters).map(([key, value]) => [key, value * 3]),
+      ) as typeof base.parameters,
+    };
+    const payload = { dwells: [], flights: [], corrections: 0, rollovers: 0, total: 0, profile: 'virtual', virtual: generateMobileHuman(40) };
+    const calibrated = verifyTimingData(payload, { mobileMode: 'always', calibration: skewed });
+    const plain = verifyTimingData(payload, { mobileMode: 'always' });
+    if (!calibrated.valid || !plain.valid) throw new Error('invalid payload');
+    expect(calibrated.result.score).toBe(plain.result.score);
+  });
+
+  it('classifies at the profile threshold, not only ranks better', () => {
+    const profile = calibrate(data, { rounds: 3 });
+    const sessions = [
+      ...data.human.map((session) => ({ label: 'human' as const, data: session })),
+      ...data.bot.map((session) => ({ label: 'bot' as const, data: session })),
+    ];
+    const plain = evaluate(sessions);
+    const calibrated = evaluate(sessions, { calibration: profile });
+    // The defaults let bots through that score above 0.70 but below every human
+    expect(plain.confusion.bot.human).toBeGreaterThan(0);
+    expect(calibrated.confusion.bot.human).toBe(0);
+    expect(calibrated.confusion.human.human).toBe(plain.confusion.human.human);
+
+    const leaked = data.bot.find((session) => {
+      const verdict = verifyTimingData(session);
+      return verdict.valid && verdict.result.classification === 'human';
+    });
+    if (!leaked) throw new Error('no bot classified as human by default');
+    const verdict = verifyTimingData(leaked, { calibration: profile });
+    if (!verdict.valid) throw new Error('invalid payload');
+    expect(verdict.result.classification).toBe('unknown');
+    // Explicit thresholds still take precedence
+    const explicit = verifyTimingData(leaked, { calibration: profile, classificationThresholds: { unknownToHuman: 0.7 } });
+    if (!explicit.valid) throw new Error('invalid payload');
+    expect(explicit.result.classification).toBe('human');
+
+    const cadence = createCadence(new EventTarget(), { scheduling: 'manual', calibration: profile, record: true });
+    const recording = JSON.parse(cadence.exportRecording());
+    expect(recording.config.classificationThresholds.unknownToHuman).toBe(profile.threshold);
+    cadence.destroy();
+  });
+});
+
+describe('validateCalibrationProfile', () => {
+  const profile = calibrate(labeled(2), { rounds: 0 });
+
+  it('accepts a profile from calibrate() after a JSON round trip', () => {
+    const result = validateCalibrationProfile(JSON.parse(JSON.stringify(profile)));
+    expect(result).toEqual({ valid: true, profile });
+  });
+
+  it('reports the first field scoring would trip on', () => {
+    const check = (value: unknown) => {
+      const result = validateCalibrationProfile(value);
+      return result.valid ? null : result.error;
+    };
+    expect(check(null)).toBe('profile must be an object');
+    expect(check({ ...profile, v: 2 })).toBe('v must be 1');
+    expect(check({ ...profile, weights: undefined })).toBe('weights must be an object');
+    expect(check({ ...profile, weights: { ...profile.weights, flightFit: '0.2' } })).toBe('weights.flightFit must be a finite number');
+    expect(check({ ...profile, weights: { ...profile.weights, flightFit: -0.1 } })).toBe('weights.flightFit must not be negative');
+    expect(check({ ...profile, parameters: { ...profile.parameters, dwellUpSlope: null } })).toBe('parameters.dwellUpSlope must be a finite number');
+    expect(check({ ...profile, threshold: 1.5 })).toBe('threshold must be a number between 0 and 1');
+    expect(check({ ...profile, auc: undefined })).toBe('auc must be a number between 0 and 1');
+    expect(check({ ...profile, samples: { human: 2 } })).toBe('samples must hold human and bot counts');
+  });
+
+  it('drops unknown weights, parameters and fields', () => {
+    const result = validateCalibrationProfile({
+      ...profile,
+      weights: { ...profile.weights, typo: 0.4 },
+      parameters: { ...profile.parameters, extraSlope: 3 },
+      note: 'from staging',
+    });
+    expect(result).toEqual({ valid: true, profile });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { runCli, USAGE, type CliIO } from '../../src/cli/index';
+import { calibrate, DEFAULT_WEIGHTS } from '../../src/calibration/index';
+import { verifyTimingData } from '../../src/server/index';
+import { constantBot, humanTypist, toTimingData } from '../../src/testing/index';
+
+const HUMAN = toTimingData(humanTypist());
+const BOT = toTimingData(constantBot());
+
+interface Run {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/** Run the CLI against in-memory files; missing files fail the way fs does. */
+async function run(argv: string[], files: Record<string, string> = {}, stdin = ''): Promise<Run> {
+  let stdout = '';
+  let stderr = '';
+  const io: CliIO = {
+    readFile(path) {
+      if (!(path in files)) throw new Error(`ENOENT: no such file '${path}'`);
+      return [files[path]];
+    },
+    stdin: [stdin],
+    stdout: (text) => { stdout += text; },
+    stderr: (text) => { stderr += text; },
+  };
+  const code = await runCli(argv, io);
+  return { code, stdout, stderr };
+}
+
+function jsonLines(text: string): Record<string, unknown>[] {
+  return text.trim().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>);
+}
+
+function expectedScore(payload: unknown): number {
+  const verdict = verifyTimingData(payload);
+  if (!verdict.valid) throw new Error(verdict.error);
+  return verdict.result.score;
+}
+
+describe('runCli', () => {
+  it('prints a table by default', async () => {
+    const result = await run(['human.json', 'bot.json'], {
+      'human.json': JSON.stringify(HUMAN, null, 2),
+      'bot.json': JSON.stringify(BOT),
+    });
+    expect(result.code).toBe(0);
+    expect(result.stderr).toBe('');
+    const [header, human, bot] = result.stdout.trim().split('\n');
+    expect(header).toMatch(/^source\s+score\s+class\s+confident\s+samples\s+dwellVariance/);
+    expect(human).toMatch(/^human\.json\s+\d\.\d{3}\s+human\s+yes/);
+    expect(bot).toMatch(/^bot\.json\s+\d\.\d{3}\s+bot\s+yes/);
+    expect(bot).toContain('CONSTANT_FLIGHTS');
+  });
+
+  it('prints one JSON verdict per snapshot with metrics and reason codes', async () => {
+    const result = await run(['-f', 'json', 'human.json'], { 'human.json': JSON.stringify(HUMAN) });
+    expect(result.code).toBe(0);
+    const [line] = jsonLines(result.stdout);
+    expect(line.source).toBe('human.json');
+    expect(line.score).toBe(expectedScore(HUMAN));
+    expect(line).toHaveProperty('metrics.dwellVariance');
+    expect(line).toHaveProperty('explanation.reasons');
+    expect(line).toHaveProperty('spoof.genuineScore');
+  });
+
+  it('prints CSV with a header row', async () => {
+    const result = await run(['--format=csv', 'bot.json'], { 'bot.json': JSON.stringify(BOT) });
+    const [header, row] = result.stdout.trim().split('\n');
+    expect(header.split(',').slice(0, 5)).toEqual(['source', 'score', 'classification', 'confident', 'sampleCount']);
+    expect(header.split(',')).toHaveLength(row.split(',').length);
+    expect(row.split(',').slice(0, 3)).toEqual(['bot.json', expectedScore(BOT).toFixed(3), 'bot']);
+  });
+
+  it('reads NDJSON streams line by line', async () => {
+    const ndjson = `${JSON.stringify(HUMAN)}\n\n${JSON.stringify(BOT)}\n`;
+    const result = await run(['-f', 'json', 'sessions.ndjson'], { 'sessions.ndjson': ndjson });
+    expect(jsonLines(result.stdout).map((line) => [line.source, line.score])).toEqual([
+      ['sessions.ndjson:1', expectedScore(HUMAN)],
+      ['sessions.ndjson:3', expectedScore(BOT)],
+    ]);
+  });
+
+  it('reads JSON arrays of snapshots', async () => {
+    const result = await run(['-f', 'json', 'all.json'], { 'all.json': JSON.stringify([HUMAN, BOT], null, 2) });
+    expect(jsonLines(result.stdout).map((line) => line.source)).toEqual(['all.json#0', 'all.json#1']);
+  });
+
+  it('reads stdin with no file or with -', async () => {
+    const stdin = JSON.stringify(HUMAN);
+    expect(jsonLines((await run(['-f', 'json'], {}, stdin)).stdout)[0].source).toBe('stdin');
+    expect(jsonLines((await run(['-f', 'json', '-'], {}, stdin)).stdout)[0].source).toBe('stdin');
+  });
+
+  it('reports invalid snapshots and keeps going', async () => {
+    const ndjson = `${JSON.stringify({ dwells: 'nope' })}\n{not json\n${JSON.stringify(BOT)}\n`;
+    const table = await run(['in.ndjson'], { 'in.ndjson': ndjson });
+    expect(table.code).toBe(1);
+    expect(table.stderr).toMatch(/^in\.ndjson:1: .+\nin\.ndjson:2: invalid JSON/);
+    expect(table.stdout).toMatch(/in\.ndjson:3\s+\d\.\d{3}\s+bot/);
+
+    const json = await run(['-f', 'json', 'in.ndjson'], { 'in.ndjson': ndjson });
+    expect(json.code).toBe(1);
+    expect(json.stderr).toBe('');
+    expect(jsonLines(json.stdout).map((line) => Object.keys(line).includes('error'))).toEqual([true, true, false]);
+  });
+
+  it('reports unreadable files', async () => {
+    const result = await run(['missing.json']);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toMatch(/^missing\.json: cannot read: ENOENT/);
+  });
+
+  it('applies weight and threshold overrides', async () => {
+    const files = { 'human.json': JSON.stringify(HUMAN) };
+    const expected = verifyTimingData(HUMAN, { weights: { dwellVariance: 0 }, classificationThresholds: { unknownToHuman: 0.99 } });
+    if (!expected.valid) throw new Error(expected.error);
+    const result = await run(['-f', 'json', '--weights', 'dwellVariance=0', '--thresholds=unknownToHuman=0.99', 'human.json'], files);
+    const [line] = jsonLines(result.stdout);
+    expect(line.score).toBe(expected.result.score);
+    expect(line.classification).toBe('unknown');
+  });
+
+  it('applies a calibration profile', async () => {
+    const calibration = { ...calibrate({ human: [HUMAN], bot: [BOT] }, { rounds: 0 }), weights: { ...DEFAULT_WEIGHTS, dwellVariance: 0 } };
+    const expected = verifyTimingData(HUMAN, { calibration });
+    if (!expected.valid) throw new Error(expected.error);
+    const result = await run(['-f', 'json', '--calibration', 'profile.json', 'human.json'], {
+      'human.json': JSON.stringify(HUMAN),
+      'profile.json': JSON.stringify(calibration),
+    });
+    expect(jsonLines(result.stdout)[0].score).toBe(expected.result.score);
+
+    const missing = await run(['--calibration', 'nope.json', 'human.json'], { 'human.json': JSON.stringify(HUMAN) });
+    expect(missing.code).toBe(2);
+    expect(missing.stderr).toMatch(/cannot read calibration nope\.json/);
+  });
+
+  it('rejects a malformed calibration profile instead of scoring NaN', async () => {
+    const profile = calibrate({ human: [HUMAN], bot: [BOT] }, { rounds: 0 });
+    const partial = { ...profile, weights: { dwellVariance: 0 } };
+    const result = await run(['--calibration', 'profile.json', 'human.json'], {
+      'human.json': JSON.stringify(HUMAN),
+      'profile.json': JSON.stringify(partial),
+    });
+    expect(result.code).toBe(2);
+    expect(result.stdout).toBe('');
+    expect(result.stderr).toMatch(/cannot read calibration profile\.json: weights\.flightFit must be a finite number/);
+  });
+
+  it('rejects bad usage with exit code 2', async () => {
+    for (const argv of [['--bogus'], ['-f', 'xml'], ['-w', '0'], ['--weights', 'nope=1'], ['--thresholds', 'botToUnknown=x']]) {
+      const result = await run(argv);
+      expect(result.code).toBe(2);
+      expect(result.stderr).toMatch(/^human-cadence: /);
+      expect(result.stderr).toContain(USAGE);
+    }
+  });
+
+  it('prints usage with --help', async () => {
+    const result = await run(['--help']);
+    expect(result).toEqual({ code: 0, stdout: USAGE, stderr: '' });
+  });
+});
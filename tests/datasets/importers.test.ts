@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkSessions,
+  importAalto,
+  importBuffalo,
+  importCmu,
+  readLines,
+  sessionToTimingData,
+  type DatasetSession,
+} from '../../src/datasets/index';
+import { verifyTimingData } from '../../src/server/index';
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+}
+
+/** Split text into small byte chunks, the way a file stream delivers it. */
+function* byteChunks(text: string, size = 7): Generator<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let i = 0; i < bytes.length; i += size) yield bytes.subarray(i, i + size);
+}
+
+const CMU = [
+  'subject,sessionIndex,rep,H.period,DD.period.t,UD.period.t,H.t,DD.t.i,UD.t.i,H.i',
+  's002,1,1,0.1491,0.3979,0.2488,0.1069,0.1674,0.0605,0.1169',
+  's002,1,2,0.1111,0.0500,-0.0611,0.0900,0.2000,0.1100,0.0800',
+].join('\r\n');
+
+const BUFFALO = [
+  'H KeyDown 63578429889000',
+  'H KeyUp 63578429889090',
+  'I KeyDown 63578429889200',
+  'I KeyDown 63578429889230',
+  'Space KeyDown 63578429889260',
+  'I KeyUp 63578429889300',
+  'Space KeyUp 63578429889340',
+  'Back KeyDown 63578429889600',
+  'Back KeyUp 63578429889660',
+  'X KeyUp 63578429889700',
+].join('\n');
+
+const AALTO = [
+  'PARTICIPANT_ID\tTEST_SECTION_ID\tSENTENCE\tUSER_INPUT\tKEYSTROKE_ID\tPRESS_TIME\tRELEASE_TIME\tLETTER\tKEYCODE',
+  '5\t1\tHi\tHi\t1\t1473275220878\t1473275220968\tH\t72',
+  '5\t1\tHi\tHi\t2\t1473275221100\t1473275221180\ti\t73',
+  '5\t1\tHi\tHi\t3\t1473275221300\t1473275221350\tBKSP\t8',
+  '5\t2\tOk\tOk\t4\t1473275230000\t1473275230090\tO\t79',
+  '5\t2\tOk\tOk\t5\t1473275230050\t1473275230120\tk\t75',
+  '5\t2\tOk\tOk\t6\t1473275230200\t\tk\t75',
+].join('\n');
+
+describe('readLines', () => {
+  it('splits chunks on line breaks, across chunk and multi-byte boundaries', async () => {
+    const text = 'añb\r\ncé\n\nlast';
+    expect(await collect(readLines(byteChunks(text, 1)))).toEqual(['añb', 'cé', '', 'last']);
+    expect(await collect(readLines([text]))).toEqual(['añb', 'cé', '', 'last']);
+  });
+});
+
+describe('importCmu', () => {
+  it('turns each repetition into a session in ms', async () => {
+    const sessions = await collect(importCmu(byteChunks(CMU)));
+    expect(sessions.map((s) => [s.subject, s.session])).toEqual([['s002', '1:1'], ['s002', '1:2']]);
+    const [first] = sessions;
+    expect(first.events).toHaveLength(3);
+    expect(first.events[1].pressTime).toBeCloseTo(397.9, 6);
+    expect(first.events[2].releaseTime - first.events[2].pressTime).toBeCloseTo(116.9, 6);
+  });
+
+  it('marks a negative up-down time as a rollover', async () => {
+    const [, second] = await collect(importCmu([CMU]));
+    expect(second.events.map((e) => e.isRollover)).toEqual([false, true, false]);
+  });
+
+  it('rejects a file without the CMU header', async () => {
+    await expect(collect(importCmu(['a,b,c\n1,2,3']))).rejects.toThrow('importCmu: line 1');
+  });
+
+  it('rejects non-numeric timings with their line number', async () => {
+    const broken = CMU.replace('0.1069', 'n/a');
+    await expect(collect(importCmu([broken]))).rejects.toThrow('importCmu: line 2');
+  });
+});
+
+describe('importBuffalo', () => {
+  it('pairs keydowns with keyups, skipping repeats and orphans', async () => {
+    const [session] = await collect(importBuffalo(byteChunks(BUFFALO), { subject: '001', session: '1' }));
+    expect(session.subject).toBe('001');
+    expect(session.events.map((e) => e.releaseTime - e.pressTime)).toEqual([90, 100, 80, 60]);
+    expect(session.events.map((e) => e.isRollover)).toEqual([false, false, true, false]);
+    expect(session.events.map((e) => e.isCorrection)).toEqual([false, false, false, true]);
+  });
+
+  it('yields nothing for an empty file', async () => {
+    expect(await collect(importBuffalo(['']))).toEqual([]);
+  });
+});
+
+describe('importAalto', () => {
+  it('groups rows by test section and flags corrections', async () => {
+    const sessions = await collect(importAalto(byteChunks(AALTO, 13)));
+    expect(sessions.map((s) => [s.subject, s.session, s.events.length])).toEqual([['5', '1', 3], ['5', '2', 2]]);
+    expect(sessions[0].events.map((e) => e.isCorrection)).toEqual([false, false, true]);
+    expect(sessions[1].events[1].isRollover).toBe(true);
+  });
+
+  it('rejects a file without the expected columns', async () => {
+    await expect(collect(importAalto(['PARTICIPANT_ID\tPRESS_TIME\n']))).rejects.toThrow('importAalto: line 1');
+  });
+
+  it('yields each section before reading the next', async () => {
+    const lines = AALTO.split('\n');
+    let read = 0;
+    async function* counted() {
+      for (const line of lines) {
+        read++;
+        yield `${line}\n`;
+      }
+    }
+    const sessions = importAalto(counted());
+    await sessions.next();
+    expect(read).toBe(5);
+  });
+});
+
+describe('chunkSessions', () => {
+  const session: DatasetSession = {
+    subject: 'a',
+    session: 's',
+    events: Array.from({ length: 25 }, (_, i) => ({ pressTime: i * 200, releaseTime: i * 200 + 80, isCorrection: false, isRollover: false })),
+  };
+
+  it('splits into full windows and drops the tail', async () => {
+    const chunks = await collect(chunkSessions([session], 10));
+    expect(chunks.map((c) => [c.session, c.events.length])).toEqual([['s#0', 10], ['s#1', 10]]);
+    expect(chunks[1].events[0].pressTime).toBe(2000);
+  });
+
+  it('rejects a size below 1', async () => {
+    await expect(collect(chunkSessions([session], 0))).rejects.toThrow('at least 1');
+  });
+});
+
+describe('sessionToTimingData', () => {
+  it('derives a payload the server accepts', async () => {
+    const [session] = await collect(importAalto([AALTO]));
+    const data = sessionToTimingData(session);
+    expect(data).toMatchObject({ dwells: [90, 80, 50], flights: [132, 120], corrections: 1, rollovers: 0, total: 3 });
+    expect(data.events).toBe(session.events);
+    expect(verifyTimingData(data).valid).toBe(true);
+  });
+});
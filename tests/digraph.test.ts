@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  keyPosition,
+  transitionClass,
+  transitionTarget,
+  UNKNOWN_POSITION,
+  FLIGHT_CLASS_SAME_ROW,
+  FLIGHT_CLASS_ROW_CHANGE,
+  FLIGHT_CLASS_ALTERNATE,
+  FLIGHT_CLASS_OTHER,
+} from '../src/digraph';
+
+describe('keyPosition', () => {
+  it('maps alphanumeric codes to hand/row positions', () => {
+    expect(keyPosition('KeyA')).toBe(keyPosition('KeyF'));
+    expect(keyPosition('KeyJ')).toBe(keyPosition('Semicolon'));
+    expect(keyPosition('KeyA')).not.toBe(keyPosition('KeyJ'));
+    expect(keyPosition('KeyQ')).not.toBe(keyPosition('KeyA'));
+  });
+
+  it('returns UNKNOWN_POSITION for unmapped or missing codes', () => {
+    expect(keyPosition('Space')).toBe(UNKNOWN_POSITION);
+    expect(keyPosition('ArrowLeft')).toBe(UNKNOWN_POSITION);
+    expect(keyPosition('')).toBe(UNKNOWN_POSITION);
+    expect(keyPosition(undefined)).toBe(UNKNOWN_POSITION);
+  });
+});
+
+describe('transitionClass', () => {
+  it('classifies same hand, same row', () => {
+    expect(transitionClass(keyPosition('KeyA'), keyPosition('KeyS'))).toBe(FLIGHT_CLASS_SAME_ROW);
+  });
+
+  it('classifies same hand, row change', () => {
+    expect(transitionClass(keyPosition('KeyA'), keyPosition('KeyQ'))).toBe(FLIGHT_CLASS_ROW_CHANGE);
+    expect(transitionClass(keyPosition('KeyJ'), keyPosition('KeyM'))).toBe(FLIGHT_CLASS_ROW_CHANGE);
+  });
+
+  it('classifies alternate-hand transitions regardless of row', () => {
+    expect(transitionClass(keyPosition('KeyA'), keyPosition('KeyJ'))).toBe(FLIGHT_CLASS_ALTERNATE);
+    expect(transitionClass(keyPosition('KeyQ'), keyPosition('KeyM'))).toBe(FLIGHT_CLASS_ALTERNATE);
+  });
+
+  it('classifies transitions involving unmapped keys as other', () => {
+    expect(transitionClass(UNKNOWN_POSITION, keyPosition('KeyA'))).toBe(FLIGHT_CLASS_OTHER);
+    expect(transitionClass(keyPosition('KeyA'), UNKNOWN_POSITION)).toBe(FLIGHT_CLASS_OTHER);
+  });
+
+  it('finds a target position for every reachable transition class', () => {
+    for (let from = UNKNOWN_POSITION; from < 8; from++) {
+      for (let to = UNKNOWN_POSITION; to < 8; to++) {
+        const flightClass = transitionClass(from, to);
+        expect(transitionClass(from, transitionTarget(from, flightClass))).toBe(flightClass);
+      }
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { CADENCE_SCORE_EVENT, defineHumanCadence, HumanCadenceElement } from '../../src/element/index';
+import type { CadenceResult } from '../../src/types';
+
+function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
+  el.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true, composed: true }));
+}
+
+describe('<human-cadence>', () => {
+  let mockNow: { value: number };
+
+  function type(el: HTMLElement, count: number) {
+    for (let i = 0; i < count; i++) {
+      mockNow.value += 110 + (i % 7) * 23;
+      fireKey(el, 'keydown');
+      mockNow.value += 40 + (i % 5) * 9;
+      fireKey(el, 'keyup');
+    }
+    vi.runAllTimers();
+  }
+
+  function mount(html: string): HumanCadenceElement {
+    document.body.innerHTML = html;
+    return document.querySelector('human-cadence') as HumanCadenceElement;
+  }
+
+  beforeAll(() => {
+    defineHumanCadence();
+  });
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.useFakeTimers();
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('registers once and accepts custom tag names', () => {
+    expect(customElements.get('human-cadence')).toBe(HumanCadenceElement);
+    defineHumanCadence();
+    defineHumanCadence('signup-cadence');
+    expect(document.createElement('signup-cadence')).toBeInstanceOf(HumanCadenceElement);
+  });
+
+  it('analyzes the slotted input and reflects attributes', () => {
+    const element = mount('<human-cadence min-samples="5"><input type="email" /></human-cadence>');
+    const input = element.querySelector('input') as HTMLInputElement;
+    expect(element.target).toBe(input);
+    expect(element.shadowRoot?.querySelector('slot')).not.toBeNull();
+
+    type(input, 6);
+    expect(element.result?.sampleCount).toBe(6);
+    expect(element.result?.confident).toBe(true);
+    expect(element.getAttribute('classification')).toBe(element.result?.classification);
+    expect(element.getAttribute('score')).toBe(element.result?.score.toFixed(3));
+  });
+
+  it('dispatches a bubbling cadencescore event with the result', () => {
+    const element = mount('<form><human-cadence><textarea></textarea></human-cadence></form>');
+    const results: CadenceResult[] = [];
+    document.querySelector('form')?.addEventListener(CADENCE_SCORE_EVENT, (e) => {
+      results.push((e as CustomEvent<CadenceResult>).detail);
+    });
+    type(element.querySelector('textarea') as HTMLElement, 3);
+    expect(results.length).toBeGreaterThan(0);
+    expect(results[results.length - 1].sampleCount).toBe(3);
+  });
+
+  it('finds a field nested in a slotted wrapper', () => {
+    const element = mount('<human-cadence><label>Email <input /></label></human-cadence>');
+    expect(element.target).toBe(element.querySelector('input'));
+  });
+
+  it('applies window and sample changes in place', () => {
+    const element = mount('<human-cadence><input /></human-cadence>');
+    const input = element.querySelector('input') as HTMLInputElement;
+    type(input, 4);
+    element.setAttribute('min-samples', '3');
+    element.setAttribute('window-size', '2');
+    expect(element.snapshot()?.dwells).toHaveLength(2);
+    type(input, 1);
+    expect(element.result?.confident).toBe(false);
+    element.removeAttribute('window-size');
+    type(input, 1);
+    expect(element.result?.confident).toBe(true);
+  });
+
+  it('restarts when the mobile mode changes', () => {
+    const element = mount('<human-cadence><input /></human-cadence>');
+    type(element.querySelector('input') as HTMLElement, 4);
+    element.setAttribute('mobile-mode', 'auto');
+    expect(element.snapshot()?.dwells).toEqual([]);
+  });
+
+  it('ignores invalid configuration attributes', () => {
+    const element = mount('<human-cadence min-samples="lots" mobile-mode="sometimes"><input /></human-cadence>');
+    type(element.querySelector('input') as HTMLElement, 5);
+    expect(element.result?.confident).toBe(false);
+  });
+
+  it('reset() clears data and reflected attributes', () => {
+    const element = mount('<human-cadence><input /></human-cadence>');
+    type(element.querySelector('input') as HTMLElement, 3);
+    element.reset();
+    expect(element.result).toBeNull();
+    expect(element.hasAttribute('classification')).toBe(false);
+    expect(element.hasAttribute('score')).toBe(false);
+    expect(element.analyze()?.sampleCount).toBe(0);
+  });
+
+  it('stops listening when removed from the document', () => {
+    const element = mount('<human-cadence><input /></human-cadence>');
+    const input = element.querySelector('input') as HTMLInputElement;
+    element.remove();
+    type(input, 3);
+    expect(element.result).toBeNull();
+    expect(element.snapshot()).toBeNull();
+  });
+
+  it('waits for a field to be slotted', async () => {
+    const element = mount('<human-cadence></human-cadence>');
+    expect(element.target).toBeNull();
+    const input = document.createElement('input');
+    element.appendChild(input);
+    // slotchange is delivered as a microtask
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(element.target).toBe(input);
+  });
+});
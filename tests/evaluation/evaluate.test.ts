@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { evaluate, type LabeledSession } from '../../src/evaluation/index';
+import { verifyTimingData } from '../../src/server/index';
+import { constantBot, humanTypist, logNormalBot, toTimingData } from '../../src/testing/index';
+
+function dataset(count: number): LabeledSession[] {
+  const sessions: LabeledSession[] = [];
+  for (let seed = 1; seed <= count; seed++) {
+    sessions.push({ label: 'human', profile: 'average', data: toTimingData(humanTypist({ seed })) });
+    sessions.push({ label: 'human', profile: 'fast', data: toTimingData(humanTypist({ seed, speed: 'fast' })) });
+    sessions.push({ label: 'bot', profile: 'constant', data: toTimingData(constantBot({ seed, dwell: 40 + seed })) });
+    sessions.push({ label: 'bot', profile: 'logNormal', data: toTimingData(logNormalBot({ seed })) });
+  }
+  return sessions;
+}
+
+describe('evaluate', () => {
+  const sessions = dataset(6);
+  const report = evaluate(sessions);
+
+  it('counts sessions per label', () => {
+    expect(report.sessions).toEqual({ human: 12, bot: 12 });
+    expect(report.outcomes).toHaveLength(24);
+  });
+
+  it('scores each session as verifyTimingData does', () => {
+    sessions.forEach((session, i) => {
+      const verdict = verifyTimingData(session.data);
+      if (!verdict.valid) throw new Error(verdict.error);
+      expect(report.outcomes[i].score).toBe(verdict.result.score);
+      expect(report.outcomes[i].classification).toBe(verdict.result.classification);
+    });
+  });
+
+  it('builds a confusion matrix that adds up', () => {
+    const { human, bot } = report.confusion;
+    expect(human.human + human.unknown + human.bot).toBe(12);
+    expect(bot.human + bot.unknown + bot.bot).toBe(12);
+    expect(report.detectionRate).toBe(bot.bot / 12);
+    expect(report.falsePositiveRate).toBe(human.bot / 12);
+  });
+
+  it('reports per-profile rates, humans first', () => {
+    expect(report.profiles.map((p) => `${p.label}:${p.profile}`)).toEqual([
+      'human:average', 'human:fast', 'bot:constant', 'bot:logNormal',
+    ]);
+    const constant = report.profiles[2];
+    expect(constant.sessions).toBe(6);
+    expect(constant.botRate).toBe(1);
+    expect(report.profiles[0].botRate).toBe(0);
+  });
+
+  it('traces a monotone ROC curve from (0, 0) to (1, 1)', () => {
+    const { roc } = report;
+    expect(roc[0]).toEqual({ threshold: -Infinity, truePositiveRate: 0, falsePositiveRate: 0 });
+    expect(roc[1].threshold).toBe(Math.min(...report.outcomes.map((o) => o.score)));
+    for (let i = 1; i < roc.length; i++) {
+      expect(roc[i].threshold).toBeGreaterThan(roc[i - 1].threshold);
+      expect(roc[i].truePositiveRate).toBeGreaterThanOrEqual(roc[i - 1].truePositiveRate);
+      expect(roc[i].falsePositiveRate).toBeGreaterThanOrEqual(roc[i - 1].falsePositiveRate);
+    }
+    expect(roc[roc.length - 1]).toMatchObject({ truePositiveRate: 1, falsePositiveRate: 1 });
+    expect(report.auc).toBeGreaterThan(0.8);
+    expect(report.eer).toBeLessThan(0.25);
+  });
+
+  it('encloses the reported AUC under the ROC curve, origin segment included', () => {
+    const { roc } = report;
+    let area = 0;
+    for (let i = 1; i < roc.length; i++) {
+      const width = roc[i].falsePositiveRate - roc[i - 1].falsePositiveRate;
+      area += (width * (roc[i].truePositiveRate + roc[i - 1].truePositiveRate)) / 2;
+    }
+    expect(area).toBeCloseTo(report.auc, 10);
+  });
+
+  it('reflects config changes', () => {
+    const strict = evaluate(sessions, { classificationThresholds: { unknownToBot: 0.99, unknownToHuman: 0.995 } });
+    expect(strict.falsePositiveRate).toBe(1);
+    expect(strict.detectionRate).toBe(1);
+    expect(strict.auc).toBe(report.auc);
+
+    const reweighted = evaluate(sessions, { weights: { rolloverRate: 0, correctionRatio: 0 } });
+    expect(reweighted.auc).not.toBe(report.auc);
+  });
+
+  it('falls back to the label as profile name', () => {
+    const unnamed = evaluate(sessions.map(({ data, label }) => ({ data, label })));
+    expect(unnamed.profiles.map((p) => p.profile)).toEqual(['human', 'bot']);
+  });
+
+  it('throws without both labels', () => {
+    expect(() => evaluate(sessions.filter((s) => s.label === 'bot'))).toThrow('at least one human and one bot');
+  });
+});
@@ -58,3 +58,44 @@ export function generateHumanLike(count: number, seed: number = 123): TimingData
 
   return { dwells, flights, corrections, rollovers, total: count };
 }
+
+/**
+ * Simulated human flights as a mixture of per-digraph-class log-normals:
+ * alternate-hand transitions are fast, same-hand row changes slow.
+ * Returns flights with their aligned transition classes (see src/digraph.ts).
+ */
+export function generateDigraphHuman(count: number, seed: number = 321): { flights: number[]; classes: number[] } {
+  const rng = createRng(seed);
+  // [log-median, log-sigma] per class: same row, row change, alternate, other
+  const params: [number, number][] = [[4.6, 0.15], [5.6, 0.15], [3.9, 0.15], [4.9, 0.2]];
+
+  const flights: number[] = [];
+  const classes: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const cls = Math.floor(rng() * params.length);
+    const [mu, sigma] = params[cls];
+    flights.push(Math.exp(mu + sigma * normalRandom(rng)));
+    classes.push(cls);
+  }
+  return { flights, classes };
+}
+
+/**
+ * Simulated thumb typing on a virtual keyboard: slower log-normal
+ * inter-input intervals (median ~250ms), word gaps of 0.6–1.5s and a
+ * higher correction rate. No dwells or rollovers — virtual keyboards
+ * don't report them.
+ */
+export function generateMobileHuman(count: number, seed: number = 456): { intervals: number[]; corrections: number; total: number } {
+  const rng = createRng(seed);
+
+  const intervals: number[] = [];
+  for (let i = 0; i < count; i++) {
+    let interval = Math.exp(5.5 + 0.45 * normalRandom(rng));
+    if (rng() < 0.18) interval += 600 + rng() * 900;
+    intervals.push(Math.max(80, interval));
+  }
+
+  const corrections = Math.floor(count * (0.05 + rng() * 0.07));
+  return { intervals, corrections, total: count + 1 };
+}
@@ -0,0 +1,303 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFormCadence } from '../../src/form/index';
+
+function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
+  el.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true }));
+}
+
+function focus(el: EventTarget) {
+  el.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+}
+
+describe('createFormCadence', () => {
+  let form: HTMLFormElement;
+  let mockNow: { value: number };
+
+  /** Human-ish keystrokes: variable dwell and flight, a few rollovers. */
+  function typeInto(el: EventTarget, count: number, seed: number) {
+    let s = seed;
+    const rand = () => {
+      s = (s * 16807) % 2147483647;
+      return s / 2147483647;
+    };
+    for (let i = 0; i < count; i++) {
+      mockNow.value += 60 + rand() * 200;
+      fireKey(el, 'keydown');
+      if (i % 4 === 3) {
+        mockNow.value += 15;
+        fireKey(el, 'keydown');
+        mockNow.value += 20 + rand() * 30;
+        fireKey(el, 'keyup');
+      }
+      mockNow.value += 25 + rand() * 60;
+      fireKey(el, 'keyup');
+    }
+  }
+
+  /** One keystroke after `gap` ms, held for `dwell` ms. */
+  function press(el: EventTarget, gap: number, dwell: number) {
+    mockNow.value += gap;
+    fireKey(el, 'keydown');
+    mockNow.value += dwell;
+    fireKey(el, 'keyup');
+  }
+
+  function field(selector: string): HTMLElement {
+    const el = form.querySelector<HTMLElement>(selector);
+    if (!el) throw new Error(`missing ${selector}`);
+    return el;
+  }
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+    form = document.createElement('form');
+    form.innerHTML = `
+      <input name="first">
+      <input id="email" type="email">
+      <input type="checkbox" name="terms">
+      <textarea></textarea>
+      <button type="submit">Go</button>
+    `;
+    document.body.appendChild(form);
+  });
+
+  afterEach(() => {
+    form.remove();
+    vi.restoreAllMocks();
+  });
+
+  it('discovers text-like fields and names them', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    const names = cadence.analyze().fields.map((f) => f.name);
+    expect(names).toEqual(['first', 'email', 'field2']);
+    cadence.destroy();
+  });
+
+  it('honors a custom field selector', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual', fields: 'textarea' });
+    cadence.start();
+    expect(cadence.analyze().fields).toHaveLength(1);
+    cadence.destroy();
+  });
+
+  it('returns a neutral result before any input', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    const result = cadence.analyze();
+    expect(result.score).toBe(0.5);
+    expect(result.confident).toBe(false);
+    expect(result.classification).toBe('unknown');
+    cadence.destroy();
+  });
+
+  it('pools short fields into a confident verdict', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    typeInto(field('[name="first"]'), 8, 7);
+    typeInto(field('#email'), 10, 11);
+    typeInto(field('textarea'), 8, 13);
+    const result = cadence.analyze();
+
+    for (const f of result.fields) expect(f.result.confident).toBe(false);
+    expect(result.sampleCount).toBe(result.fields.reduce((n, f) => n + f.result.sampleCount, 0));
+    expect(result.confident).toBe(true);
+    expect(result.signals.insufficientData).toBe(false);
+    cadence.destroy();
+  });
+
+  it('pools timing data in snapshot()', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    typeInto(field('[name="first"]'), 3, 7);
+    typeInto(field('textarea'), 3, 13);
+    const snap = cadence.snapshot();
+    expect(snap.total).toBe(6);
+    expect(snap.dwells).toHaveLength(6);
+    // No flight across fields — each field starts its own chain
+    expect(snap.flights).toHaveLength(4);
+    cadence.destroy();
+  });
+
+  it('pools fields in first-focus order, not document order', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    focus(field('textarea'));
+    press(field('textarea'), 100, 30);
+    press(field('textarea'), 100, 31);
+    focus(field('[name="first"]'));
+    press(field('[name="first"]'), 100, 80);
+    press(field('[name="first"]'), 100, 81);
+    const snap = cadence.snapshot();
+    expect(snap.dwells).toEqual([30, 31, 80, 81]);
+    expect(snap.flights).toEqual([100, 100]);
+    cadence.destroy();
+  });
+
+  it('merges keystrokes by press time when the event log is recorded', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual', recordEvents: true });
+    cadence.start();
+    const first = field('[name="first"]');
+    const email = field('#email');
+    focus(first);
+    press(first, 100, 30);
+    press(first, 110, 31);
+    focus(email);
+    press(email, 500, 50);
+    press(email, 120, 51);
+    focus(first);
+    press(first, 600, 32);
+    press(first, 130, 33);
+
+    const snap = cadence.snapshot();
+    expect(snap.dwells).toEqual([30, 31, 50, 51, 32, 33]);
+    // Only flights within one field — the moves between fields are not flights
+    expect(snap.flights).toEqual([110, 120, 130]);
+    expect(snap.total).toBe(6);
+    const presses = snap.events?.map((e) => e.pressTime) ?? [];
+    expect(presses).toHaveLength(6);
+    expect(presses).toEqual([...presses].sort((a, b) => a - b));
+    expect(cadence.analyze().sampleCount).toBe(6);
+    cadence.destroy();
+  });
+
+  it('drops fields removed from the form', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    focus(field('[name="first"]'));
+    typeInto(field('[name="first"]'), 3, 7);
+    focus(field('#email'));
+    typeInto(field('#email'), 4, 11);
+    focus(field('textarea'));
+    typeInto(field('textarea'), 3, 13);
+
+    field('#email').remove();
+    const result = cadence.analyze();
+    expect(result.fields.map((f) => f.name)).toEqual(['first', 'field2']);
+    expect(result.sampleCount).toBe(6);
+    expect(result.transitions.order).toEqual([0, 1]);
+    expect(cadence.snapshot().total).toBe(6);
+    cadence.destroy();
+  });
+
+  it('never reuses a fallback name after a field is removed', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    field('#email').remove();
+    const added = document.createElement('textarea');
+    form.appendChild(added);
+    focus(added);
+    expect(cadence.analyze().fields.map((f) => f.name)).toEqual(['first', 'field2', 'field3']);
+    cadence.destroy();
+  });
+
+  it('aggregates signals across fields', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    field('#email').dispatchEvent(new Event('paste', { bubbles: true }));
+    fireKey(field('[name="first"]'), 'keydown');
+    fireKey(field('textarea'), 'keydown');
+    const signals = cadence.analyze().signals;
+    expect(signals.pasteDetected).toBe(true);
+    expect(signals.syntheticEvents).toBe(2);
+    cadence.destroy();
+  });
+
+  describe('transitions', () => {
+    it('tracks focus order, gaps and Tab moves', () => {
+      const cadence = createFormCadence(form, { scheduling: 'manual' });
+      cadence.start();
+      const first = field('[name="first"]');
+      const email = field('#email');
+      const notes = field('textarea');
+
+      focus(first);
+      typeInto(first, 3, 7);
+      mockNow.value += 400;
+      fireKey(first, 'keydown', 'Tab');
+      mockNow.value += 10;
+      focus(email);
+      typeInto(email, 3, 11);
+      mockNow.value += 1200;
+      focus(notes);
+
+      const { transitions } = cadence.analyze();
+      expect(transitions.count).toBe(2);
+      expect(transitions.tabTransitions).toBe(1);
+      expect(transitions.order).toEqual([0, 1, 2]);
+      expect(transitions.meanGap).toBeCloseTo((410 + 1200) / 2, 5);
+      cadence.destroy();
+    });
+
+    it('ignores refocusing the same field', () => {
+      const cadence = createFormCadence(form, { scheduling: 'manual' });
+      cadence.start();
+      focus(field('#email'));
+      focus(field('#email'));
+      expect(cadence.analyze().transitions.count).toBe(0);
+      cadence.destroy();
+    });
+
+    it('counts input on fields that were never focused', () => {
+      const cadence = createFormCadence(form, { scheduling: 'manual' });
+      cadence.start();
+      focus(field('#email'));
+      field('#email').dispatchEvent(new Event('input', { bubbles: true }));
+      field('textarea').dispatchEvent(new Event('input', { bubbles: true }));
+      expect(cadence.analyze().transitions.unfocusedInputs).toBe(1);
+      cadence.destroy();
+    });
+
+    it('reset() clears transitions and field data', () => {
+      const cadence = createFormCadence(form, { scheduling: 'manual' });
+      cadence.start();
+      focus(field('[name="first"]'));
+      typeInto(field('[name="first"]'), 5, 7);
+      focus(field('#email'));
+      cadence.reset();
+
+      const result = cadence.analyze();
+      expect(result.transitions).toEqual({ count: 0, meanGap: 0, tabTransitions: 0, order: [], unfocusedInputs: 0 });
+      expect(result.sampleCount).toBe(0);
+      cadence.destroy();
+    });
+  });
+
+  it('attaches to fields added after start()', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    const late = document.createElement('input');
+    late.name = 'late';
+    form.appendChild(late);
+
+    focus(late);
+    typeInto(late, 3, 17);
+    const result = cadence.analyze();
+    expect(result.fields.map((f) => f.name)).toContain('late');
+    expect(result.sampleCount).toBe(3);
+    cadence.destroy();
+  });
+
+  it('stop() pauses every field', () => {
+    const cadence = createFormCadence(form, { scheduling: 'manual' });
+    cadence.start();
+    cadence.stop();
+    typeInto(field('#email'), 5, 11);
+    expect(cadence.analyze().sampleCount).toBe(0);
+    cadence.destroy();
+  });
+
+  it('schedules analysis on keyup and calls onScore', () => {
+    vi.useFakeTimers();
+    const onScore = vi.fn();
+    const cadence = createFormCadence(form, { onScore });
+    cadence.start();
+    typeInto(field('#email'), 3, 11);
+    vi.advanceTimersByTime(2000);
+    expect(onScore).toHaveBeenCalled();
+    expect(onScore.mock.calls[0][0]).toHaveProperty('transitions');
+    cadence.destroy();
+    vi.useRealTimers();
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createCadence, DEFAULT_CLASSIFICATION_THRESHOLDS } from '../src/index';
+import { verifyTimingData } from '../src/server/index';
 import type { CadenceResult } from '../src/types';
+import { generateMobileHuman } from './fixtures/human-profiles';
 
 function fireKey(target: EventTarget, type: 'keydown' | 'keyup', key: string = 'a', opts?: KeyboardEventInit) {
   target.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true, ...opts }));
@@ -263,6 +265,8 @@ describe('createCadence integration', () => {
       insufficientData: true,
       inputWithoutKeystrokes: false,
       inputWithoutKeystrokeCount: 0,
+      virtualKeyboard: false,
+      compositionSessions: 0,
     });
 
     cadence.destroy();
@@ -321,6 +325,8 @@ describe('createCadence integration', () => {
       insufficientData: true,
       inputWithoutKeystrokes: false,
       inputWithoutKeystrokeCount: 0,
+      virtualKeyboard: false,
+      compositionSessions: 0,
     });
 
     // Listeners survived reset — new keystrokes are captured
@@ -367,6 +373,23 @@ describe('createCadence integration', () => {
     cadence.destroy();
   });
 
+  it('snapshot() caps corrections at total so the server accepts held Backspace', () => {
+    const cadence = createCadence(target, { scheduling: 'manual' });
+    cadence.start();
+
+    typeSequence(target, humanTimings(3), 1000, mockNow);
+    fireKey(target, 'keydown', 'Backspace');
+    for (let i = 0; i < 5; i++) fireKey(target, 'keydown', 'Backspace', { repeat: true });
+    fireKey(target, 'keyup', 'Backspace');
+    const snap = cadence.snapshot();
+
+    expect(snap.total).toBe(4);
+    expect(snap.corrections).toBe(4);
+    expect(verifyTimingData(snap).valid).toBe(true);
+
+    cadence.destroy();
+  });
+
   it('snapshot() returns empty arrays after reset()', () => {
     const cadence = createCadence(target, { scheduling: 'manual' });
     cadence.start();
@@ -756,4 +779,513 @@ describe('createCadence integration', () => {
       });
     });
   });
+
+  describe('custom metrics', () => {
+    it('reports custom metrics in the computed result', () => {
+      const cadence = createCadence(target, {
+        scheduling: 'manual',
+        recordEvents: true,
+        metrics: [{ name: 'eventCount', score: (m) => (m.events?.length ?? 0) / 100, weight: 0.1 }],
+      });
+      cadence.start();
+      typeSequence(target, humanTimings(30), 1000, mockNow);
+      expect(cadence.analyze().metrics.eventCount).toBeCloseTo(0.3, 5);
+      cadence.destroy();
+    });
+  });
+
+  describe('digraph model', () => {
+    it('includes flightClasses in snapshot() only when enabled', () => {
+      const plain = createCadence(target, { scheduling: 'manual' });
+      plain.start();
+      typeSequence(target, humanTimings(5), 1000, mockNow);
+      expect(plain.snapshot().flightClasses).toBeUndefined();
+      plain.destroy();
+
+      const cadence = createCadence(target, { scheduling: 'manual', digraphModel: true });
+      cadence.start();
+      typeSequence(target, humanTimings(5), 1000, mockNow);
+      const snap = cadence.snapshot();
+      expect(snap.flightClasses).toHaveLength(snap.flights.length);
+      cadence.destroy();
+    });
+  });
+
+  describe('pointer dynamics', () => {
+    it('omits the pointer namespace unless enabled', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      expect(cadence.analyze().pointer).toBeUndefined();
+      cadence.destroy();
+    });
+
+    it('keeps the keystroke score when the pointer is inactive', () => {
+      const plain = createCadence(target, { scheduling: 'manual' });
+      plain.start();
+      typeSequence(target, humanTimings(30), 1000, mockNow);
+      const expected = plain.analyze().score;
+      plain.destroy();
+
+      const cadence = createCadence(target, { scheduling: 'manual', pointer: true });
+      cadence.start();
+      typeSequence(target, humanTimings(30), 1000, mockNow);
+      const result = cadence.analyze();
+      expect(result.pointer?.signals.pointerInactive).toBe(true);
+      expect(result.score).toBe(expected);
+      cadence.destroy();
+    });
+
+    it('blends the pointer score by the configured weight', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', pointer: { weight: 0.5 } });
+      cadence.start();
+      typeSequence(target, humanTimings(30), 1000, mockNow);
+      const keystrokeOnly = cadence.analyze().score;
+
+      // Click dispatched without any approach movement, held 0 ms
+      target.dispatchEvent(new MouseEvent('pointerdown'));
+      target.dispatchEvent(new MouseEvent('pointerup'));
+      const result = cadence.analyze();
+
+      expect(result.pointer?.signals.teleportClicks).toBe(1);
+      expect(result.pointer?.signals.pointerInactive).toBe(false);
+      expect(result.score).toBeCloseTo(0.5 * keystrokeOnly + 0.5 * (result.pointer?.score ?? 0), 10);
+      expect(result.score).toBeLessThan(keystrokeOnly);
+
+      cadence.reset();
+      expect(cadence.analyze().pointer?.signals.teleportClicks).toBe(0);
+      cadence.destroy();
+    });
+  });
+
+  describe('mobile mode', () => {
+    /** Android-style virtual keyboard: Unidentified keys, ~0 ms dwell, timing from beforeinput. */
+    function thumbType(intervals: number[]) {
+      for (const interval of intervals) {
+        mockNow.value += interval;
+        fireKey(target, 'keydown', 'Unidentified', { keyCode: 229 });
+        target.dispatchEvent(new InputEvent('beforeinput', { inputType: 'insertText' }));
+        mockNow.value += 1;
+        fireKey(target, 'keyup', 'Unidentified', { keyCode: 229 });
+      }
+    }
+
+    it('keeps the keyboard metric set when mobileMode is off', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      thumbType(generateMobileHuman(40).intervals);
+      expect(cadence.analyze().signals.virtualKeyboard).toBe(false);
+      cadence.destroy();
+    });
+
+    it('scores virtual keyboard typing on inter-input intervals', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', mobileMode: 'auto' });
+      cadence.start();
+      thumbType(generateMobileHuman(40).intervals);
+      const result = cadence.analyze();
+
+      expect(result.signals.virtualKeyboard).toBe(true);
+      expect(result.sampleCount).toBe(39);
+      expect(result.metrics.dwellVariance).toBe(0);
+      expect(result.metrics.rolloverRate).toBe(0);
+      expect(result.classification).toBe('human');
+      cadence.destroy();
+    });
+
+    it('applies mobileWeights overrides', () => {
+      const cadence = createCadence(target, {
+        scheduling: 'manual',
+        mobileMode: 'always',
+        mobileWeights: { flightFit: 0, timingEntropy: 1, correctionRatio: 0, burstRegularity: 0 },
+      });
+      cadence.start();
+      thumbType(generateMobileHuman(40).intervals);
+      const result = cadence.analyze();
+      expect(result.score).toBeCloseTo(result.metrics.timingEntropy, 10);
+      cadence.destroy();
+    });
+
+    it('round-trips virtual keyboard sessions through snapshot() and verifyTimingData', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', mobileMode: 'auto', mobileWeights: { timingEntropy: 0.4 } });
+      cadence.start();
+      thumbType(generateMobileHuman(40).intervals);
+      const client = cadence.analyze();
+      const snapshot = JSON.parse(JSON.stringify(cadence.snapshot())) as unknown;
+      expect(snapshot).toMatchObject({ profile: 'virtual', virtual: { total: 40 } });
+
+      const verdict = verifyTimingData(snapshot, { mobileMode: 'auto', mobileWeights: { timingEntropy: 0.4 } });
+      if (!verdict.valid) throw new Error(verdict.error);
+      expect(verdict.result.score).toBe(client.score);
+      expect(verdict.result.metrics).toEqual(client.metrics);
+      expect(verdict.result.classification).toBe(client.classification);
+
+      // Without mobileMode the server keeps to dwell/flight, which virtual input doesn't produce
+      const keyboard = verifyTimingData(snapshot);
+      expect(keyboard.valid && keyboard.result.score).not.toBe(client.score);
+      cadence.destroy();
+    });
+
+    it('leaves the profile out of keyboard-only snapshots', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      typeSequence(target, humanTimings(5), 1000, mockNow);
+      expect(cadence.snapshot()).not.toHaveProperty('profile');
+      expect(cadence.snapshot()).not.toHaveProperty('virtual');
+      cadence.destroy();
+    });
+
+    it('reset() clears virtual keyboard detection', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', mobileMode: 'auto' });
+      cadence.start();
+      thumbType(generateMobileHuman(10).intervals);
+      expect(cadence.analyze().signals.virtualKeyboard).toBe(true);
+      cadence.reset();
+      expect(cadence.analyze().signals.virtualKeyboard).toBe(false);
+      cadence.destroy();
+    });
+  });
+
+  describe('IME composition', () => {
+    it('omits the composition summary until a session completes', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      typeSequence(target, humanTimings(10), 1000, mockNow);
+      const result = cadence.analyze();
+      expect(result.composition).toBeUndefined();
+      expect(result.signals.compositionSessions).toBe(0);
+      cadence.destroy();
+    });
+
+    it('reports composition sessions and their features', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      for (const duration of [400, 800]) {
+        mockNow.value += 500;
+        fireKey(target, 'keydown', 'Process', { keyCode: 229 });
+        target.dispatchEvent(new CompositionEvent('compositionstart'));
+        target.dispatchEvent(new CompositionEvent('compositionupdate'));
+        target.dispatchEvent(new CompositionEvent('compositionupdate'));
+        fireKey(target, 'keyup', 'k');
+        mockNow.value += duration;
+        target.dispatchEvent(new CompositionEvent('compositionend'));
+        target.dispatchEvent(new Event('input'));
+      }
+      const result = cadence.analyze();
+
+      expect(result.signals.compositionSessions).toBe(2);
+      expect(result.signals.inputWithoutKeystrokes).toBe(false);
+      expect(result.composition).toEqual({
+        sessions: 2,
+        meanDuration: 600,
+        meanUpdates: 2,
+        meanKeystrokes: 1,
+        keylessSessions: 0,
+      });
+      cadence.destroy();
+    });
+  });
+
+  it('includes raw features once a score was computed', () => {
+    const cadence = createCadence(target, { scheduling: 'manual' });
+    cadence.start();
+    typeSequence(target, humanTimings(30), 1000, mockNow);
+    const { features } = cadence.analyze();
+    expect(features?.dwellStddev).toBeGreaterThan(0);
+    expect(features?.entropyBits).toBeGreaterThan(0);
+    cadence.destroy();
+  });
+
+  it('attaches an explanation when explain is enabled', () => {
+    const cadence = createCadence(target, { scheduling: 'manual', explain: true });
+    cadence.start();
+    typeSequence(target, botTimings(30), 1000, mockNow);
+    const result = cadence.analyze();
+    expect(result.explanation?.metrics.dwellVariance.reasons).toContain('DWELL_SD_TOO_LOW');
+    expect(Object.keys(result.explanation?.metrics ?? {})).toEqual(Object.keys(result.metrics));
+    cadence.destroy();
+  });
+
+  describe('on()', () => {
+    const correctionOnly = {
+      dwellVariance: 0,
+      flightFit: 0,
+      timingEntropy: 0,
+      correctionRatio: 1,
+      burstRegularity: 0,
+      rolloverRate: 0,
+    };
+
+    it('emits score for every result', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      const onScore = vi.fn();
+      cadence.on('score', onScore);
+      cadence.start();
+      typeSequence(target, humanTimings(3), 1000, mockNow);
+      const result = cadence.analyze();
+      cadence.analyze();
+      expect(onScore).toHaveBeenCalledTimes(2);
+      expect(onScore).toHaveBeenCalledWith(result);
+      cadence.destroy();
+    });
+
+    it('emits classificationchange only on transitions', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', minSamples: 5, weights: correctionOnly });
+      const changes = vi.fn();
+      cadence.on('classificationchange', changes);
+      cadence.start();
+
+      // No corrections — correctionRatio scores low and classifies as bot
+      typeSequence(target, botTimings(10), 1000, mockNow);
+      const first = cadence.analyze();
+      cadence.analyze();
+      expect(first.classification).toBe('bot');
+      expect(changes).toHaveBeenCalledTimes(1);
+      expect(changes).toHaveBeenCalledWith({ previous: 'unknown', classification: 'bot', result: first });
+
+      // Dropping botToUnknown below the score releases it
+      cadence.configure({ classificationThresholds: { botToUnknown: 0, unknownToBot: 0, unknownToHuman: 0.99, humanToUnknown: 0.98 } });
+      const released = cadence.analyze();
+      expect(released.classification).toBe('unknown');
+      expect(changes).toHaveBeenCalledTimes(2);
+      expect(changes.mock.calls[1][0]).toMatchObject({ previous: 'bot', classification: 'unknown' });
+      cadence.destroy();
+    });
+
+    it('emits confident once when enough samples arrive', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', minSamples: 5 });
+      const confident = vi.fn();
+      cadence.on('confident', confident);
+      cadence.start();
+      typeSequence(target, humanTimings(3), 1000, mockNow);
+      cadence.analyze();
+      expect(confident).not.toHaveBeenCalled();
+
+      typeSequence(target, humanTimings(3), mockNow.value + 100, mockNow);
+      cadence.analyze();
+      cadence.analyze();
+      expect(confident).toHaveBeenCalledTimes(1);
+      expect(confident.mock.calls[0][0].sampleCount).toBe(6);
+      cadence.destroy();
+    });
+
+    it('emits paste when a paste is first detected', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      const paste = vi.fn();
+      cadence.on('paste', paste);
+      cadence.start();
+      cadence.analyze();
+      target.dispatchEvent(new Event('paste'));
+      cadence.analyze();
+      target.dispatchEvent(new Event('paste'));
+      cadence.analyze();
+      expect(paste).toHaveBeenCalledTimes(1);
+
+      // A reset starts over
+      cadence.reset();
+      target.dispatchEvent(new Event('paste'));
+      cadence.analyze();
+      expect(paste).toHaveBeenCalledTimes(2);
+      cadence.destroy();
+    });
+
+    it('emits synthetic when new untrusted events arrive', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      const synthetic = vi.fn();
+      cadence.on('synthetic', synthetic);
+      cadence.start();
+      fireKey(target, 'keydown');
+      fireKey(target, 'keyup');
+      cadence.analyze();
+      cadence.analyze();
+      expect(synthetic).toHaveBeenCalledTimes(1);
+      fireKey(target, 'keydown');
+      cadence.analyze();
+      expect(synthetic).toHaveBeenCalledTimes(2);
+      cadence.destroy();
+    });
+
+    it('returns an unsubscribe function', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      const first = vi.fn();
+      const second = vi.fn();
+      const off = cadence.on('score', () => {
+        first();
+        off();
+      });
+      cadence.on('score', second);
+      cadence.start();
+      cadence.analyze();
+      cadence.analyze();
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(2);
+      cadence.destroy();
+    });
+
+    it('drops handlers on destroy', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      const onScore = vi.fn();
+      cadence.on('score', onScore);
+      cadence.destroy();
+      cadence.analyze();
+      expect(onScore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('configure()', () => {
+    it('applies a new minSamples to collected data', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      typeSequence(target, humanTimings(10), 1000, mockNow);
+      expect(cadence.analyze().confident).toBe(false);
+
+      cadence.configure({ minSamples: 5 });
+      const result = cadence.analyze();
+      expect(result.confident).toBe(true);
+      expect(result.sampleCount).toBe(10);
+      cadence.destroy();
+    });
+
+    it('shrinking the window keeps the most recent samples', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      typeSequence(target, humanTimings(30), 1000, mockNow);
+      const before = cadence.snapshot();
+
+      cadence.configure({ windowSize: 10 });
+      const after = cadence.snapshot();
+      expect(after.dwells).toEqual(before.dwells.slice(-10));
+      expect(after.flights).toEqual(before.flights.slice(-10));
+      expect(cadence.analyze().sampleCount).toBe(10);
+      cadence.destroy();
+    });
+
+    it('rejects an invalid windowSize without changing anything', () => {
+      const cadence = createCadence(target, { scheduling: 'manual' });
+      cadence.start();
+      typeSequence(target, humanTimings(30), 1000, mockNow);
+      const before = cadence.snapshot();
+
+      expect(() => cadence.configure({ windowSize: 0, minSamples: 5 })).toThrow(RangeError);
+      expect(() => cadence.configure({ windowSize: 12.5 })).toThrow(RangeError);
+      expect(cadence.snapshot()).toEqual(before);
+      expect(cadence.analyze().confident).toBe(true);
+      cadence.destroy();
+    });
+
+    it('omitted keys keep their current value', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', minSamples: 5, windowSize: 8 });
+      cadence.start();
+      typeSequence(target, humanTimings(20), 1000, mockNow);
+
+      cadence.configure({ weights: { correctionRatio: 0 } });
+      const result = cadence.analyze();
+      expect(result.sampleCount).toBe(8);
+      expect(result.confident).toBe(true);
+      cadence.destroy();
+    });
+
+    it('re-scores under new weights and publishes through onScore', () => {
+      vi.useFakeTimers();
+      const onScore = vi.fn();
+      const cadence = createCadence(target, { scheduling: 'debounce', minSamples: 5, onScore });
+      cadence.start();
+      typeSequence(target, humanTimings(20), 1000, mockNow);
+      vi.runAllTimers();
+      const before = onScore.mock.calls[onScore.mock.calls.length - 1][0] as CadenceResult;
+
+      onScore.mockClear();
+      cadence.configure({
+        weights: {
+          dwellVariance: 0,
+          flightFit: 0,
+          timingEntropy: 0,
+          correctionRatio: 1,
+          burstRegularity: 0,
+          rolloverRate: 0,
+        },
+      });
+      vi.runAllTimers();
+      expect(onScore).toHaveBeenCalledTimes(1);
+      const after = onScore.mock.calls[0][0] as CadenceResult;
+      expect(after.sampleCount).toBe(before.sampleCount);
+      expect(after.score).toBeCloseTo(after.metrics.correctionRatio, 10);
+      cadence.destroy();
+      vi.useRealTimers();
+    });
+
+    it('re-weights custom metrics through customWeights', () => {
+      const alwaysBot = { name: 'alwaysBot', score: () => 0, weight: 1 };
+      const plain = createCadence(target, { scheduling: 'manual', minSamples: 5 });
+      const cadence = createCadence(target, { scheduling: 'manual', minSamples: 5, metrics: [alwaysBot] });
+      plain.start();
+      cadence.start();
+      typeSequence(target, humanTimings(20), 1000, mockNow);
+      const base = plain.analyze();
+      expect(cadence.analyze().score).toBeLessThan(base.score);
+
+      cadence.configure({ customWeights: { alwaysBot: 0 } });
+      const result = cadence.analyze();
+      expect(result.score).toBeCloseTo(base.score, 10);
+      expect(result.metrics.alwaysBot).toBe(0);
+      plain.destroy();
+      cadence.destroy();
+    });
+
+    it('does not publish before any data was collected', () => {
+      vi.useFakeTimers();
+      const onScore = vi.fn();
+      const cadence = createCadence(target, { scheduling: 'debounce', onScore });
+      cadence.start();
+      cadence.configure({ minSamples: 5 });
+      vi.runAllTimers();
+      expect(onScore).not.toHaveBeenCalled();
+      cadence.destroy();
+      vi.useRealTimers();
+    });
+
+    it('keeps the classification when thresholds change', () => {
+      const cadence = createCadence(target, { scheduling: 'manual', minSamples: 5 });
+      cadence.start();
+      typeSequence(target, botTimings(30), 1000, mockNow);
+      const first = cadence.analyze();
+      expect(first.classification).toBe('bot');
+
+      // The score sits between unknownToBot and botToUnknown — bot holds
+      cadence.configure({
+        classificationThresholds: {
+          unknownToBot: first.score - 0.01,
+          botToUnknown: first.score + 0.01,
+          unknownToHuman: 0.99,
+          humanToUnknown: 0.98,
+        },
+      });
+      expect(cadence.analyze().classification).toBe('bot');
+
+      // Crossing botToUnknown under the new thresholds releases it
+      cadence.configure({
+        classificationThresholds: {
+          unknownToBot: first.score - 0.02,
+          botToUnknown: first.score - 0.01,
+          unknownToHuman: 0.99,
+          humanToUnknown: 0.98,
+        },
+      });
+      expect(cadence.analyze().classification).toBe('unknown');
+      cadence.destroy();
+    });
+  });
+
+  describe('worker scheduling', () => {
+    it('falls back to idle scheduling without a bundled worker', () => {
+      vi.useFakeTimers();
+      const onScore = vi.fn();
+      const cadence = createCadence(target, { scheduling: 'worker', onScore });
+      cadence.start();
+      typeSequence(target, humanTimings(5), 1000, mockNow);
+      vi.runAllTimers();
+
+      expect(onScore).toHaveBeenCalledTimes(1);
+      cadence.destroy();
+      vi.useRealTimers();
+    });
+  });
 });
@@ -257,8 +257,8 @@ describe('createObserver', () => {
     obs.start();
     obs.start(); // should not double-attach
 
-    // Only 4 listeners (keydown, keyup, paste, input), not 8
-    expect(target.addedListeners.length).toBe(4);
+    // Only 7 listeners (keydown, keyup, paste, input, composition start/update/end), not 14
+    expect(target.addedListeners.length).toBe(7);
   });
 
   it('multiple keystroke sequence builds correct buffers', () => {
@@ -656,6 +656,14 @@ describe('createObserver', () => {
       expect(obs.getState().inputWithoutKeystrokes).toBe(true);
     });
 
+    it('flags keyless input in the first 50ms of the clock', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      now = 20;
+      fireInput(target);
+      expect(obs.getState().inputWithoutKeystrokes).toBe(true);
+    });
+
     it('does not set inputWithoutKeystrokes when input fires after keydown (normal typing)', () => {
       const obs = createObserver(target, { windowSize: 50 });
       obs.start();
@@ -942,4 +950,319 @@ describe('createObserver', () => {
       expect(obs.getState().events).toHaveLength(10);
     });
   });
+
+  describe('digraph transition classes (digraphModel)', () => {
+    function typeCodes(codes: string[]) {
+      for (const code of codes) {
+        now += 100;
+        fireKey(target, 'keydown', 'x', { code });
+        now += 40;
+        fireKey(target, 'keyup', 'x', { code });
+      }
+    }
+
+    it('state.flightClasses is undefined when digraphModel is off', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      typeCodes(['KeyA', 'KeyS']);
+      expect(obs.getState().flightClasses).toBeUndefined();
+    });
+
+    it('records one class per flight, aligned with flights', () => {
+      const obs = createObserver(target, { windowSize: 50, digraphModel: true });
+      obs.start();
+      // a→s same row, s→w row change, w→j alternate, j→Space other
+      typeCodes(['KeyA', 'KeyS', 'KeyW', 'KeyJ', 'Space']);
+
+      const state = obs.getState();
+      expect(state.flightClasses?.toArray()).toEqual([0, 1, 2, 3]);
+      expect(state.flightClasses?.length).toBe(state.flights.length);
+    });
+
+    it('does not record classes for rollover keystrokes (no flight)', () => {
+      const obs = createObserver(target, { windowSize: 50, digraphModel: true });
+      obs.start();
+      now = 1000;
+      fireKey(target, 'keydown', 'a', { code: 'KeyA' });
+      now = 1030;
+      fireKey(target, 'keydown', 'j', { code: 'KeyJ' });
+      now = 1050;
+      fireKey(target, 'keyup', 'a', { code: 'KeyA' });
+      now = 1070;
+      fireKey(target, 'keyup', 'j', { code: 'KeyJ' });
+
+      expect(obs.getState().flightClasses?.length).toBe(obs.getState().flights.length);
+    });
+
+    it('clear() resets classes and the previous key position', () => {
+      const obs = createObserver(target, { windowSize: 50, digraphModel: true });
+      obs.start();
+      typeCodes(['KeyA', 'KeyS']);
+      obs.clear();
+      typeCodes(['KeyD', 'KeyJ']);
+      expect(obs.getState().flightClasses?.toArray()).toEqual([2]);
+    });
+  });
+
+  describe('virtual keyboard input (mobileMode)', () => {
+    function fireBeforeInput(inputType: string) {
+      target.dispatchEvent(new InputEvent('beforeinput', { inputType }));
+    }
+
+    function tapType(inputTypes: string[], gap = 250) {
+      for (const inputType of inputTypes) {
+        now += gap;
+        fireBeforeInput(inputType);
+      }
+    }
+
+    it('state.virtualInput is undefined when mobileMode is off', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      tapType(['insertText', 'insertText']);
+      expect(obs.getState().virtualInput).toBeUndefined();
+    });
+
+    it('does not add beforeinput/touchstart listeners when mobileMode is off', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      const types = target.addedListeners.map((l) => l.type);
+      expect(types).not.toContain('beforeinput');
+      expect(types).not.toContain('touchstart');
+    });
+
+    it('records intervals between typing inputs', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      tapType(['insertText', 'insertText', 'insertText']);
+
+      const input = obs.getState().virtualInput;
+      expect(input?.intervals.toArray()).toEqual([250, 250]);
+      expect(input?.total).toBe(3);
+    });
+
+    it('counts deletions as corrections', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      tapType(['insertText', 'deleteContentBackward', 'insertText', 'deleteContentForward']);
+      expect(obs.getState().virtualInput?.corrections).toBe(2);
+    });
+
+    it('paste and replacement inputs break the interval chain', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      tapType(['insertText', 'insertFromPaste', 'insertText', 'insertReplacementText', 'insertText']);
+
+      const input = obs.getState().virtualInput;
+      expect(input?.intervals.length).toBe(0);
+      expect(input?.total).toBe(3);
+    });
+
+    it('auto mode is not detected from physical keyboard input', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      for (let i = 0; i < 5; i++) {
+        now += 100;
+        fireKey(target, 'keydown', 'a');
+        fireBeforeInput('insertText');
+        now += 40;
+        fireKey(target, 'keyup', 'a');
+      }
+      expect(obs.getState().virtualInput?.detected).toBe(false);
+    });
+
+    it('auto mode detects Unidentified keys', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      fireKey(target, 'keydown', 'Unidentified');
+      expect(obs.getState().virtualInput?.detected).toBe(true);
+    });
+
+    it('auto mode detects keyCode 229', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      fireKey(target, 'keydown', 'a', { keyCode: 229 });
+      expect(obs.getState().virtualInput?.detected).toBe(true);
+    });
+
+    it('auto mode detects a touch followed by keyless typing input', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      tapType(['insertText']);
+      expect(obs.getState().virtualInput?.detected).toBe(false);
+
+      target.dispatchEvent(new Event('touchstart'));
+      tapType(['insertText']);
+      expect(obs.getState().virtualInput?.detected).toBe(true);
+    });
+
+    it('always mode is detected from the start', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'always' });
+      expect(obs.getState().virtualInput?.detected).toBe(true);
+    });
+
+    it('clear() resets virtual input state and detection', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      fireKey(target, 'keydown', 'Unidentified');
+      tapType(['insertText', 'deleteContentBackward', 'insertText']);
+      obs.clear();
+
+      const input = obs.getState().virtualInput;
+      expect(input?.detected).toBe(false);
+      expect(input?.intervals.length).toBe(0);
+      expect(input?.corrections).toBe(0);
+      expect(input?.total).toBe(0);
+    });
+
+    it('stop() removes beforeinput and touchstart listeners', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      obs.stop();
+      expect(target.removedListeners).toContain('beforeinput');
+      expect(target.removedListeners).toContain('touchstart');
+    });
+  });
+
+  describe('IME composition', () => {
+    function fireComposition(type: 'compositionstart' | 'compositionupdate' | 'compositionend') {
+      target.dispatchEvent(new CompositionEvent(type));
+    }
+
+    /** Romaji-style session: each key updates the pre-edit, Enter commits. */
+    function composeWord(keys: number) {
+      now += 200;
+      fireKey(target, 'keydown', 'Process', { keyCode: 229 });
+      fireComposition('compositionstart');
+      fireComposition('compositionupdate');
+      target.dispatchEvent(new InputEvent('input', { isComposing: true }));
+      now += 40;
+      fireKey(target, 'keyup', 'k');
+      for (let i = 1; i < keys; i++) {
+        now += 120;
+        fireKey(target, 'keydown', 'Process', { keyCode: 229 });
+        fireComposition('compositionupdate');
+        target.dispatchEvent(new InputEvent('input', { isComposing: true }));
+        now += 40;
+        fireKey(target, 'keyup', 'a');
+      }
+      now += 300;
+      fireComposition('compositionend');
+      target.dispatchEvent(new InputEvent('input', { isComposing: false }));
+    }
+
+    it('tracks sessions with duration, updates and keystrokes', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      composeWord(3);
+
+      const { composition } = obs.getState();
+      expect(composition.sessions).toBe(1);
+      expect(composition.durations.toArray()).toEqual([40 + 160 * 2 + 300]);
+      expect(composition.updates.toArray()).toEqual([3]);
+      expect(composition.keystrokes.toArray()).toEqual([3]);
+      expect(composition.keylessSessions).toBe(0);
+    });
+
+    it('keeps keystrokes inside a session in dwell/flight', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      composeWord(3);
+      expect(obs.getState().dwells.toArray()).toEqual([40, 40, 40]);
+      expect(obs.getState().flights.toArray()).toEqual([120, 120]);
+    });
+
+    it('does not flag composed input as input without keystrokes', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      composeWord(4);
+      composeWord(2);
+      expect(obs.getState().inputWithoutKeystrokes).toBe(false);
+      expect(obs.getState().inputWithoutKeystrokeCount).toBe(0);
+    });
+
+    it('does not flag a candidate picked with the pointer', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      now = 1000;
+      fireKey(target, 'keydown', 'Process', { keyCode: 229 });
+      fireComposition('compositionstart');
+      now = 3000; // long pause choosing from the candidate list
+      fireComposition('compositionend');
+      fireInput(target);
+      expect(obs.getState().inputWithoutKeystrokes).toBe(false);
+    });
+
+    it('counts sessions without any keydown as keyless', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      now = 5000;
+      fireComposition('compositionstart');
+      fireComposition('compositionupdate');
+      now = 5100;
+      fireComposition('compositionend');
+
+      const { composition } = obs.getState();
+      expect(composition.sessions).toBe(1);
+      expect(composition.keylessSessions).toBe(1);
+      expect(composition.keystrokes.toArray()).toEqual([0]);
+    });
+
+    it('ignores compositionend without a matching start', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      fireComposition('compositionend');
+      expect(obs.getState().composition.sessions).toBe(0);
+    });
+
+    it('desktop IME keys do not trigger virtual keyboard detection', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      composeWord(3);
+      expect(obs.getState().virtualInput?.detected).toBe(false);
+    });
+
+    it('keyCode 229 with the real key opening a session is not a virtual keyboard', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'auto' });
+      obs.start();
+      // Safari desktop IMEs report the physical key alongside keyCode 229
+      fireKey(target, 'keydown', 'k', { keyCode: 229 });
+      fireComposition('compositionstart');
+      now += 120;
+      fireKey(target, 'keydown', 'a', { keyCode: 229 });
+      now += 300;
+      fireComposition('compositionend');
+      expect(obs.getState().virtualInput?.detected).toBe(false);
+
+      now += 200;
+      fireKey(target, 'keydown', 'a', { keyCode: 229 });
+      expect(obs.getState().virtualInput?.detected).toBe(true);
+    });
+
+    it('counts composing virtual keyboard input as typing', () => {
+      const obs = createObserver(target, { windowSize: 50, mobileMode: 'always' });
+      obs.start();
+      for (const inputType of ['insertCompositionText', 'insertCompositionText', 'deleteCompositionText', 'insertFromComposition', 'insertCompositionText']) {
+        now += 200;
+        target.dispatchEvent(new InputEvent('beforeinput', { inputType }));
+      }
+      const input = obs.getState().virtualInput;
+      expect(input?.total).toBe(3);
+      expect(input?.corrections).toBe(0);
+      expect(input?.intervals.toArray()).toEqual([200, 600]);
+    });
+
+    it('clear() resets composition state', () => {
+      const obs = createObserver(target, { windowSize: 50 });
+      obs.start();
+      composeWord(2);
+      obs.clear();
+
+      const { composition } = obs.getState();
+      expect(composition.sessions).toBe(0);
+      expect(composition.durations.length).toBe(0);
+      expect(composition.updates.length).toBe(0);
+      expect(composition.keystrokes.length).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { createPointerAnalyzer, DEFAULT_POINTER_WEIGHTS } from '../src/pointer-analyzer';
+import { createBuffer } from '../src/buffer';
+import { TELEPORT_APPROACH, type PointerObserverState } from '../src/pointer-observer';
+
+function state(data: {
+  speeds?: number[];
+  turns?: number[];
+  clickDwells?: number[];
+  approaches?: number[];
+  moveCount?: number;
+  teleportClicks?: number;
+}): PointerObserverState {
+  const fill = (values: number[] = []) => {
+    const buf = createBuffer(100);
+    values.forEach((v) => buf.push(v));
+    return buf;
+  };
+  return {
+    speeds: fill(data.speeds),
+    turns: fill(data.turns),
+    clickDwells: fill(data.clickDwells),
+    approaches: fill(data.approaches),
+    moveCount: data.moveCount ?? data.speeds?.length ?? 0,
+    teleportClicks: data.teleportClicks ?? 0,
+  };
+}
+
+/** Simple seeded PRNG (xorshift32) */
+function createRng(seed: number) {
+  let s = seed | 0;
+  return () => {
+    s ^= s << 13;
+    s ^= s >> 17;
+    s ^= s << 5;
+    return ((s >>> 0) / 4294967296);
+  };
+}
+
+const analyzer = createPointerAnalyzer({ minSamples: 20, weights: DEFAULT_POINTER_WEIGHTS });
+
+describe('createPointerAnalyzer', () => {
+  it('reports pointerInactive and a neutral score without data', () => {
+    const result = analyzer.analyze(state({}));
+    expect(result.signals.pointerInactive).toBe(true);
+    expect(result.score).toBe(0.5);
+    expect(result.confident).toBe(false);
+  });
+
+  it('scores human-like movement above scripted movement', () => {
+    const rng = createRng(7);
+    const human = state({
+      speeds: Array.from({ length: 40 }, (_, i) => 0.2 + Math.sin(i / 4) ** 2 * 2 + rng() * 0.3),
+      turns: Array.from({ length: 40 }, () => rng() * 0.4),
+      clickDwells: [85, 110],
+      approaches: [0.92, 0.88],
+    });
+    const bot = state({
+      speeds: Array(40).fill(1.5),
+      turns: Array(40).fill(0),
+      clickDwells: [0, 0],
+      approaches: [1, 1],
+    });
+
+    const humanResult = analyzer.analyze(human);
+    const botResult = analyzer.analyze(bot);
+    expect(humanResult.score).toBeGreaterThan(0.7);
+    expect(botResult.score).toBeLessThan(0.2);
+    expect(humanResult.confident).toBe(true);
+  });
+
+  it('gates movement metrics below the minimum sample count', () => {
+    const result = analyzer.analyze(state({ speeds: [1, 2, 3], turns: [0.1, 0.2], clickDwells: [90] }));
+    expect(result.metrics.velocityVariance).toBe(0);
+    expect(result.metrics.pathCurvature).toBe(0);
+    expect(result.metrics.clickDwell).toBeGreaterThan(0.9);
+    expect(result.score).toBeCloseTo(result.metrics.clickDwell, 10);
+  });
+
+  it('scores teleport clicks as 0 on the approach path', () => {
+    const result = analyzer.analyze(state({ approaches: [0.9, TELEPORT_APPROACH], teleportClicks: 1 }));
+    expect(result.metrics.approachPath).toBeCloseTo(0.5, 2);
+    expect(analyzer.analyze(state({ approaches: [TELEPORT_APPROACH, TELEPORT_APPROACH] })).metrics.approachPath).toBe(0);
+  });
+
+  it('scores only the teleport clicks left in the window', () => {
+    const result = analyzer.analyze(state({ approaches: [0.9], teleportClicks: 5 }));
+    expect(result.metrics.approachPath).toBeGreaterThan(0.99);
+    expect(result.signals.teleportClicks).toBe(5);
+  });
+
+  it('penalizes wildly turning paths', () => {
+    const jumpy = analyzer.analyze(state({ speeds: Array(20).fill(1), turns: Array(20).fill(2.5) }));
+    expect(jumpy.metrics.pathCurvature).toBeLessThan(0.1);
+  });
+});
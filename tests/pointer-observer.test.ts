@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPointerObserver, TELEPORT_APPROACH } from '../src/pointer-observer';
+
+function move(target: EventTarget, x: number, y: number) {
+  target.dispatchEvent(new MouseEvent('pointermove', { clientX: x, clientY: y, bubbles: true }));
+}
+
+function press(target: EventTarget, type: 'pointerdown' | 'pointerup', pointerType?: string) {
+  const event = new MouseEvent(type, { bubbles: true });
+  if (pointerType) Object.defineProperty(event, 'pointerType', { value: pointerType });
+  target.dispatchEvent(event);
+}
+
+describe('createPointerObserver', () => {
+  let input: HTMLInputElement;
+  let now: number;
+
+  beforeEach(() => {
+    input = document.createElement('input');
+    document.body.appendChild(input);
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    input.remove();
+    vi.restoreAllMocks();
+  });
+
+  it('does not listen before start()', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    move(document, 10, 10);
+    expect(obs.getState().moveCount).toBe(0);
+  });
+
+  it('observes movement on the owning document', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    move(document, 0, 0);
+    now += 10;
+    move(document, 30, 40);
+
+    const state = obs.getState();
+    expect(state.moveCount).toBe(2);
+    expect(state.speeds.toArray()).toEqual([5]); // 50px / 10ms
+  });
+
+  it('falls back to the target itself for non-DOM targets', () => {
+    const target = new EventTarget();
+    const obs = createPointerObserver(target, { windowSize: 50 });
+    obs.start();
+    move(target, 0, 0);
+    now += 10;
+    move(target, 10, 0);
+    expect(obs.getState().moveCount).toBe(2);
+  });
+
+  it('records turn angles between segments', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    move(document, 0, 0);
+    now += 10;
+    move(document, 10, 0);
+    now += 10;
+    move(document, 10, 10); // 90° turn
+
+    expect(obs.getState().turns.toArray()[0]).toBeCloseTo(Math.PI / 2, 10);
+  });
+
+  it('coalesces moves within the same millisecond', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    move(document, 0, 0);
+    move(document, 5, 5);
+    expect(obs.getState().moveCount).toBe(1);
+    expect(obs.getState().speeds.length).toBe(0);
+  });
+
+  it('records click dwell and approach straightness on the target', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    move(document, 0, 0);
+    now += 10;
+    move(document, 10, 0);
+    now += 10;
+    move(document, 20, 0);
+    press(input, 'pointerdown');
+    now += 90;
+    press(input, 'pointerup');
+
+    const state = obs.getState();
+    expect(state.clickDwells.toArray()).toEqual([90]);
+    expect(state.approaches.toArray()).toEqual([1]);
+    expect(state.teleportClicks).toBe(0);
+  });
+
+  it('counts a press with no movement since the previous press as a teleport click', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    press(input, 'pointerdown');
+    press(input, 'pointerup');
+    now += 5000;
+    press(input, 'pointerdown');
+    press(input, 'pointerup');
+    expect(obs.getState().teleportClicks).toBe(2);
+    expect(obs.getState().approaches.toArray()).toEqual([TELEPORT_APPROACH, TELEPORT_APPROACH]);
+  });
+
+  it('does not count a press after the pointer came to rest as a teleport', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    move(document, 0, 0);
+    now += 10;
+    move(document, 20, 0);
+    now += 5000;
+    press(input, 'pointerdown');
+    press(input, 'pointerup');
+    expect(obs.getState().teleportClicks).toBe(0);
+    expect(obs.getState().approaches.length).toBe(0);
+  });
+
+  it('keeps teleport clicks inside the approach window', () => {
+    const obs = createPointerObserver(input, { windowSize: 2 });
+    obs.start();
+    press(input, 'pointerdown');
+    for (let i = 0; i < 2; i++) {
+      now += 2000;
+      move(document, 0, 0);
+      now += 10;
+      move(document, 20, 0);
+      press(input, 'pointerdown');
+    }
+    expect(obs.getState().teleportClicks).toBe(1);
+    expect(obs.getState().approaches.toArray()).toEqual([1, 1]);
+  });
+
+  it('ignores approach paths for touch presses', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    press(input, 'pointerdown', 'touch');
+    now += 80;
+    press(input, 'pointerup', 'touch');
+    expect(obs.getState().teleportClicks).toBe(0);
+    expect(obs.getState().clickDwells.toArray()).toEqual([80]);
+  });
+
+  it('stop() removes listeners and clear() resets state', () => {
+    const obs = createPointerObserver(input, { windowSize: 50 });
+    obs.start();
+    move(document, 0, 0);
+    obs.stop();
+    move(document, 10, 10);
+    expect(obs.getState().moveCount).toBe(1);
+
+    obs.clear();
+    expect(obs.getState().moveCount).toBe(0);
+    expect(obs.getState().speeds.length).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { h, render } from 'preact';
+import { act } from 'preact/test-utils';
+import { useHumanCadence, type UseHumanCadenceOptions, type UseHumanCadenceReturn } from '../../src/preact/index';
+
+function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
+  el.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true }));
+}
+
+describe('useHumanCadence (preact)', () => {
+  let mockNow: { value: number };
+  let container: HTMLElement;
+  let latest: UseHumanCadenceReturn;
+
+  function Field(props: { options?: UseHumanCadenceOptions; show?: boolean }) {
+    latest = useHumanCadence(props.options);
+    return props.show === false ? null : h('input', { ref: latest.ref });
+  }
+
+  function mount(props: { options?: UseHumanCadenceOptions; show?: boolean } = {}) {
+    act(() => {
+      render(h(Field, props), container);
+    });
+    return container.querySelector('input');
+  }
+
+  async function type(el: HTMLElement, count: number) {
+    for (let i = 0; i < count; i++) {
+      mockNow.value += 110 + (i % 7) * 23;
+      fireKey(el, 'keydown');
+      mockNow.value += 40 + (i % 5) * 9;
+      fireKey(el, 'keyup');
+    }
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 200));
+    });
+  }
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    act(() => {
+      render(null, container);
+    });
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  it('returns initial neutral state', () => {
+    mount({ show: false });
+    expect(latest.score).toBe(0.5);
+    expect(latest.confident).toBe(false);
+    expect(latest.sampleCount).toBe(0);
+    expect(latest.signals.insufficientData).toBe(true);
+    expect(latest.snapshot()).toBeNull();
+  });
+
+  it('attaches via ref and updates state on score', async () => {
+    const input = mount({ options: { minSamples: 5 } }) as HTMLInputElement;
+    await type(input, 6);
+
+    expect(latest.sampleCount).toBe(6);
+    expect(latest.confident).toBe(true);
+    expect(latest.snapshot()?.dwells).toHaveLength(6);
+  });
+
+  it('reset() returns to neutral state', async () => {
+    const input = mount() as HTMLInputElement;
+    await type(input, 4);
+    act(() => latest.reset());
+
+    expect(latest.sampleCount).toBe(0);
+    expect(latest.snapshot()?.dwells).toEqual([]);
+  });
+
+  it('detaches when the element unmounts', async () => {
+    const input = mount() as HTMLInputElement;
+    mount({ show: false });
+    await type(input, 4);
+
+    expect(latest.sampleCount).toBe(0);
+    expect(latest.snapshot()).toBeNull();
+  });
+});
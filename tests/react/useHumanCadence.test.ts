@@ -122,4 +122,73 @@ describe('useHumanCadence', () => {
 
     document.body.removeChild(input);
   });
+
+  it('applies changed options to the attached instance without losing data', async () => {
+    const { result, rerender } = renderHook(
+      ({ minSamples }) => useHumanCadence({ minSamples }),
+      { initialProps: { minSamples: 20 } },
+    );
+
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    act(() => {
+      result.current.ref(input);
+    });
+
+    for (let i = 0; i < 6; i++) {
+      mockNow.value += 110 + (i % 4) * 30;
+      fireKey(input, 'keydown');
+      mockNow.value += 40 + (i % 3) * 10;
+      fireKey(input, 'keyup');
+    }
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 200));
+    });
+    expect(result.current.confident).toBe(false);
+
+    rerender({ minSamples: 5 });
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 200));
+    });
+    expect(result.current.sampleCount).toBe(6);
+    expect(result.current.confident).toBe(true);
+
+    document.body.removeChild(input);
+  });
+
+  it('returns removed options to the defaults and keeps the window on an invalid size', async () => {
+    const { result, rerender } = renderHook(
+      ({ options }) => useHumanCadence(options),
+      { initialProps: { options: { minSamples: 5 } as { minSamples?: number; windowSize?: number } } },
+    );
+
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    act(() => {
+      result.current.ref(input);
+    });
+
+    for (let i = 0; i < 6; i++) {
+      mockNow.value += 110 + (i % 4) * 30;
+      fireKey(input, 'keydown');
+      mockNow.value += 40 + (i % 3) * 10;
+      fireKey(input, 'keyup');
+    }
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 200));
+    });
+    expect(result.current.confident).toBe(true);
+
+    rerender({ options: {} });
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 200));
+    });
+    expect(result.current.sampleCount).toBe(6);
+    expect(result.current.confident).toBe(false);
+
+    expect(() => rerender({ options: { windowSize: 0 } })).not.toThrow();
+    expect(result.current.snapshot()?.dwells).toHaveLength(6);
+
+    document.body.removeChild(input);
+  });
 });
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  encodeRecordingBinary, encodeRecordingJson, importRecording, INPUT_ANALYZE, INPUT_INPUT, INPUT_KEYDOWN, INPUT_KEYUP,
+  KEY_CORRECTION, KEY_MODIFIER, KEY_REPEAT, KEY_TRANSITION_SHIFT, KEY_UNTRUSTED, RECORDING_VERSION,
+} from '../src/recording';
+import { createCadence } from '../src/index';
+import { FLIGHT_CLASS_ALTERNATE, FLIGHT_CLASS_OTHER, FLIGHT_CLASS_SAME_ROW } from '../src/digraph';
+import type { Recording } from '../src/types';
+
+const config = { windowSize: 50, minSamples: 20 };
+
+function sample(): Recording {
+  return {
+    v: RECORDING_VERSION,
+    config,
+    inputs: [
+      [1000.25, INPUT_KEYDOWN, 0],
+      [1080.5, INPUT_KEYUP, 0],
+      [1200, INPUT_KEYDOWN, KEY_CORRECTION | KEY_MODIFIER],
+      [1260.125, INPUT_KEYUP, 0],
+      [1300, INPUT_ANALYZE, 0],
+    ],
+  };
+}
+
+describe('recording format', () => {
+  it('round-trips JSON exactly', () => {
+    const recording = sample();
+    expect(importRecording(encodeRecordingJson(recording))).toEqual(recording);
+  });
+
+  it('round-trips binary exactly, including sub-microsecond times', () => {
+    const recording = sample();
+    recording.inputs.push([1300.0004, INPUT_KEYDOWN, 3 * (1 << KEY_TRANSITION_SHIFT)], [1400.1 + 0.2, INPUT_KEYUP, 0]);
+    expect(importRecording(encodeRecordingBinary(recording))).toEqual(recording);
+  });
+
+  it('binary is smaller than JSON', () => {
+    const recording = sample();
+    // Browsers report whole (coarsened) microseconds
+    for (let i = 0; i < 200; i++) recording.inputs.push([(2e6 + i * 97_300) / 1000, INPUT_KEYDOWN + (i % 2), 0]);
+    expect(encodeRecordingBinary(recording).length).toBeLessThan(encodeRecordingJson(recording).length / 2);
+  });
+
+  it('keeps large timestamps and out-of-order deltas', () => {
+    const recording: Recording = {
+      v: RECORDING_VERSION,
+      config,
+      inputs: [[5e9, INPUT_KEYDOWN, 0], [12.5, INPUT_KEYUP, 0]],
+    };
+    const decoded = importRecording(encodeRecordingBinary(recording));
+    expect(decoded.inputs).toEqual(recording.inputs);
+  });
+
+  it('rejects malformed JSON recordings', () => {
+    expect(() => importRecording('not json')).toThrow('Invalid recording: not valid JSON');
+    expect(() => importRecording(JSON.stringify({ ...sample(), v: 99 }))).toThrow('unsupported version 99');
+    expect(() => importRecording(JSON.stringify({ ...sample(), config: {} }))).toThrow('windowSize and minSamples');
+    expect(() => importRecording(JSON.stringify({ ...sample(), inputs: [[0, 42, 0]] }))).toThrow('inputs[0] has an unknown type');
+    expect(() => importRecording(JSON.stringify({ ...sample(), inputs: [[0, 0]] }))).toThrow('inputs[0]');
+  });
+
+  it('rejects malformed binary recordings', () => {
+    expect(() => importRecording(new Uint8Array([1, 2, 3, 4]))).toThrow('missing header');
+    const bytes = encodeRecordingBinary(sample());
+    expect(() => importRecording(bytes.subarray(0, bytes.length - 2))).toThrow('unexpected end of data');
+    const wrongVersion = bytes.slice();
+    wrongVersion[3] = 99;
+    expect(() => importRecording(wrongVersion)).toThrow('unsupported version 99');
+  });
+});
+
+describe('exportRecording', () => {
+  let target: EventTarget;
+  let now: number;
+
+  beforeEach(() => {
+    target = new EventTarget();
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('throws unless record is enabled', () => {
+    const cadence = createCadence(target);
+    expect(() => cadence.exportRecording()).toThrow('record: true');
+    cadence.destroy();
+  });
+
+  it('records the observed inputs and analysis marks', () => {
+    const cadence = createCadence(target, { record: true, scheduling: 'manual' });
+    cadence.start();
+    target.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+    now = 1080;
+    target.dispatchEvent(new KeyboardEvent('keyup', { key: 'a' }));
+    now = 1200;
+    target.dispatchEvent(new InputEvent('input'));
+    cadence.analyze();
+
+    const recording = importRecording(cadence.exportRecording());
+    expect(recording.config).toMatchObject({ windowSize: 50, minSamples: 20, mobileMode: 'off' });
+    // Dispatched from script, so the keydown is flagged untrusted — its key is never stored
+    expect(recording.inputs).toEqual([
+      [1000, INPUT_KEYDOWN, KEY_UNTRUSTED],
+      [1080, INPUT_KEYUP, 0],
+      [1200, INPUT_INPUT, 0],
+      [1200, INPUT_ANALYZE, 0],
+    ]);
+    expect(importRecording(cadence.exportRecording('binary'))).toEqual(recording);
+    cadence.destroy();
+  });
+
+  it('records the transition class per key in digraph mode, never the position', () => {
+    const cadence = createCadence(target, { record: true, digraphModel: true, scheduling: 'manual' });
+    cadence.start();
+    for (const [code, repeat] of [['KeyA', false], ['KeyS', false], ['KeyS', true], ['KeyJ', false], ['Space', false]] as const) {
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', code, repeat }));
+    }
+
+    const details = importRecording(cadence.exportRecording()).inputs.map(([, , detail]) => detail);
+    expect(details).toEqual([
+      (FLIGHT_CLASS_OTHER + 1) * (1 << KEY_TRANSITION_SHIFT) | KEY_UNTRUSTED,
+      (FLIGHT_CLASS_SAME_ROW + 1) * (1 << KEY_TRANSITION_SHIFT) | KEY_UNTRUSTED,
+      KEY_REPEAT | KEY_UNTRUSTED,
+      (FLIGHT_CLASS_ALTERNATE + 1) * (1 << KEY_TRANSITION_SHIFT) | KEY_UNTRUSTED,
+      (FLIGHT_CLASS_OTHER + 1) * (1 << KEY_TRANSITION_SHIFT) | KEY_UNTRUSTED,
+    ]);
+    cadence.destroy();
+  });
+
+  it('refuses to record together with pointer dynamics', () => {
+    expect(() => createCadence(target, { record: true, pointer: true })).toThrow('cannot be combined with `pointer`');
+  });
+
+  it('clears the tape on reset()', () => {
+    const cadence = createCadence(target, { record: true, scheduling: 'manual' });
+    cadence.start();
+    target.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+    cadence.reset();
+    expect(importRecording(cadence.exportRecording()).inputs).toEqual([]);
+    cadence.destroy();
+  });
+});
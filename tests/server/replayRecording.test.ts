@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { importRecording, replayRecording } from '../../src/server/index';
+import { createCadence } from '../../src/index';
+import type { CadenceConfig, CadenceResult } from '../../src/types';
+import { generateHumanLike } from '../fixtures/human-profiles';
+
+const CODES = ['KeyA', 'KeyJ', 'KeyE', 'KeyN', 'Space', 'Digit7'];
+
+describe('replayRecording', () => {
+  let target: EventTarget;
+  let now: number;
+
+  beforeEach(() => {
+    target = new EventTarget();
+    now = 1000;
+    vi.useFakeTimers();
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /** Type a human-like session with corrections, a paste and a bot-like tail, analyzing along the way. */
+  function liveSession(config: CadenceConfig) {
+    const results: CadenceResult[] = [];
+    const cadence = createCadence(target, { ...config, record: true, onScore: (r) => results.push(r) });
+    cadence.start();
+    const human = generateHumanLike(60);
+    for (let i = 0; i < 90; i++) {
+      const key = i % 11 === 10 ? 'Backspace' : 'a';
+      now += i < 60 ? human.flights[i] : 100;
+      target.dispatchEvent(new KeyboardEvent('keydown', { key, code: CODES[i % CODES.length] }));
+      now += i < 60 ? human.dwells[i] : 50;
+      target.dispatchEvent(new KeyboardEvent('keyup', { key }));
+      if (i === 30) target.dispatchEvent(new Event('paste'));
+      if (i % 5 === 4) vi.runAllTimers();
+    }
+    vi.runAllTimers();
+    return { cadence, results };
+  }
+
+  it('reproduces the live result sequence exactly from JSON', () => {
+    const { cadence, results } = liveSession({ digraphModel: true });
+    const replayed = replayRecording(importRecording(cadence.exportRecording()));
+
+    expect(results.length).toBeGreaterThan(10);
+    expect(replayed).toEqual(results);
+    // The bot-like tail moves the classification through hysteresis
+    expect(new Set(results.map((r) => r.classification)).size).toBeGreaterThan(1);
+    cadence.destroy();
+  });
+
+  it('reproduces the live result sequence exactly from binary', () => {
+    const { cadence, results } = liveSession({ digraphModel: true, recordEvents: true });
+    const replayed = replayRecording(importRecording(cadence.exportRecording('binary')));
+
+    expect(replayed).toEqual(results);
+    cadence.destroy();
+  });
+
+  it('replays virtual keyboard input', () => {
+    const results: CadenceResult[] = [];
+    const cadence = createCadence(target, { record: true, mobileMode: 'always', scheduling: 'manual', onScore: (r) => results.push(r) });
+    cadence.start();
+    const human = generateHumanLike(30);
+    for (let i = 0; i < 30; i++) {
+      now += human.flights[i] * 2;
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: 'Unidentified', keyCode: 229 }));
+      target.dispatchEvent(new InputEvent('beforeinput', { inputType: i % 9 === 8 ? 'deleteContentBackward' : 'insertText' }));
+      target.dispatchEvent(new InputEvent('input'));
+      if (i % 10 === 9) cadence.analyze();
+    }
+
+    const replayed = replayRecording(importRecording(cadence.exportRecording()));
+    expect(replayed).toEqual(results);
+    expect(replayed[2].signals.virtualKeyboard).toBe(true);
+    cadence.destroy();
+  });
+
+  it('replays configure() calls at the point they were made', () => {
+    const results: CadenceResult[] = [];
+    const cadence = createCadence(target, { record: true, scheduling: 'manual', onScore: (r) => results.push(r) });
+    cadence.start();
+    const human = generateHumanLike(40);
+    for (let i = 0; i < 40; i++) {
+      now += human.flights[i];
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+      now += human.dwells[i];
+      target.dispatchEvent(new KeyboardEvent('keyup', { key: 'a' }));
+      if (i === 15) cadence.configure({ minSamples: 5, windowSize: 12 });
+      if (i === 25) cadence.configure({ weights: { flightFit: 0 } });
+      if (i % 5 === 4) cadence.analyze();
+    }
+
+    const recording = importRecording(cadence.exportRecording());
+    // The recording starts from the settings the tape started with
+    expect(recording.config).toMatchObject({ windowSize: 50, minSamples: 20 });
+    expect(recording.changes).toEqual([{ minSamples: 5, windowSize: 12 }, { weights: { flightFit: 0 } }]);
+    expect(replayRecording(recording)).toEqual(results);
+    expect(replayRecording(importRecording(cadence.exportRecording('binary')))).toEqual(results);
+    cadence.destroy();
+  });
+
+  it('applies config overrides on top of the recorded config', () => {
+    const { cadence } = liveSession({});
+    const recording = importRecording(cadence.exportRecording());
+    const replayed = replayRecording(recording, { metrics: [{ name: 'constant', weight: 0.1, score: () => 0.8 }] });
+    expect(replayed[replayed.length - 1].metrics.constant).toBe(0.8);
+    cadence.destroy();
+  });
+
+  it('reads the tape clock without calling performance.now', () => {
+    const { cadence } = liveSession({ digraphModel: true });
+    const recording = importRecording(cadence.exportRecording());
+    const spy = vi.mocked(performance.now);
+    spy.mockClear();
+    replayRecording(recording);
+    expect(spy).not.toHaveBeenCalled();
+    cadence.destroy();
+  });
+});
@@ -0,0 +1,172 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { verifyTimingData, validateTimingData, DEFAULT_VERIFY_LIMITS } from '../../src/server/index';
+import { createAnalyzer, DEFAULT_WEIGHTS } from '../../src/analyzer';
+import { generateConstantBot } from '../fixtures/bot-profiles';
+import { generateHumanLike, generateDigraphHuman } from '../fixtures/human-profiles';
+
+describe('validateTimingData', () => {
+  it('accepts a well-formed snapshot', () => {
+    const human = generateHumanLike(30);
+    const result = validateTimingData(human);
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects non-object payloads', () => {
+    expect(validateTimingData(null)).toEqual({ valid: false, error: 'payload must be an object' });
+    expect(validateTimingData([1, 2]).valid).toBe(false);
+  });
+
+  it('rejects non-finite and negative intervals', () => {
+    const human = generateHumanLike(10);
+    const withNaN = validateTimingData({ ...human, dwells: [...human.dwells, NaN] });
+    expect(withNaN).toEqual({ valid: false, error: expect.stringContaining('dwells[10]') });
+    const negative = validateTimingData({ ...human, flights: [-5] });
+    expect(negative.valid).toBe(false);
+  });
+
+  it('rejects intervals above maxIntervalMs', () => {
+    const human = generateHumanLike(10);
+    const result = validateTimingData({ ...human, flights: [DEFAULT_VERIFY_LIMITS.maxIntervalMs + 1] });
+    expect(result.valid).toBe(false);
+  });
+
+  it('rejects oversized arrays', () => {
+    const human = generateHumanLike(10);
+    const result = validateTimingData(human, { maxSamples: 5 });
+    expect(result).toEqual({ valid: false, error: 'dwells exceeds 5 entries' });
+  });
+
+  it('rejects non-integer counters and counts above total', () => {
+    const human = generateHumanLike(10);
+    expect(validateTimingData({ ...human, total: 1.5 }).valid).toBe(false);
+    expect(validateTimingData({ ...human, corrections: '3' }).valid).toBe(false);
+    expect(validateTimingData({ ...human, rollovers: 11 })).toEqual({
+      valid: false,
+      error: 'rollovers exceeds total',
+    });
+    expect(validateTimingData({ ...human, corrections: 11 })).toEqual({
+      valid: false,
+      error: 'corrections exceeds total',
+    });
+  });
+
+  it('rejects malformed or out-of-order events', () => {
+    const base = { dwells: [], flights: [], corrections: 0, rollovers: 0, total: 2 };
+    const ev = { pressTime: 100, releaseTime: 150, isCorrection: false, isRollover: false };
+    expect(validateTimingData({ ...base, events: [ev, { ...ev, pressTime: 50, releaseTime: 90 }] }))
+      .toEqual({ valid: false, error: 'events[1] is out of order' });
+    expect(validateTimingData({ ...base, events: [{ ...ev, releaseTime: 10 }] }).valid).toBe(false);
+    expect(validateTimingData({ ...base, events: [{ ...ev, isRollover: 1 }] }).valid).toBe(false);
+    expect(validateTimingData({ ...base, events: 'nope' }).valid).toBe(false);
+  });
+
+  it('validates flightClasses against flights', () => {
+    const base = { dwells: [50, 50], flights: [100], corrections: 0, rollovers: 0, total: 2 };
+    expect(validateTimingData({ ...base, flightClasses: [2] }).valid).toBe(true);
+    expect(validateTimingData({ ...base, flightClasses: [2, 1] }))
+      .toEqual({ valid: false, error: 'flightClasses must align with flights' });
+    expect(validateTimingData({ ...base, flightClasses: [7] }))
+      .toEqual({ valid: false, error: 'flightClasses[0] is not a known class' });
+  });
+
+  it('validates virtual keyboard timing and the profile', () => {
+    const base = { dwells: [], flights: [], corrections: 0, rollovers: 0, total: 0 };
+    const virtual = { intervals: [180, 240], corrections: 1, total: 3 };
+    const result = validateTimingData({ ...base, profile: 'virtual', virtual });
+    expect(result.valid && result.data).toEqual({ ...base, profile: 'virtual', virtual });
+    expect(validateTimingData({ ...base, profile: 'touch' }))
+      .toEqual({ valid: false, error: "profile must be 'keyboard' or 'virtual'" });
+    expect(validateTimingData({ ...base, virtual: { ...virtual, intervals: [-1] } }).valid).toBe(false);
+    expect(validateTimingData({ ...base, virtual: { ...virtual, corrections: 4 } }))
+      .toEqual({ valid: false, error: 'virtual.corrections exceeds virtual.total' });
+    expect(validateTimingData({ ...base, virtual: [] })).toEqual({ valid: false, error: 'virtual must be an object' });
+  });
+
+  it('strips unknown fields', () => {
+    const human = generateHumanLike(10);
+    const result = validateTimingData({ ...human, score: 1, classification: 'human' });
+    expect(result.valid && Object.keys(result.data).sort()).toEqual(
+      ['corrections', 'dwells', 'flights', 'rollovers', 'total'],
+    );
+  });
+});
+
+describe('verifyTimingData', () => {
+  it('matches the client analyzer for the same window', () => {
+    const human = generateHumanLike(40);
+    const expected = createAnalyzer({ minSamples: 20, weights: DEFAULT_WEIGHTS }).analyze(
+      human.dwells, human.flights, human.corrections, human.rollovers, human.total,
+    );
+    const result = verifyTimingData(human);
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.result.score).toBe(expected.score);
+    expect(result.result.metrics).toEqual(expected.metrics);
+    expect(result.result.spoof.genuineScore).toBeGreaterThan(0);
+    expect(result.result.features).toEqual(expected.features);
+  });
+
+  it('explains the verdict when asked', () => {
+    const bot = verifyTimingData(generateConstantBot(50), { explain: true });
+    if (!bot.valid) throw new Error(bot.error);
+    expect(bot.result.explanation?.reasons).toContain('DWELL_SD_TOO_LOW');
+    const plain = verifyTimingData(generateConstantBot(50));
+    expect(plain.valid && plain.result.explanation).toBeUndefined();
+  });
+
+  it('classifies a human payload as human and a constant bot as bot', () => {
+    const human = verifyTimingData(generateHumanLike(50));
+    const bot = verifyTimingData(generateConstantBot(50));
+    expect(human.valid && human.result.classification).toBe('human');
+    expect(bot.valid && bot.result.classification).toBe('bot');
+  });
+
+  it('applies hysteresis from previousClassification', () => {
+    const human = generateHumanLike(50);
+    const fresh = verifyTimingData(human);
+    if (!fresh.valid) throw new Error(fresh.error);
+    const thresholds = { unknownToHuman: fresh.result.score + 0.01, humanToUnknown: fresh.result.score - 0.01 };
+    const fromUnknown = verifyTimingData(human, { classificationThresholds: thresholds });
+    const fromHuman = verifyTimingData(human, { classificationThresholds: thresholds, previousClassification: 'human' });
+    expect(fromUnknown.valid && fromUnknown.result.classification).toBe('unknown');
+    expect(fromHuman.valid && fromHuman.result.classification).toBe('human');
+  });
+
+  it('trims ring buffer data to windowSize', () => {
+    const human = generateHumanLike(80);
+    const result = verifyTimingData(human, { windowSize: 30 });
+    expect(result.valid && result.result.sampleCount).toBe(30);
+  });
+
+  it('prefers the event log once it outgrows the dwell window', () => {
+    const events = Array.from({ length: 30 }, (_, i) => ({
+      pressTime: i * 150,
+      releaseTime: i * 150 + 50,
+      isCorrection: false,
+      isRollover: false,
+    }));
+    const result = verifyTimingData({
+      dwells: Array(10).fill(50),
+      flights: Array(10).fill(100),
+      corrections: 0,
+      rollovers: 0,
+      total: 30,
+      events,
+    });
+    expect(result.valid && result.result.sampleCount).toBe(30);
+  });
+
+  it('scores flightFit per digraph class when flightClasses are present', () => {
+    const { flights, classes } = generateDigraphHuman(50);
+    const human = { ...generateHumanLike(50), flights };
+    const single = verifyTimingData(human);
+    const perClass = verifyTimingData({ ...human, flightClasses: classes });
+    if (!single.valid || !perClass.valid) throw new Error('invalid');
+    expect(perClass.result.spoof.logNormality).not.toBe(single.result.spoof.logNormality);
+  });
+
+  it('returns the validation error for invalid payloads', () => {
+    expect(verifyTimingData({ dwells: 'x' })).toEqual({ valid: false, error: 'dwells must be an array' });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRoot, createSignal } from 'solid-js';
+import { createHumanCadence, humanCadence } from '../../src/solid/index';
+
+function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
+  el.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true }));
+}
+
+describe('solid bindings', () => {
+  let mockNow: { value: number };
+  let input: HTMLInputElement;
+
+  function type(count: number) {
+    for (let i = 0; i < count; i++) {
+      mockNow.value += 110 + (i % 7) * 23;
+      fireKey(input, 'keydown');
+      mockNow.value += 40 + (i % 5) * 9;
+      fireKey(input, 'keyup');
+    }
+    vi.runAllTimers();
+  }
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.useFakeTimers();
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+    input = document.createElement('input');
+    document.body.appendChild(input);
+  });
+
+  afterEach(() => {
+    input.remove();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('createHumanCadence', () => {
+    it('starts neutral', () => {
+      createRoot((dispose) => {
+        const cadence = createHumanCadence();
+        expect(cadence.score()).toBe(0.5);
+        expect(cadence.classification()).toBe('unknown');
+        expect(cadence.signals().insufficientData).toBe(true);
+        expect(cadence.snapshot()).toBeNull();
+        dispose();
+      });
+    });
+
+    it('updates its signals from the attached element', () => {
+      createRoot((dispose) => {
+        const cadence = createHumanCadence({ minSamples: 5 });
+        cadence.ref(input);
+        type(6);
+
+        expect(cadence.sampleCount()).toBe(6);
+        expect(cadence.confident()).toBe(true);
+        expect(cadence.result().classification).toBe(cadence.classification());
+        expect(cadence.snapshot()?.dwells).toHaveLength(6);
+
+        cadence.reset();
+        expect(cadence.sampleCount()).toBe(0);
+        expect(cadence.snapshot()?.dwells).toEqual([]);
+        dispose();
+      });
+    });
+
+    it('applies changed scoring options in place', () => {
+      const [minSamples, setMinSamples] = createSignal(20);
+      const { cadence, dispose } = createRoot((dispose) => ({
+        cadence: createHumanCadence(() => ({ minSamples: minSamples(), metrics: [] })),
+        dispose,
+      }));
+      cadence.ref(input);
+      type(6);
+      expect(cadence.confident()).toBe(false);
+
+      setMinSamples(5);
+      vi.runAllTimers();
+      expect(cadence.confident()).toBe(true);
+      expect(cadence.sampleCount()).toBe(6);
+      dispose();
+    });
+
+    it('restarts when a fixed option changes', () => {
+      const [recordEvents, setRecordEvents] = createSignal(false);
+      const { cadence, dispose } = createRoot((dispose) => ({
+        cadence: createHumanCadence(() => ({ minSamples: 5, recordEvents: recordEvents() })),
+        dispose,
+      }));
+      cadence.ref(input);
+      type(6);
+
+      setRecordEvents(true);
+      expect(cadence.sampleCount()).toBe(0);
+      expect(cadence.snapshot()?.events).toEqual([]);
+      dispose();
+    });
+
+    it('is destroyed with its owner', () => {
+      let cadence!: ReturnType<typeof createHumanCadence>;
+      createRoot((dispose) => {
+        cadence = createHumanCadence();
+        cadence.ref(input);
+        dispose();
+      });
+      type(4);
+      expect(cadence.sampleCount()).toBe(0);
+      expect(cadence.snapshot()).toBeNull();
+    });
+  });
+
+  describe('use:humanCadence', () => {
+    it('calls the callback value on score updates', () => {
+      const callback = vi.fn();
+      createRoot((dispose) => {
+        humanCadence(input, () => callback);
+        type(3);
+        expect(callback).toHaveBeenCalled();
+        dispose();
+      });
+    });
+
+    it('follows a changing value without restarting', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const [minSamples, setMinSamples] = createSignal(20);
+      const [onScore, setOnScore] = createSignal(first);
+      const dispose = createRoot((dispose) => {
+        humanCadence(input, () => ({ onScore: onScore(), minSamples: minSamples(), metrics: [] }));
+        return dispose;
+      });
+      type(6);
+      expect(first.mock.calls[first.mock.calls.length - 1][0].confident).toBe(false);
+
+      setOnScore(() => second);
+      setMinSamples(5);
+      vi.runAllTimers();
+      const last = second.mock.calls[second.mock.calls.length - 1][0];
+      expect(last.confident).toBe(true);
+      expect(last.sampleCount).toBe(6);
+      dispose();
+    });
+
+    it('accepts a config value and cleans up with its owner', () => {
+      const onScore = vi.fn();
+      createRoot((dispose) => {
+        humanCadence(input, () => ({ onScore, minSamples: 3 }));
+        type(3);
+        expect(onScore.mock.calls[onScore.mock.calls.length - 1][0].confident).toBe(true);
+        dispose();
+      });
+      onScore.mockClear();
+      type(3);
+      expect(onScore).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import { createHumanCadence, humanCadence } from '../../src/svelte/index';
+import type { CadenceResult } from '../../src/types';
+
+function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
+  el.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true }));
+}
+
+describe('svelte bindings', () => {
+  let mockNow: { value: number };
+  let input: HTMLInputElement;
+
+  function type(count: number) {
+    for (let i = 0; i < count; i++) {
+      mockNow.value += 110 + (i % 7) * 23;
+      fireKey(input, 'keydown');
+      mockNow.value += 40 + (i % 5) * 9;
+      fireKey(input, 'keyup');
+    }
+    vi.runAllTimers();
+  }
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.useFakeTimers();
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+    input = document.createElement('input');
+    document.body.appendChild(input);
+  });
+
+  afterEach(() => {
+    input.remove();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('humanCadence action', () => {
+    it('calls the callback parameter on score updates', () => {
+      const callback = vi.fn();
+      const action = humanCadence(input, callback);
+      type(5);
+      expect(callback).toHaveBeenCalled();
+      expect(callback.mock.calls[0][0]).toHaveProperty('classification');
+      action.destroy?.();
+    });
+
+    it('accepts an object parameter with config', () => {
+      const onScore = vi.fn();
+      const action = humanCadence(input, { onScore, minSamples: 5 });
+      type(8);
+      const last = onScore.mock.calls[onScore.mock.calls.length - 1][0] as CadenceResult;
+      expect(last.confident).toBe(true);
+      action.destroy?.();
+    });
+
+    it('update() swaps the callback without losing data', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const action = humanCadence(input, first);
+      type(5);
+      action.update?.(second);
+      type(1);
+      expect(second.mock.calls[0][0].sampleCount).toBe(6);
+      action.destroy?.();
+    });
+
+    it('update() applies new scoring settings in place', () => {
+      const onScore = vi.fn();
+      const action = humanCadence(input, { onScore });
+      type(5);
+      action.update?.({ onScore, minSamples: 3 });
+      vi.runAllTimers();
+      const last = onScore.mock.calls[onScore.mock.calls.length - 1][0] as CadenceResult;
+      expect(last.sampleCount).toBe(5);
+      expect(last.confident).toBe(true);
+
+      // Same settings in a new object don't re-score
+      onScore.mockClear();
+      action.update?.({ onScore, minSamples: 3 });
+      vi.runAllTimers();
+      expect(onScore).not.toHaveBeenCalled();
+      action.destroy?.();
+    });
+
+    it('update() with an equal inline metrics array keeps the instance', () => {
+      const onScore = vi.fn();
+      const metrics = () => [{ name: 'constant', weight: 0.1, score: () => 0.8 }];
+      const action = humanCadence(input, { onScore, metrics: metrics() });
+      type(5);
+      action.update?.({ onScore, metrics: metrics() });
+      type(1);
+      expect(onScore.mock.calls[onScore.mock.calls.length - 1][0].sampleCount).toBe(6);
+
+      // A different metric set restarts it
+      action.update?.({ onScore, metrics: [{ name: 'other', weight: 0.1, score: () => 0.2 }] });
+      type(1);
+      expect(onScore.mock.calls[onScore.mock.calls.length - 1][0].sampleCount).toBe(1);
+      action.destroy?.();
+    });
+
+    it('update() with a new mobile mode restarts the analysis', () => {
+      const onScore = vi.fn();
+      const action = humanCadence(input, { onScore });
+      type(5);
+      action.update?.({ onScore, mobileMode: 'auto' });
+      type(2);
+      expect(onScore.mock.calls[onScore.mock.calls.length - 1][0].sampleCount).toBe(2);
+      action.destroy?.();
+    });
+
+    it('stops listening on destroy', () => {
+      const callback = vi.fn();
+      const action = humanCadence(input, callback);
+      action.destroy?.();
+      type(5);
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createHumanCadence store', () => {
+    it('starts with a neutral result', () => {
+      const cadence = createHumanCadence();
+      const result = get(cadence);
+      expect(result.score).toBe(0.5);
+      expect(result.classification).toBe('unknown');
+      expect(result.signals.insufficientData).toBe(true);
+    });
+
+    it('publishes results from the attached element', () => {
+      const cadence = createHumanCadence({ minSamples: 5 });
+      const seen: number[] = [];
+      const unsubscribe = cadence.subscribe((r) => seen.push(r.sampleCount));
+      const action = cadence.action(input);
+      type(6);
+
+      expect(get(cadence).sampleCount).toBe(6);
+      expect(get(cadence).confident).toBe(true);
+      expect(seen[0]).toBe(0);
+      expect(cadence.snapshot()?.dwells).toHaveLength(6);
+      unsubscribe();
+      action.destroy?.();
+    });
+
+    it('reset() returns the store to neutral', () => {
+      const cadence = createHumanCadence();
+      const action = cadence.action(input);
+      type(6);
+      cadence.reset();
+      expect(get(cadence).sampleCount).toBe(0);
+      expect(cadence.snapshot()?.dwells).toEqual([]);
+      action.destroy?.();
+    });
+
+    it('detaches on destroy', () => {
+      const cadence = createHumanCadence();
+      const action = cadence.action(input);
+      action.destroy?.();
+      type(5);
+      expect(get(cadence).sampleCount).toBe(0);
+      expect(cadence.snapshot()).toBeNull();
+    });
+  });
+});
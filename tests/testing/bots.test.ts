@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  buildScript,
+  constantBot,
+  dispatchScript,
+  gaussianBot,
+  jitterBot,
+  logNormalBot,
+  markovBot,
+  replayBot,
+  resampleBot,
+  rolloverBot,
+  scriptDuration,
+  toTimingData,
+  type KeystrokeScript,
+} from '../../src/testing/index';
+import { createCadence } from '../../src/index';
+import { verifyTimingData } from '../../src/server/index';
+import { generateHumanLike } from '../fixtures/human-profiles';
+
+const source = generateHumanLike(60);
+
+/** Timestamps are absolute, so intervals come back within rounding. */
+function expectIntervals(actual: number[], expected: number[]) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 6));
+}
+
+function score(script: KeystrokeScript): number {
+  const verdict = verifyTimingData(toTimingData(script));
+  if (!verdict.valid) throw new Error(verdict.error);
+  return verdict.result.score;
+}
+
+describe('bot strategies', () => {
+  const strategies: Record<string, (seed?: number) => KeystrokeScript> = {
+    constant: (seed) => constantBot({ seed }),
+    jitter: (seed) => jitterBot({ seed }),
+    gaussian: (seed) => gaussianBot({ seed }),
+    logNormal: (seed) => logNormalBot({ seed }),
+    rollover: (seed) => rolloverBot({ seed }),
+    replay: (seed) => replayBot({ source, seed }),
+    resample: (seed) => resampleBot({ source, seed }),
+    markov: (seed) => markovBot({ source, seed }),
+  };
+
+  it.each(Object.keys(strategies))('%s is deterministic per seed', (name) => {
+    const bot = strategies[name];
+    expect(bot(7)).toEqual(bot(7));
+    for (const keystroke of bot(7)) expect(keystroke.release).toBeGreaterThan(keystroke.press);
+  });
+
+  it.each(Object.keys(strategies))('%s scores below the human session it imitates', (name) => {
+    const human = verifyTimingData(source);
+    if (!human.valid) throw new Error(human.error);
+    expect(score(strategies[name]())).toBeLessThan(human.result.score);
+  });
+
+  it('varies with the seed', () => {
+    expect(gaussianBot({ seed: 1 })).not.toEqual(gaussianBot({ seed: 2 }));
+    expect(markovBot({ source, seed: 1 })).not.toEqual(markovBot({ source, seed: 2 }));
+  });
+
+  it('classifies a constant bot as bot', () => {
+    const verdict = verifyTimingData(toTimingData(constantBot()));
+    expect(verdict.valid && verdict.result.classification).toBe('bot');
+  });
+
+  it('types the given text', () => {
+    expect(constantBot({ count: 5, text: 'ab' }).map((k) => k.key).join('')).toBe('ababa');
+    expect(constantBot({ count: 1, text: 'q' })[0].code).toBe('KeyQ');
+  });
+
+  it('injects rollovers at the configured rate', () => {
+    const data = toTimingData(rolloverBot({ count: 100, rate: 0.5 }));
+    expect(data.rollovers).toBeGreaterThan(35);
+    expect(data.rollovers).toBeLessThan(65);
+    expect(toTimingData(rolloverBot({ rate: 0 })).rollovers).toBe(0);
+  });
+
+  it('replays the source timing verbatim', () => {
+    const data = toTimingData(replayBot({ source }));
+    expectIntervals(data.dwells, source.dwells);
+    expectIntervals(data.flights, source.flights.slice(0, source.dwells.length - 1));
+    expect(data.corrections).toBe(0);
+  });
+
+  it('resamples only values from the source', () => {
+    const data = toTimingData(resampleBot({ source, count: 80 }));
+    const near = (values: number[], value: number) => values.some((v) => Math.abs(v - value) < 1e-6);
+    expect(data.dwells.every((dwell) => near(source.dwells, dwell))).toBe(true);
+    expect(data.flights.every((flight) => near(source.flights, flight))).toBe(true);
+  });
+
+  it('keeps markov flights within the source range', () => {
+    const data = toTimingData(markovBot({ source, count: 200, states: 4 }));
+    expect(Math.min(...data.flights)).toBeGreaterThanOrEqual(Math.min(...source.flights));
+    expect(Math.max(...data.flights)).toBeLessThanOrEqual(Math.max(...source.flights));
+  });
+
+  it('throws without a source to imitate', () => {
+    const empty = { dwells: [], flights: [], corrections: 0, rollovers: 0, total: 0 };
+    expect(() => markovBot({ source: empty })).toThrow('markovBot() needs a source');
+    expect(() => replayBot({ source: empty })).toThrow('replayBot() needs a source');
+  });
+});
+
+describe('toTimingData', () => {
+  it('measures dwells, flights and overlaps like the observer', () => {
+    // 'c' goes down 20ms before 'b' comes up; the observer times b's release from c's press
+    const script = buildScript(['a', 'b', 'c'], { dwells: [40, 60, 50], gaps: [0, 100, -20] });
+    expect(toTimingData(script)).toEqual({ dwells: [40, 20, 50], flights: [100], corrections: 0, rollovers: 1, total: 3 });
+  });
+
+  it('counts Backspace as a correction', () => {
+    const script = buildScript(['a', 'Backspace', 'b'], { dwells: [40, 40, 40], gaps: [0, 90, 90] });
+    expect(toTimingData(script).corrections).toBe(1);
+  });
+
+  it('keeps the last windowSize samples and optional fields', () => {
+    const data = toTimingData(constantBot({ count: 30 }), { windowSize: 10, recordEvents: true, digraphModel: true });
+    expect(data.dwells).toHaveLength(10);
+    expect(data.events).toHaveLength(30);
+    expect(data.flightClasses).toHaveLength(10);
+  });
+});
+
+describe('dispatchScript', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('drives a live cadence instance to the same timing as toTimingData', () => {
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    const cadence = createCadence(input, { scheduling: 'manual' });
+    cadence.start();
+
+    const script = gaussianBot();
+    dispatchScript(input, script);
+    const live = cadence.snapshot();
+    const offline = toTimingData(script, { windowSize: 50 });
+    expectIntervals(live.dwells, offline.dwells);
+    expectIntervals(live.flights, offline.flights);
+    expect({ ...live, dwells: [], flights: [] }).toEqual({ ...offline, dwells: [], flights: [] });
+
+    const result = cadence.analyze();
+    expect(result.sampleCount).toBe(50);
+    expect(result.signals.syntheticEvents).toBe(50);
+    expect(result.signals.inputWithoutKeystrokes).toBe(false);
+    cadence.destroy();
+  });
+
+  it('types into the field and fires input events', () => {
+    const input = document.createElement('input');
+    const onInput = vi.fn();
+    input.addEventListener('input', onInput);
+    dispatchScript(input, constantBot({ count: 5, text: 'hello' }));
+    expect(input.value).toBe('hello');
+    expect(onInput).toHaveBeenCalledTimes(5);
+
+    dispatchScript(input, buildScript(['Backspace'], { dwells: [40], gaps: [0] }));
+    expect(input.value).toBe('hell');
+
+    dispatchScript(input, constantBot({ count: 2 }), { editValue: false });
+    expect(input.value).toBe('hell');
+  });
+
+  it('pins performance.now() to the script and restores it', () => {
+    const now = vi.spyOn(performance, 'now').mockReturnValue(5000);
+    const seen: number[] = [];
+    const target = new EventTarget();
+    target.addEventListener('keydown', () => seen.push(performance.now()));
+
+    const script = constantBot({ count: 3 });
+    const end = dispatchScript(target, script, { start: 5000 });
+    expect(seen).toEqual([5000, 5150, 5300]);
+    expect(end).toBe(5000 + scriptDuration(script));
+    expect(performance.now()).toBe(5000);
+    now.mockRestore();
+  });
+
+  it('continues successive dispatches on one timeline', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(1000);
+    const target = new EventTarget();
+    const cadence = createCadence(target, { scheduling: 'manual' });
+    cadence.start();
+    const end = dispatchScript(target, constantBot({ count: 10 }));
+    dispatchScript(target, constantBot({ count: 10 }));
+    const { flights } = cadence.snapshot();
+    expect(end).toBeGreaterThan(1000);
+    expect(flights.every((flight) => flight >= 0)).toBe(true);
+    cadence.destroy();
+  });
+});
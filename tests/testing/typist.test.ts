@@ -0,0 +1,102 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { constantBot, dispatchScript, humanTypist, toTimingData, TYPING_SPEEDS } from '../../src/testing/index';
+import { createCadence } from '../../src/index';
+import { createObserver } from '../../src/observer';
+import { verifyTimingData } from '../../src/server/index';
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+describe('humanTypist', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('is deterministic per seed', () => {
+    expect(humanTypist({ seed: 5 })).toEqual(humanTypist({ seed: 5 }));
+    expect(humanTypist({ seed: 5 })).not.toEqual(humanTypist({ seed: 6 }));
+  });
+
+  it('generates exactly count keystrokes in press order', () => {
+    const script = humanTypist({ count: 80 });
+    expect(script).toHaveLength(80);
+    for (let i = 1; i < script.length; i++) expect(script[i].press).toBeGreaterThan(script[i - 1].press);
+  });
+
+  it('is classified human through a live cadence instance', () => {
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    const cadence = createCadence(input, { scheduling: 'manual' });
+    cadence.start();
+    dispatchScript(input, humanTypist({ text: 'jane.doe@example.com ' }));
+
+    const result = cadence.analyze();
+    expect(result.confident).toBe(true);
+    expect(result.classification).toBe('human');
+    expect(input.value.startsWith('jane.doe@example.com')).toBe(true);
+    cadence.destroy();
+  });
+
+  it('drives createObserver like a typist', () => {
+    const target = new EventTarget();
+    const observer = createObserver(target, { windowSize: 100 });
+    observer.start();
+    dispatchScript(target, humanTypist({ count: 100, speed: 'fast' }));
+    const state = observer.getState();
+    expect(state.total).toBe(100);
+    expect(state.corrections).toBeGreaterThan(0);
+    expect(state.rollovers).toBeGreaterThan(0);
+    expect(state.syntheticEvents).toBe(100);
+    observer.destroy();
+  });
+
+  it.each(['slow', 'average', 'fast'] as const)('scores a %s typist as human', (speed) => {
+    const verdict = verifyTimingData(toTimingData(humanTypist({ speed, count: 100 })));
+    expect(verdict.valid && verdict.result.classification).toBe('human');
+  });
+
+  it('scores human across seeds with the defaults', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const verdict = verifyTimingData(toTimingData(humanTypist({ seed })));
+      expect(verdict.valid && verdict.result.classification).toBe('human');
+    }
+  });
+
+  it('outscores a constant bot typing the same text', () => {
+    const human = verifyTimingData(toTimingData(humanTypist()));
+    const bot = verifyTimingData(toTimingData(constantBot()));
+    if (!human.valid || !bot.valid) throw new Error('invalid payload');
+    expect(human.result.score).toBeGreaterThan(bot.result.score + 0.3);
+  });
+
+  it('types faster with a faster preset', () => {
+    const slow = toTimingData(humanTypist({ speed: 'slow', count: 100 }));
+    const fast = toTimingData(humanTypist({ speed: 'fast', count: 100 }));
+    expect(median(fast.flights)).toBeLessThan(median(slow.flights));
+    expect(fast.rollovers).toBeGreaterThan(slow.rollovers);
+  });
+
+  it('fixes typos with Backspace at the configured rate', () => {
+    const script = humanTypist({ count: 200, correctionRate: 0.2 });
+    const backspaces = script.filter((k) => k.key === 'Backspace').length;
+    expect(backspaces).toBeGreaterThan(15);
+    expect(humanTypist({ count: 200, correctionRate: 0 }).some((k) => k.key === 'Backspace')).toBe(false);
+  });
+
+  it('pauses between words', () => {
+    const script = humanTypist({ count: 100, speed: { ...TYPING_SPEEDS.average, pauseRate: 1, pauseMedian: 2000 } });
+    const wordStarts = script.filter((k, i) => i > 0 && script[i - 1].key === ' ');
+    for (const keystroke of wordStarts) {
+      const previous = script[script.indexOf(keystroke) - 1];
+      expect(keystroke.press - previous.release).toBeGreaterThan(500);
+    }
+  });
+
+  it('moves slower across a row change than across hands', () => {
+    const rows = toTimingData(humanTypist({ text: 'ju', count: 200, correctionRate: 0 }));
+    const hands = toTimingData(humanTypist({ text: 'fj', count: 200, correctionRate: 0 }));
+    expect(median(rows.flights)).toBeGreaterThan(median(hands.flights));
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mount } from '@vue/test-utils';
+import { defineComponent, nextTick, reactive, ref } from 'vue';
+import { useHumanCadence, type UseHumanCadenceOptions, type UseHumanCadenceReturn } from '../../src/vue/index';
+
+function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
+  el.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true }));
+}
+
+describe('useHumanCadence composable', () => {
+  let mockNow: { value: number };
+
+  function type(el: Element, count: number) {
+    for (let i = 0; i < count; i++) {
+      mockNow.value += 110 + (i % 7) * 23;
+      fireKey(el, 'keydown');
+      mockNow.value += 40 + (i % 5) * 9;
+      fireKey(el, 'keyup');
+    }
+    vi.runAllTimers();
+  }
+
+  function setup(options?: UseHumanCadenceOptions | ReturnType<typeof ref<UseHumanCadenceOptions>>) {
+    const show = ref(true);
+    let cadence!: UseHumanCadenceReturn;
+    const TestComp = defineComponent({
+      setup() {
+        cadence = useHumanCadence(options);
+        return { target: cadence.target, show };
+      },
+      template: '<input v-if="show" ref="target" />',
+    });
+    const wrapper = mount(TestComp, { attachTo: document.body });
+    return { wrapper, show, cadence };
+  }
+
+  beforeEach(() => {
+    mockNow = { value: 1000 };
+    vi.useFakeTimers();
+    vi.spyOn(performance, 'now').mockImplementation(() => mockNow.value);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('exposes signals, sampleCount and snapshot like the React hook', async () => {
+    const { wrapper, cadence } = setup({ minSamples: 5, recordEvents: true });
+    await nextTick();
+    type(wrapper.find('input').element, 6);
+
+    expect(cadence.sampleCount.value).toBe(6);
+    expect(cadence.confident.value).toBe(true);
+    expect(cadence.signals.value.insufficientData).toBe(false);
+    expect(cadence.snapshot()?.events).toHaveLength(6);
+
+    cadence.reset();
+    expect(cadence.sampleCount.value).toBe(0);
+    expect(cadence.signals.value.insufficientData).toBe(true);
+    wrapper.unmount();
+  });
+
+  it('re-attaches when the target element changes', async () => {
+    const { wrapper, show, cadence } = setup();
+    await nextTick();
+    const first = wrapper.find('input').element;
+    type(first, 3);
+    expect(cadence.sampleCount.value).toBe(3);
+
+    show.value = false;
+    await nextTick();
+    expect(cadence.snapshot()).toBeNull();
+    expect(cadence.sampleCount.value).toBe(0);
+
+    show.value = true;
+    await nextTick();
+    const second = wrapper.find('input').element;
+    expect(second).not.toBe(first);
+    type(second, 2);
+    expect(cadence.sampleCount.value).toBe(2);
+    wrapper.unmount();
+  });
+
+  it('applies option changes to the live binding', async () => {
+    const options = reactive<UseHumanCadenceOptions>({ minSamples: 20 });
+    const { wrapper, cadence } = setup(options);
+    await nextTick();
+    const input = wrapper.find('input').element;
+    type(input, 4);
+    expect(cadence.confident.value).toBe(false);
+
+    options.minSamples = 3;
+    await nextTick();
+    type(input, 3);
+    expect(cadence.confident.value).toBe(true);
+    wrapper.unmount();
+  });
+
+  it('keeps collected samples when scoring options change', async () => {
+    const options = reactive<UseHumanCadenceOptions>({ minSamples: 20 });
+    const { wrapper, cadence } = setup(options);
+    await nextTick();
+    type(wrapper.find('input').element, 6);
+
+    options.windowSize = 4;
+    await nextTick();
+    vi.runAllTimers();
+    expect(cadence.sampleCount.value).toBe(4);
+    expect(cadence.snapshot()?.dwells).toHaveLength(4);
+    wrapper.unmount();
+  });
+
+  it('keeps the instance when an inline metrics array is replaced by an equal one', async () => {
+    const metric = () => ({ name: 'flat', score: () => 0.5, weight: 0.1 });
+    const options = ref<UseHumanCadenceOptions>({ minSamples: 20, metrics: [metric()] });
+    const { wrapper, cadence } = setup(options);
+    await nextTick();
+    const input = wrapper.find('input').element;
+    type(input, 5);
+
+    options.value = { minSamples: 3, metrics: [metric()] };
+    await nextTick();
+    type(input, 1);
+    expect(cadence.sampleCount.value).toBe(6);
+    expect(cadence.confident.value).toBe(true);
+
+    options.value = { minSamples: 3, metrics: [{ ...metric(), weight: 0.2 }] };
+    await nextTick();
+    type(input, 1);
+    expect(cadence.sampleCount.value).toBe(1);
+    wrapper.unmount();
+  });
+
+  it('accepts options as a ref', async () => {
+    const options = ref<UseHumanCadenceOptions>({ minSamples: 20 });
+    const { wrapper, cadence } = setup(options);
+    await nextTick();
+    options.value = { minSamples: 2 };
+    await nextTick();
+    type(wrapper.find('input').element, 2);
+    expect(cadence.confident.value).toBe(true);
+    wrapper.unmount();
+  });
+
+  it('stops on unmount', async () => {
+    const { wrapper, cadence } = setup();
+    await nextTick();
+    const input = wrapper.find('input').element;
+    wrapper.unmount();
+    type(input, 3);
+    expect(cadence.snapshot()).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, it, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { mount } from '@vue/test-utils';
-import { defineComponent, h, nextTick } from 'vue';
+import { defineComponent, h, nextTick, ref } from 'vue';
+import type { CadenceResult } from '../../src/types';
 import { vHumanCadence } from '../../src/vue/index';
 
 function fireKey(el: EventTarget, type: 'keydown' | 'keyup', key: string = 'a') {
@@ -139,4 +140,71 @@ describe('vHumanCadence directive', () => {
     fireKey(input, 'keydown');
     fireKey(input, 'keyup');
   });
+
+  describe('binding updates', () => {
+    function typeKeys(el: EventTarget, count: number) {
+      for (let i = 0; i < count; i++) {
+        mockNow.value += 150 + (i % 3) * 40;
+        fireKey(el, 'keydown');
+        mockNow.value += 40 + (i % 4) * 5;
+        fireKey(el, 'keyup');
+      }
+    }
+
+    async function flush() {
+      await new Promise((r) => setTimeout(r, 150));
+    }
+
+    function mountWith(initial: Record<string, unknown>) {
+      const binding = ref(initial);
+      const TestComp = defineComponent({
+        directives: { 'human-cadence': vHumanCadence },
+        setup() {
+          return { binding };
+        },
+        template: '<input v-human-cadence="binding" />',
+      });
+      const wrapper = mount(TestComp, { attachTo: document.body });
+      return { wrapper, binding, input: wrapper.find('input').element };
+    }
+
+    it('applies changed options in place and keeps the samples', async () => {
+      const first = vi.fn();
+      const { wrapper, binding, input } = mountWith({ onScore: first, minSamples: 30 });
+      typeKeys(input, 10);
+      await flush();
+      expect((first.mock.lastCall?.[0] as CadenceResult).confident).toBe(false);
+
+      const second = vi.fn();
+      binding.value = { onScore: second, minSamples: 5 };
+      await nextTick();
+      await flush();
+      expect(second).toHaveBeenCalled();
+      const result = second.mock.lastCall?.[0] as CadenceResult;
+      expect(result.confident).toBe(true);
+      expect(result.sampleCount).toBe(10);
+      wrapper.unmount();
+    });
+
+    it('keeps the instance for equal inline metrics and restarts for a new mobileMode', async () => {
+      const onScore = vi.fn();
+      const metric = () => ({ name: 'flat', score: () => 0.5, weight: 0.1 });
+      const { wrapper, binding, input } = mountWith({ onScore, metrics: [metric()] });
+      typeKeys(input, 10);
+      await flush();
+
+      binding.value = { onScore, metrics: [metric()] };
+      await nextTick();
+      typeKeys(input, 1);
+      await flush();
+      expect((onScore.mock.lastCall?.[0] as CadenceResult).sampleCount).toBe(11);
+
+      binding.value = { onScore, metrics: [metric()], mobileMode: 'auto' };
+      await nextTick();
+      typeKeys(input, 1);
+      await flush();
+      expect((onScore.mock.lastCall?.[0] as CadenceResult).sampleCount).toBe(1);
+      wrapper.unmount();
+    });
+  });
 });
@@ -0,0 +1,308 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { analysisWorker, createWorkerHandler, type AnalysisJob, type AnalysisWorkerFactory, type WorkerMessage, type WorkerResponse } from '../src/worker/index';
+import { createAnalyzer, DEFAULT_MOBILE_WEIGHTS, DEFAULT_WEIGHTS } from '../src/analyzer';
+import { createCadence, type CadenceResult } from '../src/index';
+import { importRecording, replayRecording } from '../src/server/index';
+import { INPUT_ANALYZE } from '../src/recording';
+import { generateHumanLike } from './fixtures/human-profiles';
+
+// Pretend the build inlined the worker — the fake Worker below runs the handler in-process
+vi.mock('../src/worker/source', () => ({ WORKER_SOURCE: '/* bundled worker */' }));
+
+const init = { minSamples: 20, weights: DEFAULT_WEIGHTS, mobileWeights: DEFAULT_MOBILE_WEIGHTS };
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((e: { data: WorkerResponse }) => void) | null = null;
+  onerror: ((e: { preventDefault(): void }) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+  received: WorkerMessage[] = [];
+  terminated = false;
+  private handle = createWorkerHandler();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: WorkerMessage) {
+    this.received.push(message);
+    const response = this.handle(message);
+    if (response) setTimeout(() => this.onmessage?.({ data: response }), 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  /** What the browser does when a CSP blocks the script or the worker throws. */
+  fail() {
+    this.onerror?.({ preventDefault() {} });
+  }
+}
+
+function handlers(onResult = vi.fn(), onError = vi.fn()) {
+  return { onResult, onError };
+}
+
+describe('createWorkerHandler', () => {
+  it('ignores analyze requests before init', () => {
+    const handle = createWorkerHandler();
+    const human = generateHumanLike(30);
+    expect(handle({ type: 'analyze', id: 0, profile: 'keyboard', ...human })).toBeUndefined();
+  });
+
+  it('matches the main-thread analyzer', () => {
+    const handle = createWorkerHandler();
+    handle({ type: 'init', ...init });
+    const human = generateHumanLike(30);
+    const response = handle({ type: 'analyze', id: 7, profile: 'keyboard', ...human });
+
+    const expected = createAnalyzer({ minSamples: 20, weights: DEFAULT_WEIGHTS })
+      .analyze(human.dwells, human.flights, human.corrections, human.rollovers, human.total);
+    expect(response).toEqual({ id: 7, result: expected });
+  });
+
+  it('explains results when initialized with explain', () => {
+    const handle = createWorkerHandler();
+    handle({ type: 'init', ...init, explain: true });
+    const human = generateHumanLike(30);
+    const response = handle({ type: 'analyze', id: 2, profile: 'keyboard', ...human });
+    expect(response?.result.explanation?.metrics.flightFit.stats).toHaveProperty('ksStatistic');
+  });
+
+  it('uses the virtual profile for virtual requests', () => {
+    const handle = createWorkerHandler();
+    handle({ type: 'init', ...init });
+    const response = handle({
+      type: 'analyze', id: 1, profile: 'virtual',
+      dwells: [], flights: Array<number>(25).fill(200), corrections: 0, rollovers: 0, total: 26,
+    });
+    expect(response?.result.sampleCount).toBe(25);
+    expect(response?.result.metrics.dwellVariance).toBe(0);
+  });
+});
+
+describe('analysisWorker', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.useFakeTimers();
+    vi.stubGlobal('Worker', FakeWorker);
+    URL.createObjectURL = vi.fn(() => 'blob:worker');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('returns null when Worker is unavailable', () => {
+    vi.stubGlobal('Worker', undefined);
+    expect(analysisWorker(init, handlers())).toBeNull();
+  });
+
+  it('returns null when the Worker constructor throws', () => {
+    vi.stubGlobal('Worker', class { constructor() { throw new Error('blocked'); } });
+    expect(analysisWorker(init, handlers())).toBeNull();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:worker');
+  });
+
+  it('keeps the blob URL until the worker answers', () => {
+    const worker = analysisWorker(init, handlers());
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+    worker?.post({ profile: 'keyboard', ...generateHumanLike(30) });
+    vi.runAllTimers();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:worker');
+  });
+
+  it('terminates and reports a worker that fails after starting (CSP)', () => {
+    const onError = vi.fn();
+    const worker = analysisWorker(init, handlers(vi.fn(), onError));
+    worker?.post({ profile: 'keyboard', ...generateHumanLike(30) });
+    FakeWorker.instances[0].fail();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:worker');
+  });
+
+  it('sends init, then posts jobs and delivers results', () => {
+    const onResult = vi.fn();
+    const worker = analysisWorker(init, handlers(onResult));
+    const human = generateHumanLike(30);
+    worker?.post({ profile: 'keyboard', ...human });
+    vi.runAllTimers();
+
+    expect(FakeWorker.instances[0].received[0]).toEqual({ type: 'init', ...init });
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(onResult.mock.calls[0][0]).toHaveProperty('score');
+  });
+
+  it('keeps only the newest job while one is in flight', () => {
+    const onResult = vi.fn();
+    const worker = analysisWorker(init, handlers(onResult));
+    const job = (total: number) => ({ profile: 'keyboard' as const, dwells: [], flights: [], corrections: 0, rollovers: 0, total });
+    worker?.post(job(1));
+    worker?.post(job(2));
+    worker?.post(job(3));
+    vi.runAllTimers();
+
+    const totals = FakeWorker.instances[0].received.flatMap((m) => (m.type === 'analyze' ? [m.total] : []));
+    expect(totals).toEqual([1, 3]);
+    // Every result is published, so continuous typing can't starve onResult
+    expect(onResult).toHaveBeenCalledTimes(2);
+  });
+
+  it('terminate() stops the worker', () => {
+    const worker = analysisWorker(init, handlers());
+    worker?.terminate();
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+});
+
+describe('createCadence with worker scheduling', () => {
+  let target: EventTarget;
+  let now: number;
+
+  function type(count: number) {
+    const human = generateHumanLike(count);
+    for (let i = 0; i < count; i++) {
+      now += human.flights[i];
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: 'a' }));
+      now += human.dwells[i];
+      target.dispatchEvent(new KeyboardEvent('keyup', { key: 'a' }));
+    }
+  }
+
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    target = new EventTarget();
+    now = 1000;
+    vi.useFakeTimers();
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    vi.stubGlobal('Worker', FakeWorker);
+    URL.createObjectURL = vi.fn(() => 'blob:worker');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('scores off the main thread and reports through onScore', () => {
+    const onScore = vi.fn();
+    const cadence = createCadence(target, { scheduling: 'worker', worker: analysisWorker, onScore });
+    cadence.start();
+    type(30);
+    vi.runAllTimers();
+
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(onScore).toHaveBeenCalled();
+    const last = onScore.mock.calls[onScore.mock.calls.length - 1][0];
+    // Same score as a synchronous analysis of the same data
+    expect(last.score).toBeCloseTo(cadence.analyze().score, 10);
+    cadence.destroy();
+  });
+
+  it('keeps custom metrics on the main thread', () => {
+    const onScore = vi.fn();
+    const cadence = createCadence(target, {
+      scheduling: 'worker',
+      worker: analysisWorker,
+      onScore,
+      metrics: [{ name: 'constant', weight: 0.1, score: () => 0.8 }],
+    });
+    cadence.start();
+    type(5);
+    vi.runAllTimers();
+
+    expect(FakeWorker.instances).toHaveLength(0);
+    expect(onScore.mock.calls[0][0].metrics.constant).toBe(0.8);
+    cadence.destroy();
+  });
+
+  it('terminates the worker on reset()', () => {
+    const cadence = createCadence(target, { scheduling: 'worker', worker: analysisWorker });
+    cadence.start();
+    type(3);
+    cadence.reset();
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    cadence.destroy();
+  });
+
+  it('falls back to main-thread analysis when the worker fails', () => {
+    const onScore = vi.fn();
+    const cadence = createCadence(target, { scheduling: 'worker', worker: analysisWorker, onScore });
+    cadence.start();
+    type(30);
+    FakeWorker.instances[0].fail();
+    vi.runAllTimers();
+
+    expect(onScore).toHaveBeenCalled();
+    const last = onScore.mock.calls[onScore.mock.calls.length - 1][0];
+    expect(last.score).toBeCloseTo(cadence.analyze().score, 10);
+
+    // Later keystrokes don't respawn it
+    type(5);
+    vi.runAllTimers();
+    expect(FakeWorker.instances).toHaveLength(1);
+    cadence.destroy();
+  });
+
+  it('marks the tape where each worker job was taken', () => {
+    const results: CadenceResult[] = [];
+    const cadence = createCadence(target, { scheduling: 'worker', worker: analysisWorker, record: true, onScore: (r) => results.push(r) });
+    cadence.start();
+    // Keystrokes keep arriving while jobs are in flight
+    for (let i = 0; i < 6; i++) {
+      type(5);
+      vi.advanceTimersByTime(0);
+    }
+    vi.runAllTimers();
+
+    expect(results.length).toBeGreaterThan(2);
+    expect(replayRecording(importRecording(cadence.exportRecording()))).toEqual(results);
+    cadence.destroy();
+  });
+
+  it('appends the mark when its anchor has left the tape', () => {
+    // A worker that answers late, after reset() replaced the tape
+    const jobs: { job: AnalysisJob; answer: () => void }[] = [];
+    const lateWorker: AnalysisWorkerFactory = (workerInit, { onResult }) => {
+      const analyzer = createAnalyzer(workerInit);
+      return {
+        post(job) {
+          const base = analyzer.analyze(job.dwells, job.flights, job.corrections, job.rollovers, job.total);
+          jobs.push({ job, answer: () => onResult(base, job) });
+        },
+        terminate() {},
+      };
+    };
+    const cadence = createCadence(target, { scheduling: 'worker', worker: lateWorker, record: true });
+    cadence.start();
+    type(5);
+    vi.runAllTimers();
+    cadence.reset();
+    type(3);
+    jobs[0].answer();
+
+    const { inputs } = importRecording(cadence.exportRecording());
+    expect(inputs).toHaveLength(7);
+    expect(inputs[6][1]).toBe(INPUT_ANALYZE);
+    cadence.destroy();
+  });
+
+  it('stays on the main thread without a worker factory', () => {
+    const onScore = vi.fn();
+    const cadence = createCadence(target, { scheduling: 'worker', onScore });
+    cadence.start();
+    type(5);
+    vi.runAllTimers();
+
+    expect(FakeWorker.instances).toHaveLength(0);
+    expect(onScore).toHaveBeenCalled();
+    cadence.destroy();
+  });
+});
@@ -1,4 +1,30 @@
 import { defineConfig } from 'tsup';
+import { build, type Plugin } from 'esbuild';
+
+/**
+ * Replace the empty WORKER_SOURCE placeholder with the minified analysis
+ * worker, so `analysisWorker` can start it from a blob URL. Only the
+ * `./worker` entry uses it — the core bundle stays free of the inlined copy.
+ */
+const inlineWorker: Plugin = {
+  name: 'inline-worker',
+  setup(pluginBuild) {
+    pluginBuild.onLoad({ filter: /[\\/]worker[\\/]source\.ts$/ }, async () => {
+      const result = await build({
+        entryPoints: ['src/worker/analysis-worker.ts'],
+        bundle: true,
+        minify: true,
+        format: 'iife',
+        target: 'es2020',
+        write: false,
+      });
+      return {
+        contents: `export const WORKER_SOURCE = ${JSON.stringify(result.outputFiles[0].text)};`,
+        loader: 'ts',
+      };
+    });
+  },
+};
 
 export default defineConfig([
   {
@@ -13,6 +39,16 @@ export default defineConfig([
     splitting: false,
     target: 'es2020',
   },
+  {
+    entry: { worker: 'src/worker/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    target: 'es2020',
+    outDir: 'dist',
+    esbuildPlugins: [inlineWorker],
+  },
   {
     entry: { react: 'src/react/index.ts' },
     format: ['esm', 'cjs'],
@@ -22,6 +58,24 @@ export default defineConfig([
     external: ['react', 'is-human-cadence'],
     outDir: 'dist',
   },
+  {
+    entry: { preact: 'src/preact/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    external: ['preact', 'is-human-cadence'],
+    outDir: 'dist',
+  },
+  {
+    entry: { solid: 'src/solid/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    external: ['solid-js', 'is-human-cadence'],
+    outDir: 'dist',
+  },
   {
     entry: { vue: 'src/vue/index.ts' },
     format: ['esm', 'cjs'],
@@ -31,4 +85,104 @@ export default defineConfig([
     external: ['vue', 'is-human-cadence'],
     outDir: 'dist',
   },
+  {
+    entry: { svelte: 'src/svelte/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    external: ['svelte', 'is-human-cadence'],
+    outDir: 'dist',
+  },
+  {
+    entry: { angular: 'src/angular/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    external: ['@angular/core', 'is-human-cadence'],
+    outDir: 'dist',
+    // The Angular linker only processes files containing a literal `ɵɵngDeclare`
+    esbuildOptions(options) {
+      options.charset = 'utf8';
+    },
+  },
+  {
+    entry: { element: 'src/element/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    outDir: 'dist',
+  },
+  {
+    entry: { 'human-cadence': 'src/element/register.ts' },
+    format: ['iife'],
+    globalName: 'IsHumanCadenceElement',
+    minify: true,
+    sourcemap: false,
+    target: 'es2020',
+    outDir: 'dist',
+  },
+  {
+    entry: { form: 'src/form/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    outDir: 'dist',
+  },
+  {
+    entry: { server: 'src/server/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    platform: 'node',
+    outDir: 'dist',
+  },
+  {
+    entry: { calibration: 'src/calibration/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    platform: 'node',
+    outDir: 'dist',
+  },
+  {
+    entry: { testing: 'src/testing/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    outDir: 'dist',
+  },
+  {
+    entry: { evaluation: 'src/evaluation/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    platform: 'node',
+    outDir: 'dist',
+  },
+  {
+    entry: { datasets: 'src/datasets/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    minify: true,
+    sourcemap: false,
+    platform: 'node',
+    outDir: 'dist',
+  },
+  {
+    entry: { cli: 'src/cli/bin.ts' },
+    format: ['esm'],
+    minify: true,
+    sourcemap: false,
+    platform: 'node',
+    outDir: 'dist',
+    banner: { js: '#!/usr/bin/env node' },
+  },
 ]);
@@ -1,6 +1,10 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    // solid-js resolves to its server build under Node, where effects never run
+    alias: [{ find: /^solid-js$/, replacement: 'solid-js/dist/solid.js' }],
+  },
   test: {
     globals: true,
     environment: 'jsdom',